@@ -0,0 +1,122 @@
+// ─── Service Worker ───────────────────────────────────────────────────────────
+// Offline-first app shell. The page and its assets are served from the cache
+// and refreshed in the background, so the game starts instantly and keeps
+// working with no connection. Hashed build files never change and are
+// cache-first. API reads go to the network and fall back to the last answer;
+// score submissions are never cached (the page queues them in IndexedDB).
+// Bump CACHE_VERSION to drop every cached file on the next visit.
+
+const CACHE_VERSION = 2;
+const CACHE = `dogsui-shell-v${CACHE_VERSION}`;
+
+const SHELL = ["/", "/manifest.webmanifest", "/icon/192", "/icon/512", "/apple-icon"];
+
+// Hashed build files, as they appear in the shell's HTML and RSC payload
+const STATIC_ASSET = /\/_next\/static\/[^"'\s)\\<>&]+/g;
+
+function isStaticAsset(url) {
+  return url.origin === self.location.origin && url.pathname.startsWith("/_next/static/");
+}
+
+// A missing build file shouldn't cost the whole install
+async function cacheAll(cache, urls) {
+  const missing = [];
+  for (const url of urls) if (!(await cache.match(url))) missing.push(url);
+  await Promise.allSettled(missing.map(url => cache.add(url)));
+}
+
+// The first visit loads its scripts and styles before this worker controls
+// the page, so they never pass through the fetch handler. Read them out of
+// the shell instead: a page cached without them can't start offline.
+async function precacheShell() {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL);
+  const shell = await cache.match("/");
+  const html = shell ? await shell.text() : "";
+  await cacheAll(cache, new Set(html.match(STATIC_ASSET) ?? []));
+}
+
+self.addEventListener("install", event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+// The page reports every build file it has loaded, which also covers chunks
+// fetched on demand that the shell's HTML doesn't name
+self.addEventListener("message", event => {
+  if (event.data?.type !== "cacheAssets" || !Array.isArray(event.data.urls)) return;
+  const urls = event.data.urls.filter(url => typeof url === "string" && isStaticAsset(new URL(url, self.location.origin)));
+  event.waitUntil(caches.open(CACHE).then(cache => cacheAll(cache, urls)));
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Answer from the cache right away and refresh it for next time. Pages fall
+// back to the cached shell, since the game is a single page.
+async function staleWhileRevalidate(event, fallback) {
+  const { request } = event;
+  const cached = (await caches.match(request, { ignoreSearch: !!fallback })) ?? (fallback && (await caches.match(fallback)));
+  const refresh = fetch(request)
+    .then(async response => {
+      if (response.ok) {
+        const cache = await caches.open(CACHE);
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => undefined);
+  if (cached) {
+    event.waitUntil(refresh);
+    return cached;
+  }
+  return (await refresh) ?? Response.error();
+}
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/api/")) {
+    event.respondWith(networkFirst(request));
+  } else if (isStaticAsset(url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(staleWhileRevalidate(event, "/"));
+  } else {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
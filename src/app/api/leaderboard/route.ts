@@ -0,0 +1,179 @@
+import { NextResponse } from "next/server";
+import { and, count, desc, eq, gt } from "drizzle-orm";
+import { db } from "@/db";
+import { scores } from "@/db/schema";
+import { parseReplay } from "@/lib/game/replay";
+import { MAX_ENDLESS_RUN_TICKS } from "@/lib/game/verify";
+import { verifyOffThread } from "@/lib/game/verifyPool";
+import {
+  isGameMode,
+  MAX_NAME_LENGTH,
+  MAX_PAGE_SIZE,
+  MAX_SUBMISSION_BYTES,
+  type LeaderboardPage,
+} from "@/lib/leaderboard";
+
+// Verifies replays in worker threads
+export const runtime = "nodejs";
+
+// Each submission costs a re-simulation, so one client only gets a few per
+// window. In memory: per server instance, reset on restart.
+const SUBMISSIONS_PER_WINDOW = 5;
+const SUBMISSION_WINDOW_MS = 60_000;
+const recentSubmissions = new Map<string, number[]>();
+
+// Proxies in front of the server (TRUSTED_PROXY_HOPS, default 1). Each one
+// appends the address it saw to x-forwarded-for, so the client is the entry
+// the outermost trusted proxy added; anything left of it came from the client
+// and could be anything.
+const hopsSetting = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+const TRUSTED_PROXY_HOPS = Number.isSafeInteger(hopsSetting) && hopsSetting >= 0 ? hopsSetting : 1;
+
+function clientKey(request: Request): string {
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  // Without a trusted address every client shares one limit
+  return (TRUSTED_PROXY_HOPS > 0 && hops[hops.length - TRUSTED_PROXY_HOPS]) || "untrusted";
+}
+
+/** Records a submission from `client`. Returns false if it is over its limit. */
+function allowSubmission(client: string, now: number): boolean {
+  const since = now - SUBMISSION_WINDOW_MS;
+  // Forget clients that have been quiet for a whole window
+  for (const [key, times] of recentSubmissions) {
+    if (times[times.length - 1] <= since) recentSubmissions.delete(key);
+  }
+  const times = (recentSubmissions.get(client) ?? []).filter(t => t > since);
+  if (times.length >= SUBMISSIONS_PER_WINDOW) return false;
+  times.push(now);
+  recentSubmissions.set(client, times);
+  return true;
+}
+
+function parseIntParam(value: string | null, fallback: number, min: number, max: number): number {
+  const n = value === null ? NaN : parseInt(value, 10);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(Math.max(n, min), max);
+}
+
+// The body as text, or null once it grows past `maxBytes`. Counted while
+// streaming: content-length is missing on chunked uploads and can lie.
+async function readBody(request: Request, maxBytes: number): Promise<string | null> {
+  if (!request.body) return "";
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      void reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// GET /api/leaderboard?mode=campaign&limit=10&offset=0 — highest scores first
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const modeParam = searchParams.get("mode") ?? "campaign";
+  if (!isGameMode(modeParam)) {
+    return NextResponse.json({ error: "mode must be campaign or endless" }, { status: 400 });
+  }
+  const mode = modeParam;
+  const limit = parseIntParam(searchParams.get("limit"), 10, 1, MAX_PAGE_SIZE);
+  const offset = parseIntParam(searchParams.get("offset"), 0, 0, Number.MAX_SAFE_INTEGER);
+
+  const rows = await db
+    .select()
+    .from(scores)
+    .where(eq(scores.mode, mode))
+    .orderBy(desc(scores.score), scores.createdAt)
+    .limit(limit)
+    .offset(offset);
+  const [{ total }] = await db.select({ total: count() }).from(scores).where(eq(scores.mode, mode));
+
+  const page: LeaderboardPage = {
+    mode,
+    players: rows.map((row: typeof scores.$inferSelect) => ({
+      name: row.name,
+      score: row.score,
+      date: (row.createdAt ?? new Date()).toISOString(),
+    })),
+    total,
+    limit,
+    offset,
+  };
+  return NextResponse.json(page);
+}
+
+// POST /api/leaderboard — { name, replay }; the replay is re-simulated and
+// only a score that reproduces exactly is stored, under the replay's mode
+export async function POST(request: Request) {
+  if (!allowSubmission(clientKey(request), Date.now())) {
+    return NextResponse.json({ error: "Too many submissions, try again in a minute" }, { status: 429 });
+  }
+
+  // Declared too large: refuse without reading it
+  const length = Number(request.headers.get("content-length") ?? 0);
+  if (length > MAX_SUBMISSION_BYTES) {
+    return NextResponse.json({ error: "Submission too large" }, { status: 413 });
+  }
+  const text = await readBody(request, MAX_SUBMISSION_BYTES);
+  if (text === null) {
+    return NextResponse.json({ error: "Submission too large" }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { name, replay: rawReplay } = (body ?? {}) as Record<string, unknown>;
+  const trimmed = typeof name === "string" ? name.trim().slice(0, MAX_NAME_LENGTH) : "";
+  if (!trimmed) {
+    return NextResponse.json({ error: "name is required" }, { status: 400 });
+  }
+  const replay = parseReplay(rawReplay, MAX_ENDLESS_RUN_TICKS);
+  if (!replay) {
+    return NextResponse.json({ error: "replay is missing or malformed" }, { status: 400 });
+  }
+
+  const verification = await verifyOffThread(replay);
+  if (verification.status === "busy") {
+    return NextResponse.json(
+      { error: "Verifier is busy, try again shortly" },
+      { status: 503, headers: { "Retry-After": "10" } },
+    );
+  }
+  if (verification.status === "timeout") {
+    return NextResponse.json({ error: "Score rejected: run took too long to verify" }, { status: 422 });
+  }
+  if (verification.status === "failed") {
+    return NextResponse.json({ error: "Verification failed" }, { status: 500 });
+  }
+
+  const { result } = verification;
+  if (!result.ok) {
+    return NextResponse.json({ error: `Score rejected: ${result.reason}` }, { status: 422 });
+  }
+
+  const { score, stats } = result;
+  const { mode } = replay;
+  await db
+    .insert(scores)
+    .values({ name: trimmed, mode, score, seed: replay.seed, kills: stats.kills, ticks: replay.ticks });
+  const [{ higher }] = await db
+    .select({ higher: count() })
+    .from(scores)
+    .where(and(eq(scores.mode, mode), gt(scores.score, score)));
+
+  return NextResponse.json({ rank: higher + 1 }, { status: 201 });
+}
@@ -0,0 +1,10 @@
+import { ImageResponse } from "next/og";
+import { brandIcon } from "./brandIcon";
+
+// iOS home-screen icon at /apple-icon
+export const size = { width: 180, height: 180 };
+export const contentType = "image/png";
+
+export default function AppleIcon() {
+  return new ImageResponse(brandIcon(size.width), size);
+}
@@ -0,0 +1,45 @@
+// The game's icon for ImageResponse: the SUI droplet in a glowing ring on the
+// night-sky background. Everything sits inside the middle 60% so the icon
+// also works as a maskable icon, whatever shape the launcher crops it to.
+export function brandIcon(size: number) {
+  const ring = size * 0.6;
+  const drop = size * 0.28;
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "radial-gradient(circle at 50% 40%, #0a1a33 0%, #02040a 75%)",
+      }}
+    >
+      <div
+        style={{
+          width: ring,
+          height: ring,
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          borderRadius: "50%",
+          border: `${Math.max(2, size * 0.025)}px solid #00c8ff`,
+          boxShadow: `0 0 ${size * 0.08}px #00c8ff`,
+          background: "radial-gradient(circle, rgba(0,200,255,0.25) 0%, rgba(0,200,255,0.05) 70%)",
+        }}
+      >
+        {/* A square with three round corners, turned to point up, is a droplet */}
+        <div
+          style={{
+            width: drop,
+            height: drop,
+            marginTop: drop * 0.3,
+            borderRadius: "50% 0 50% 50%",
+            transform: "rotate(-45deg)",
+            background: "linear-gradient(135deg, #7fe3ff 0%, #00c8ff 45%, #0066cc 100%)",
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { ImageResponse } from "next/og";
+import { brandIcon } from "./brandIcon";
+
+// App icons at /icon/192 and /icon/512, used by the manifest and as favicons
+const SIZES = [192, 512];
+
+export const contentType = "image/png";
+
+export function generateImageMetadata() {
+  return SIZES.map(size => ({ id: String(size), size: { width: size, height: size }, contentType }));
+}
+
+export default async function Icon({ id }: { id: Promise<string> }) {
+  const size = Number(await id);
+  return new ImageResponse(brandIcon(size), { width: size, height: size });
+}
@@ -0,0 +1,25 @@
+import type { MetadataRoute } from "next";
+
+// Web app manifest, served at /manifest.webmanifest. Makes the game
+// installable; the icons are generated by icon.tsx and apple-icon.tsx.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    id: "/",
+    name: "DOGSUI-DEFENDER",
+    short_name: "DogSui",
+    description: "Defenda o SUI da invasão das meme coins — ondas de choque, chefes e modo infinito.",
+    start_url: "/",
+    scope: "/",
+    display: "fullscreen",
+    orientation: "landscape",
+    background_color: "#02040a",
+    theme_color: "#00c8ff",
+    lang: "pt-BR",
+    categories: ["games"],
+    icons: [
+      { src: "/icon/192", sizes: "192x192", type: "image/png", purpose: "any" },
+      { src: "/icon/512", sizes: "512x512", type: "image/png", purpose: "any" },
+      { src: "/icon/512", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
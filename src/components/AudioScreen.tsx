@@ -0,0 +1,99 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { AUDIO_BUSES, type AudioBus, type AudioSettings } from "@/lib/audio/engine";
+import type { Translator } from "@/lib/i18n";
+
+interface AudioScreenProps {
+  settings: AudioSettings;
+  i18n: Translator;
+  onVolume: (bus: AudioBus, volume: number) => void;
+  onToggleMute: () => void;
+  onClose: () => void;
+}
+
+const rowStyle: CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "12px",
+  width: "340px",
+  padding: "8px 12px",
+  borderRadius: "10px",
+  background: "rgba(255,255,255,0.04)",
+  border: "1px solid rgba(0,200,255,0.2)",
+};
+
+// ─── Audio Settings Screen ────────────────────────────────────────────────────
+export default function AudioScreen({ settings, i18n, onVolume, onToggleMute, onClose }: AudioScreenProps) {
+  const { t } = i18n;
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        borderRadius: "16px",
+        background: "rgba(2,4,8,0.94)",
+        gap: "12px",
+        fontFamily: "monospace",
+        cursor: "default",
+      }}
+    >
+      <div style={{ color: "#00c8ff", fontSize: "24px", fontWeight: "bold", letterSpacing: "3px" }}>{t("audio.title")}</div>
+
+      {AUDIO_BUSES.map(bus => (
+        <label key={bus} style={{ ...rowStyle, opacity: settings.muted ? 0.45 : 1 }}>
+          <span style={{ color: "#ffffff", fontSize: "13px", width: "100px" }}>{t(`audio.${bus}`)}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(settings.volume[bus] * 100)}
+            onChange={e => onVolume(bus, Number(e.target.value) / 100)}
+            style={{ flex: 1, accentColor: "#00c8ff", cursor: "pointer" }}
+          />
+          <span style={{ color: "#00c8ff", fontSize: "12px", width: "40px", textAlign: "right" }}>
+            {Math.round(settings.volume[bus] * 100)}%
+          </span>
+        </label>
+      ))}
+
+      <button
+        onClick={onToggleMute}
+        style={{
+          padding: "6px 18px",
+          fontSize: "12px",
+          fontWeight: "bold",
+          fontFamily: "monospace",
+          background: settings.muted ? "rgba(255,68,102,0.2)" : "rgba(0,200,255,0.1)",
+          color: settings.muted ? "#ff4466" : "#00c8ff",
+          border: `1px solid ${settings.muted ? "rgba(255,68,102,0.6)" : "rgba(0,200,255,0.4)"}`,
+          borderRadius: "6px",
+          cursor: "pointer",
+        }}
+      >
+        {settings.muted ? t("audio.off") : t("audio.on")}
+      </button>
+
+      <button
+        onClick={onClose}
+        style={{
+          padding: "6px 18px",
+          fontSize: "12px",
+          fontWeight: "bold",
+          fontFamily: "monospace",
+          background: "linear-gradient(135deg, #00c8ff, #0066cc)",
+          color: "#ffffff",
+          border: "none",
+          borderRadius: "6px",
+          cursor: "pointer",
+        }}
+      >
+        {t("common.back")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState, type CSSProperties } from "react";
+import {
+  bindKey,
+  bindPadButton,
+  defaultBindings,
+  getGamepad,
+  isPadButtonDown,
+  KEY_ACTIONS,
+  KEY_SLOTS,
+  keyLabel,
+  PAD_ACTIONS,
+  padButtonLabel,
+  type Bindings,
+  type KeyAction,
+  type PadAction,
+} from "@/lib/controls";
+import type { Translator } from "@/lib/i18n";
+
+// Aim is on the left stick rather than a pad button
+const AIM_ACTIONS: KeyAction[] = ["up", "down", "left", "right"];
+
+// The slot waiting for its next key or gamepad button
+type Listening =
+  | { kind: "key"; action: KeyAction; slot: number }
+  | { kind: "pad"; action: PadAction }
+  | null;
+
+interface ControlsScreenProps {
+  player: string;
+  bindings: Bindings;
+  i18n: Translator;
+  onChange: (bindings: Bindings) => void;
+  onClose: () => void;
+}
+
+const slotStyle: CSSProperties = {
+  minWidth: "96px",
+  padding: "5px 10px",
+  fontSize: "12px",
+  fontWeight: "bold",
+  fontFamily: "monospace",
+  background: "rgba(0,200,255,0.1)",
+  color: "#00c8ff",
+  border: "1px solid rgba(0,200,255,0.4)",
+  borderRadius: "6px",
+  cursor: "pointer",
+};
+
+const listeningStyle: CSSProperties = {
+  ...slotStyle,
+  background: "rgba(255,215,0,0.2)",
+  color: "#ffd700",
+  border: "1px solid rgba(255,215,0,0.6)",
+};
+
+// ─── Controls / Bindings Screen ───────────────────────────────────────────────
+export default function ControlsScreen({ player, bindings, i18n, onChange, onClose }: ControlsScreenProps) {
+  const { t } = i18n;
+  const [listening, setListening] = useState<Listening>(null);
+
+  // Capture the next key press for the selected keyboard slot
+  useEffect(() => {
+    if (listening?.kind !== "key") return;
+    const handleKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      onChange(bindKey(bindings, listening.action, listening.slot, e.code));
+      setListening(null);
+    };
+    window.addEventListener("keydown", handleKey, { capture: true });
+    return () => window.removeEventListener("keydown", handleKey, { capture: true });
+  }, [listening, bindings, onChange]);
+
+  // Gamepads have no button events: poll for a button that wasn't held before
+  useEffect(() => {
+    if (listening?.kind !== "pad") return;
+    let frame = 0;
+    let held: boolean[] | null = null;
+    const poll = () => {
+      const pad = getGamepad();
+      if (pad) {
+        const down = pad.buttons.map((_, i) => isPadButtonDown(pad, i));
+        const pressed = held ? down.findIndex((d, i) => d && !held![i]) : -1;
+        held = down;
+        if (pressed >= 0) {
+          onChange(bindPadButton(bindings, listening.action, pressed));
+          setListening(null);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [listening, bindings, onChange]);
+
+  const isListening = (kind: "key" | "pad", action: string, slot = 0) => {
+    if (!listening || listening.kind !== kind || listening.action !== action) return false;
+    return listening.kind === "pad" || listening.slot === slot;
+  };
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        borderRadius: "16px",
+        background: "rgba(2,4,8,0.92)",
+        gap: "14px",
+        fontFamily: "monospace",
+        cursor: "default",
+      }}
+    >
+      <div style={{ color: "#00c8ff", fontSize: "26px", fontWeight: "bold", letterSpacing: "3px" }}>
+        {t("controls.title")}
+      </div>
+      <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "12px" }}>
+        {t("controls.hint", { player })}
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "auto repeat(3, auto)", gap: "6px 12px", alignItems: "center" }}>
+        <div />
+        <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "11px", textAlign: "center" }}>{t("controls.key1")}</div>
+        <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "11px", textAlign: "center" }}>{t("controls.key2")}</div>
+        <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "11px", textAlign: "center" }}>{t("controls.pad")}</div>
+        {KEY_ACTIONS.map(action => (
+          <div key={action} style={{ display: "contents" }}>
+            <div style={{ color: "#ffffff", fontSize: "13px" }}>{t(`action.${action}`)}</div>
+            {Array.from({ length: KEY_SLOTS }, (_, slot) => (
+              <button
+                key={slot}
+                onClick={() => setListening({ kind: "key", action, slot })}
+                style={isListening("key", action, slot) ? listeningStyle : slotStyle}
+              >
+                {isListening("key", action, slot) ? "…" : keyLabel(bindings.keys[action][slot], t)}
+              </button>
+            ))}
+            {(PAD_ACTIONS as string[]).includes(action) ? (
+              <button
+                onClick={() => setListening({ kind: "pad", action: action as PadAction })}
+                style={isListening("pad", action) ? listeningStyle : slotStyle}
+              >
+                {isListening("pad", action) ? "…" : padButtonLabel(bindings.pad[action as PadAction])}
+              </button>
+            ) : (
+              <div style={{ color: "rgba(255,255,255,0.4)", fontSize: "11px", textAlign: "center" }}>
+                {AIM_ACTIONS.includes(action) ? t("controls.leftStick") : "—"}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: "flex", gap: "10px" }}>
+        <button
+          onClick={() => {
+            setListening(null);
+            onChange(defaultBindings());
+          }}
+          style={slotStyle}
+        >
+          {t("controls.reset")}
+        </button>
+        <button
+          onClick={() => {
+            setListening(null);
+            onClose();
+          }}
+          style={{ ...slotStyle, background: "linear-gradient(135deg, #00c8ff, #0066cc)", color: "#ffffff", border: "none" }}
+        >
+          {t("common.back")}
+        </button>
+      </div>
+    </div>
+  );
+}
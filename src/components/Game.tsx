@@ -1,25 +1,154 @@
 "use client";
 
-import { useEffect, useRef, useCallback, useState } from "react";
+import { useEffect, useRef, useCallback, useState, type CSSProperties } from "react";
+import {
+  BOSS_COLORS,
+  CENTER_X,
+  CENTER_Y,
+  HEIGHT,
+  HOLD_THRESHOLD_MS,
+  METEOR_DAMAGE,
+  SIMPLE_WAVE_COST,
+  SIM_VERSION,
+  STARTING_SCORE,
+  SUI_RADIUS,
+  TICK_MS,
+  TICK_RATE,
+  WIDTH,
+} from "@/lib/game/constants";
+import {
+  activeLasers,
+  activeTelegraphs,
+  aimAtSui,
+  BOSSES,
+  currentStage,
+  formationOffsets,
+  laserAngle,
+} from "@/lib/game/bosses";
+import { ENDLESS_LEVEL_MS } from "@/lib/game/endless";
+import { createEventBus } from "@/lib/game/events";
+import { createEffects, explode, flash, shakeScreen, shakeSui, updateEffects, type Effects } from "@/lib/game/effects";
+import { ENEMIES } from "@/lib/game/enemies";
+import { CAMPAIGN, levelLabel, levelName } from "@/lib/game/levels";
+import { dailySeed, randomSeed } from "@/lib/game/random";
+import {
+  advancePlayback,
+  createPlayback,
+  createRecorder,
+  finishRecording,
+  isPlaybackDone,
+  parseReplay,
+  recordPause,
+  recordTick,
+  seekPlayback,
+  type Playback,
+  type Recorder,
+  type Replay,
+} from "@/lib/game/replay";
+import {
+  cancelCharge,
+  chargeThreshold,
+  createInitialState,
+  currentLevel,
+  step,
+  stepIdle,
+  waveCost,
+} from "@/lib/game/simulation";
+import type {
+  Boss,
+  CoinType,
+  GameMode,
+  GameState,
+  Meteor,
+  Particle,
+  PowerUpType,
+  RunOutcome,
+  ScorePopup,
+  StepInput,
+} from "@/lib/game/types";
+import { fetchLeaderboard, GAME_MODES, MAX_NAME_LENGTH, type PlayerScore } from "@/lib/leaderboard";
+import {
+  actionForKey,
+  AIM_SPEED,
+  defaultBindings,
+  getGamepad,
+  isPadButtonDown,
+  keyLabel,
+  loadBindings,
+  PAD_ACTIONS,
+  readStick,
+  rumble,
+  saveBindings,
+  type Bindings,
+  type KeyAction,
+  type PadAction,
+} from "@/lib/controls";
+import {
+  ACHIEVEMENT_IDS,
+  ACHIEVEMENTS,
+  createAchievementTracker,
+  loadAchievements,
+  trackAchievements,
+  type AchievementId,
+  type AchievementTracker,
+  type UnlockedAchievements,
+} from "@/lib/achievements";
+import { loadProfile, recordRun, type PlayerProfile } from "@/lib/profile";
+import { loadUnlockedLevel, unlockLevel } from "@/lib/progress";
+import { isRankedRun, isTooLongToRank } from "@/lib/game/verify";
+import { flushScoreQueue, pendingScoreCount, sendScore } from "@/lib/scoreQueue";
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  loadLocale,
+  LOCALE_NAMES,
+  LOCALES,
+  saveLocale,
+  type Locale,
+  type Translator,
+} from "@/lib/i18n";
+import { updateMusic } from "@/lib/audio/adaptive";
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  fadeMusic,
+  getAudioSettings,
+  playSfx,
+  resumeAudio,
+  setBusVolume,
+  toggleMute,
+  type AudioBus,
+  type AudioSettings,
+} from "@/lib/audio/engine";
+import { stopTrack } from "@/lib/audio/sequencer";
+import { createRunTally, saveRunAnalytics, tallyEvent, type RunTally } from "@/lib/analytics";
+import { bankedShare, bankRun, buyUpgrade, loadShop, runLoadout, setApplyUpgrades, type ShopState } from "@/lib/shop";
+import { isStockLoadout, NO_UPGRADES, upgradeValue, type Loadout, type UpgradeId } from "@/lib/game/upgrades";
+import AudioScreen from "./AudioScreen";
+import ControlsScreen from "./ControlsScreen";
+import LevelSelect from "./LevelSelect";
+import ShopScreen from "./ShopScreen";
+import StatsScreen from "./StatsScreen";
+import TrophyGallery from "./TrophyGallery";
 
 // ─── Player & Leaderboard Types ───────────────────────────────────────────────
-interface PlayerScore {
-  name: string;
-  score: number;
-  date: string;
-}
-
+// Local leaderboard: offline fallback for the server one at /api/leaderboard
 interface LeaderboardData {
   players: PlayerScore[];
 }
 
 const LEADERBOARD_KEY = "dogSuiDefenderLeaderboard";
+// Endless runs get their own ranking; campaign keeps the original key
+const LEADERBOARD_KEYS: Record<GameMode, string> = {
+  campaign: LEADERBOARD_KEY,
+  endless: `${LEADERBOARD_KEY}:endless`,
+};
 const PLAYER_NAME_KEY = "dogSuiDefenderPlayerName";
+const HIGH_SCORE_KEY = "dogSuiDefenderHighScore";
 
-function loadLeaderboard(): LeaderboardData {
+function loadLeaderboard(mode: GameMode): LeaderboardData {
   if (typeof window === "undefined") return { players: [] };
   try {
-    const data = localStorage.getItem(LEADERBOARD_KEY);
+    const data = localStorage.getItem(LEADERBOARD_KEYS[mode]);
     if (data) return JSON.parse(data);
   } catch {
     // ignore
@@ -27,494 +156,266 @@ function loadLeaderboard(): LeaderboardData {
   return { players: [] };
 }
 
-function saveLeaderboard(data: LeaderboardData): void {
+function saveLeaderboard(mode: GameMode, data: LeaderboardData): void {
   try {
-    localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(data));
+    localStorage.setItem(LEADERBOARD_KEYS[mode], JSON.stringify(data));
   } catch {
     // ignore
   }
 }
 
-function addScoreToLeaderboard(name: string, score: number): void {
-  const data = loadLeaderboard();
+function addScoreToLeaderboard(mode: GameMode, name: string, score: number): void {
+  const data = loadLeaderboard(mode);
   const newScore: PlayerScore = {
     name,
     score,
-    date: new Date().toLocaleDateString("pt-BR"),
+    date: new Date().toISOString(),
   };
   data.players.push(newScore);
   // Sort by score descending, keep top 10
   data.players.sort((a, b) => b.score - a.score);
   data.players = data.players.slice(0, 10);
-  saveLeaderboard(data);
+  saveLeaderboard(mode, data);
 }
 
-function getTopPlayers(): PlayerScore[] {
-  return loadLeaderboard().players.slice(0, 5);
+const TOP_PLAYERS_SHOWN = 5;
+
+function getTopPlayers(mode: GameMode): PlayerScore[] {
+  return loadLeaderboard(mode).players.slice(0, TOP_PLAYERS_SHOWN);
 }
 
-function loadPlayerName(): string {
-  if (typeof window === "undefined") return "";
+function loadHighScore(): number {
+  if (typeof window === "undefined") return 0;
   try {
-    return localStorage.getItem(PLAYER_NAME_KEY) || "";
+    return parseInt(localStorage.getItem(HIGH_SCORE_KEY) || "0");
   } catch {
-    return "";
+    return 0;
   }
 }
 
-function savePlayerName(name: string): void {
+function saveHighScore(score: number): void {
   try {
-    localStorage.setItem(PLAYER_NAME_KEY, name);
+    localStorage.setItem(HIGH_SCORE_KEY, score.toString());
   } catch {
     // ignore
   }
 }
 
-const WIDTH = 900;
-const HEIGHT = 650;
-const SUI_RADIUS = 55;
-const CENTER_X = WIDTH / 2;
-const CENTER_Y = HEIGHT / 2;
-const FPS = 60;
-const HOLD_THRESHOLD_MS = 2000; // 2 seconds hold = strong wave
-
-// Crypto coin colors
-const COIN_COLORS: Record<string, { primary: string; secondary: string; text: string; glow: string; bg: string }> = {
-  BTC: {
-    primary: "#F7931A",
-    secondary: "#E8820C",
-    text: "#7a3a00",
-    glow: "#F7931A",
-    bg: "rgba(247,147,26,0.18)",
-  },
-  ETH: {
-    primary: "#627EEA",
-    secondary: "#3C5DD6",
-    text: "#ffffff",
-    glow: "#627EEA",
-    bg: "rgba(98,126,234,0.18)",
-  },
-  SOL: {
-    primary: "#9945FF",
-    secondary: "#14F195",
-    text: "#ffffff",
-    glow: "#9945FF",
-    bg: "rgba(153,69,255,0.18)",
-  },
-  PEPE: {
-    primary: "#00A86B",
-    secondary: "#008050",
-    text: "#ffffff",
-    glow: "#00A86B",
-    bg: "rgba(0,168,107,0.18)",
-  },
-  // Phase 2 meme coins
-  DOGE: {
-    primary: "#C2A633",
-    secondary: "#9E8A2A",
-    text: "#ffffff",
-    glow: "#C2A633",
-    bg: "rgba(194,166,51,0.18)",
-  },
-  SHIB: {
-    primary: "#FFA409",
-    secondary: "#CC8200",
-    text: "#ffffff",
-    glow: "#FFA409",
-    bg: "rgba(255,164,9,0.18)",
-  },
-  BONK: {
-    primary: "#FF6B35",
-    secondary: "#CC5529",
-    text: "#ffffff",
-    glow: "#FF6B35",
-    bg: "rgba(255,107,53,0.18)",
-  },
-  WIF: {
-    primary: "#A855F7",
-    secondary: "#7C3AED",
-    text: "#ffffff",
-    glow: "#A855F7",
-    bg: "rgba(168,85,247,0.18)",
-  },
-};
-
-// Phase 1 coins
-const COIN_TYPES_PHASE1 = ["BTC", "ETH", "SOL", "PEPE"] as const;
-// Phase 2 coins (meme coins - faster and more aggressive)
-const COIN_TYPES_PHASE2 = ["DOGE", "SHIB", "BONK", "WIF"] as const;
-type CoinTypePhase1 = (typeof COIN_TYPES_PHASE1)[number];
-type CoinTypePhase2 = (typeof COIN_TYPES_PHASE2)[number];
-type CoinType = CoinTypePhase1 | CoinTypePhase2;
-
-// Attack wave — originates from where the player clicks
-interface Wave {
-  id: number;
-  x: number; // origin X
-  y: number; // origin Y
-  radius: number;
-  maxRadius: number;
-  alpha: number;
-  strong: boolean; // true = strong (30 SUI), false = simple (10 SUI)
-}
+// ─── Replay Storage ───────────────────────────────────────────────────────────
+const LAST_REPLAY_KEY = "dogSuiDefenderLastReplay";
+const BEST_REPLAY_KEY = "dogSuiDefenderBestReplay";
 
-interface Meteor {
-  id: number;
-  type: CoinType;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  radius: number;
-  rotation: number;
-  rotSpeed: number;
-  hp: number;
+interface SavedReplays {
+  last: Replay | null;
+  best: Replay | null;
 }
 
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  maxLife: number;
-  color: string;
-  radius: number;
+function loadReplay(key: string): Replay | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const data = localStorage.getItem(key);
+    if (data) return parseReplay(JSON.parse(data));
+  } catch {
+    // ignore
+  }
+  return null;
 }
 
-interface ScorePopup {
-  x: number;
-  y: number;
-  value: number;
-  life: number;
-  maxLife: number;
-  color?: string;
+function saveReplay(key: string, replay: Replay): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(key, JSON.stringify(replay));
+  } catch {
+    // ignore (quota exceeded on very long runs)
+  }
 }
 
-// Power-up types
-type PowerUpType = "shield" | "speed" | "multiplier" | "heal";
-interface PowerUp {
-  id: number;
-  type: PowerUpType;
-  x: number;
-  y: number;
-  radius: number;
-  pulse: number;
+function loadSavedReplays(): SavedReplays {
+  return { last: loadReplay(LAST_REPLAY_KEY), best: loadReplay(BEST_REPLAY_KEY) };
 }
 
-interface ActivePowerUp {
-  type: PowerUpType;
-  duration: number; // remaining time in frames
+// Keeps the latest run and the best-scoring one
+function storeReplay(replay: Replay): SavedReplays {
+  saveReplay(LAST_REPLAY_KEY, replay);
+  const best = loadReplay(BEST_REPLAY_KEY);
+  if (!best || best.version !== replay.version || replay.score > best.score) {
+    saveReplay(BEST_REPLAY_KEY, replay);
+    return { last: replay, best: replay };
+  }
+  return { last: replay, best };
 }
 
-// Boss types for each phase
-type BossType = "PEPE_KING" | "BONK_BOSS";
-
-// Boss projectile - attacks fired by bosses
-interface BossProjectile {
-  id: number;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  radius: number;
-  color: string;
-  damage: number;
+function downloadReplay(replay: Replay): void {
+  const blob = new Blob([JSON.stringify(replay)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `dogsui-replay-${replay.seed}-${replay.score}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
 }
 
-// Boss enemy - different boss for each phase
-interface Boss {
-  id: number;
-  type: BossType;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  radius: number;
-  hp: number;
-  maxHp: number;
-  rotation: number;
-  rotSpeed: number;
-  attackTimer: number;
-  phase: number; // boss attack phase
+function formatTicks(ticks: number): string {
+  const seconds = Math.floor(ticks / TICK_RATE);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
 }
 
-interface GameState {
-  score: number;
-  highScore: number;
-  hp: number; // 0–100
-  meteors: Meteor[];
-  particles: Particle[];
-  scorePopups: ScorePopup[];
-  waves: Wave[];
-  powerUps: PowerUp[];
-  activePowerUps: ActivePowerUp[];
-  mouseX: number;
-  mouseY: number;
-  bgFlash: { color: string; alpha: number } | null;
-  stars: { x: number; y: number; r: number; brightness: number; twinkle: number }[];
-  nextMeteorId: number;
-  nextWaveId: number;
-  nextPowerUpId: number;
-  spawnTimer: number;
-  spawnInterval: number;
-  powerUpTimer: number;
-  gameOver: boolean;
-  suiPulse: number;
-  suiShake: { x: number; y: number; timer: number };
-  screenShake: { x: number; y: number; timer: number };
-  paused: boolean;
-  combo: number;
-  comboTimer: number;
-  // Hold-to-charge state
-  mouseDownTime: number | null; // timestamp when mouse was pressed
-  chargeProgress: number; // 0–1 visual charge indicator
-  // Phase system
-  currentPhase: 1 | 2;
-  boss: Boss | null;
-  bossDefeated: boolean;
-  bossProjectiles: BossProjectile[];
-}
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+const replayButtonStyle: CSSProperties = {
+  padding: "6px 14px",
+  fontSize: "12px",
+  fontWeight: "bold",
+  fontFamily: "monospace",
+  background: "rgba(0,200,255,0.1)",
+  color: "#00c8ff",
+  border: "1px solid rgba(0,200,255,0.4)",
+  borderRadius: "8px",
+  cursor: "pointer",
+  letterSpacing: "1px",
+};
+// Seek bar / timer refresh cadence while a replay is running
+const REPLAY_UI_TICKS = 15;
 
-// ─── Web Audio ────────────────────────────────────────────────────────────────
-let audioCtx: AudioContext | null = null;
-let musicNodes: { osc: OscillatorNode; gain: GainNode }[] = [];
-let musicRunning = false;
-
-function getAudioCtx(): AudioContext {
-  if (!audioCtx) {
-    audioCtx = new (window.AudioContext ||
-      (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+function loadPlayerName(): string {
+  if (typeof window === "undefined") return "";
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) || "";
+  } catch {
+    return "";
   }
-  return audioCtx;
 }
 
-// Upbeat chiptune-style music — energetic arpeggio + bass + drums
-let musicIntervals: ReturnType<typeof setInterval>[] = [];
-
-async function startMusic() {
-  if (musicRunning) return;
+function savePlayerName(name: string): void {
   try {
-    const ctx = getAudioCtx();
-    if (ctx.state === "suspended") {
-      await ctx.resume();
-    }
-
-    // Driving bass line — pumping 8th notes
-    const bassNotes = [110, 110, 138.6, 110, 146.8, 110, 138.6, 123.5];
-    let bassIdx = 0;
-    const bassOsc = ctx.createOscillator();
-    const bassGain = ctx.createGain();
-    bassOsc.connect(bassGain);
-    bassGain.connect(ctx.destination);
-    bassOsc.type = "sawtooth";
-    bassOsc.frequency.value = bassNotes[0];
-    bassGain.gain.value = 0.06;
-    bassOsc.start();
-    musicNodes.push({ osc: bassOsc, gain: bassGain });
-
-    const bassInterval = setInterval(() => {
-      if (!musicRunning) { clearInterval(bassInterval); return; }
-      bassIdx = (bassIdx + 1) % bassNotes.length;
-      bassOsc.frequency.setValueAtTime(bassNotes[bassIdx], ctx.currentTime);
-      // Pump effect: quick volume swell
-      bassGain.gain.setValueAtTime(0.09, ctx.currentTime);
-      bassGain.gain.exponentialRampToValueAtTime(0.05, ctx.currentTime + 0.1);
-    }, 150);
-    musicIntervals.push(bassInterval);
-
-    // Lead melody arpeggio — fast and energetic
-    const melodyNotes = [
-      440, 523.3, 659.3, 880,
-      659.3, 523.3, 440, 392,
-      440, 523.3, 587.3, 698.5,
-      587.3, 523.3, 440, 349.2,
-    ];
-    let melIdx = 0;
-    const melOsc = ctx.createOscillator();
-    const melGain = ctx.createGain();
-    melOsc.connect(melGain);
-    melGain.connect(ctx.destination);
-    melOsc.type = "square";
-    melOsc.frequency.value = melodyNotes[0];
-    melGain.gain.value = 0.025;
-    melOsc.start();
-    musicNodes.push({ osc: melOsc, gain: melGain });
-
-    const melInterval = setInterval(() => {
-      if (!musicRunning) { clearInterval(melInterval); return; }
-      melIdx = (melIdx + 1) % melodyNotes.length;
-      melOsc.frequency.setValueAtTime(melodyNotes[melIdx], ctx.currentTime);
-      melGain.gain.setValueAtTime(0.035, ctx.currentTime);
-      melGain.gain.exponentialRampToValueAtTime(0.018, ctx.currentTime + 0.08);
-    }, 120);
-    musicIntervals.push(melInterval);
-
-    // Counter-melody — harmony notes
-    const harmNotes = [
-      330, 392, 494, 659.3,
-      494, 392, 330, 293.7,
-      330, 392, 440, 523.3,
-      440, 392, 330, 261.6,
-    ];
-    let harmIdx = 0;
-    const harmOsc = ctx.createOscillator();
-    const harmGain = ctx.createGain();
-    harmOsc.connect(harmGain);
-    harmGain.connect(ctx.destination);
-    harmOsc.type = "triangle";
-    harmOsc.frequency.value = harmNotes[0];
-    harmGain.gain.value = 0.018;
-    harmOsc.start();
-    musicNodes.push({ osc: harmOsc, gain: harmGain });
-
-    const harmInterval = setInterval(() => {
-      if (!musicRunning) { clearInterval(harmInterval); return; }
-      harmIdx = (harmIdx + 1) % harmNotes.length;
-      harmOsc.frequency.setValueAtTime(harmNotes[harmIdx], ctx.currentTime);
-    }, 240);
-    musicIntervals.push(harmInterval);
-
-    // Hi-hat percussion — rapid ticking
-    const hihatInterval = setInterval(() => {
-      if (!musicRunning) { clearInterval(hihatInterval); return; }
-      try {
-        const buf = ctx.createBuffer(1, ctx.sampleRate * 0.04, ctx.sampleRate);
-        const data = buf.getChannelData(0);
-        for (let i = 0; i < data.length; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / data.length);
-        const src = ctx.createBufferSource();
-        const filt = ctx.createBiquadFilter();
-        const g = ctx.createGain();
-        src.buffer = buf;
-        filt.type = "highpass";
-        filt.frequency.value = 8000;
-        src.connect(filt);
-        filt.connect(g);
-        g.connect(ctx.destination);
-        g.gain.value = 0.04;
-        src.start();
-      } catch {}
-    }, 150);
-    musicIntervals.push(hihatInterval);
-
-    // Kick drum — every beat
-    const kickInterval = setInterval(() => {
-      if (!musicRunning) { clearInterval(kickInterval); return; }
-      try {
-        const osc = ctx.createOscillator();
-        const g = ctx.createGain();
-        osc.connect(g);
-        g.connect(ctx.destination);
-        osc.type = "sine";
-        osc.frequency.setValueAtTime(180, ctx.currentTime);
-        osc.frequency.exponentialRampToValueAtTime(40, ctx.currentTime + 0.08);
-        g.gain.setValueAtTime(0.5, ctx.currentTime);
-        g.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.12);
-        osc.start(ctx.currentTime);
-        osc.stop(ctx.currentTime + 0.12);
-      } catch {}
-    }, 300);
-    musicIntervals.push(kickInterval);
-
-    musicRunning = true;
-  } catch {}
-}
-
-function stopMusic() {
-  musicRunning = false;
-  for (const id of musicIntervals) clearInterval(id);
-  musicIntervals = [];
-  for (const { osc, gain } of musicNodes) {
-    try {
-      gain.gain.setTargetAtTime(0, audioCtx!.currentTime, 0.1);
-      osc.stop(audioCtx!.currentTime + 0.2);
-    } catch {}
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+  } catch {
+    // ignore
   }
-  musicNodes = [];
 }
 
+// ─── Web Audio ────────────────────────────────────────────────────────────────
+// Music and sound effects play through the engine's buses (lib/audio/engine);
+// the soundtrack follows the live state each frame (lib/audio/adaptive)
+
+// Pausing fades the music bus, so the tune keeps its place underneath
 function pauseMusic() {
-  if (!audioCtx) return;
-  for (const { gain } of musicNodes) {
-    try {
-      gain.gain.setTargetAtTime(0, audioCtx.currentTime, 0.08);
-    } catch {}
-  }
+  fadeMusic(false);
 }
 
 function resumeMusic() {
-  if (!audioCtx) return;
-  const volumes = [0.06, 0.025, 0.018]; // bass, melody, harmony
-  musicNodes.forEach(({ gain }, i) => {
-    try {
-      gain.gain.setTargetAtTime(volumes[i] ?? 0.03, audioCtx!.currentTime, 0.08);
-    } catch {}
-  });
+  fadeMusic(true);
 }
 
 function playShootSound(strong: boolean) {
-  try {
-    const ctx = getAudioCtx();
+  playSfx("shoot", 0.18, (ctx, out, t) => {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.type = "sine";
     const baseFreq = strong ? 660 : 880;
-    osc.frequency.setValueAtTime(baseFreq, ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(baseFreq * 0.5, ctx.currentTime + 0.15);
-    gain.gain.setValueAtTime(strong ? 0.22 : 0.14, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.18);
-    osc.start(ctx.currentTime);
-    osc.stop(ctx.currentTime + 0.18);
-  } catch {}
+    osc.frequency.setValueAtTime(baseFreq, t);
+    osc.frequency.exponentialRampToValueAtTime(baseFreq * 0.5, t + 0.15);
+    gain.gain.setValueAtTime(strong ? 0.22 : 0.14, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.18);
+    osc.start(t);
+    osc.stop(t + 0.18);
+  });
 }
 
 function playExplosionSound(coinType: CoinType) {
-  try {
-    const ctx = getAudioCtx();
-    const freqs: Record<CoinType, number> = { 
-      BTC: 200, ETH: 300, SOL: 400, PEPE: 250,
-      DOGE: 180, SHIB: 220, BONK: 280, WIF: 160 
-    };
+  playSfx("explosion", 0.3, (ctx, out, t) => {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.type = "sawtooth";
-    osc.frequency.setValueAtTime(freqs[coinType], ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(50, ctx.currentTime + 0.3);
-    gain.gain.setValueAtTime(0.25, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.3);
-    osc.start(ctx.currentTime);
-    osc.stop(ctx.currentTime + 0.3);
-  } catch {}
+    osc.frequency.setValueAtTime(ENEMIES[coinType].explosionFreq, t);
+    osc.frequency.exponentialRampToValueAtTime(50, t + 0.3);
+    gain.gain.setValueAtTime(0.25, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.3);
+    osc.start(t);
+    osc.stop(t + 0.3);
+  });
+}
+
+// Short metallic tink: armor chipped, or a higher ping when a shield deflects
+function playArmorSound(blocked: boolean) {
+  playSfx("armor", 0.1, (ctx, out, t) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(out);
+    osc.type = "triangle";
+    osc.frequency.setValueAtTime(blocked ? 1800 : 1200, t);
+    osc.frequency.exponentialRampToValueAtTime(blocked ? 2400 : 700, t + 0.08);
+    gain.gain.setValueAtTime(0.12, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.1);
+    osc.start(t);
+    osc.stop(t + 0.1);
+  });
 }
 
 function playHitSound() {
-  try {
-    const ctx = getAudioCtx();
+  playSfx("hit", 0.4, (ctx, out, t) => {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.type = "square";
-    osc.frequency.setValueAtTime(150, ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(60, ctx.currentTime + 0.4);
-    gain.gain.setValueAtTime(0.3, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.4);
-    osc.start(ctx.currentTime);
-    osc.stop(ctx.currentTime + 0.4);
-  } catch {}
+    osc.frequency.setValueAtTime(150, t);
+    osc.frequency.exponentialRampToValueAtTime(60, t + 0.4);
+    gain.gain.setValueAtTime(0.3, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.4);
+    osc.start(t);
+    osc.stop(t + 0.4);
+  }, { maxVoices: 2, minGapMs: 80 });
+}
+
+// Rising three-note chime for an unlocked achievement
+function playAchievementSound() {
+  playSfx("achievement", 0.43, (ctx, out, t) => {
+    [660, 880, 1320].forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.connect(gain);
+      gain.connect(out);
+      osc.type = "triangle";
+      const start = t + i * 0.09;
+      osc.frequency.setValueAtTime(freq, start);
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+      osc.start(start);
+      osc.stop(start + 0.25);
+    });
+  });
+}
+
+// Low growl as a boss moves to its next stage, deeper and longer when enraged
+function playBossStageSound(enraged: boolean) {
+  const length = enraged ? 0.8 : 0.5;
+  playSfx("bossStage", length, (ctx, out, t) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(out);
+    osc.type = "sawtooth";
+    osc.frequency.setValueAtTime(enraged ? 110 : 160, t);
+    osc.frequency.exponentialRampToValueAtTime(enraged ? 40 : 80, t + length);
+    gain.gain.setValueAtTime(0.25, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + length);
+    osc.start(t);
+    osc.stop(t + length);
+  });
 }
 
 function playPowerUpSound(type: PowerUpType) {
-  try {
-    const ctx = getAudioCtx();
+  playSfx("powerUp", 0.3, (ctx, out, t) => {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(out);
     osc.type = "sine";
     const freqs: Record<PowerUpType, number> = {
       shield: 880,
@@ -522,150 +423,25 @@ function playPowerUpSound(type: PowerUpType) {
       multiplier: 1100,
       heal: 550,
     };
-    osc.frequency.setValueAtTime(freqs[type], ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(freqs[type] * 1.5, ctx.currentTime + 0.1);
-    osc.frequency.exponentialRampToValueAtTime(freqs[type] * 2, ctx.currentTime + 0.2);
-    gain.gain.setValueAtTime(0.2, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.3);
-    osc.start(ctx.currentTime);
-    osc.stop(ctx.currentTime + 0.3);
-  } catch {}
+    osc.frequency.setValueAtTime(freqs[type], t);
+    osc.frequency.exponentialRampToValueAtTime(freqs[type] * 1.5, t + 0.1);
+    osc.frequency.exponentialRampToValueAtTime(freqs[type] * 2, t + 0.2);
+    gain.gain.setValueAtTime(0.2, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.3);
+    osc.start(t);
+    osc.stop(t + 0.3);
+  });
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
-function generateStars(): GameState["stars"] {
-  const stars = [];
-  for (let i = 0; i < 180; i++) {
-    stars.push({
-      x: Math.random() * WIDTH,
-      y: Math.random() * HEIGHT,
-      r: Math.random() * 1.8 + 0.3,
-      brightness: Math.random(),
-      twinkle: Math.random() * Math.PI * 2,
-    });
-  }
-  return stars;
-}
-
-// Speed multipliers per coin type — higher reward = faster = harder
-const COIN_SPEED: Record<CoinType, number> = {
-  BTC: 2.8, // fastest — worth most
-  ETH: 2.2, // fast
-  SOL: 1.6, // medium
-  PEPE: 2.5, // fast — meme power!
-  // Phase 2 meme coins - faster and more aggressive
-  DOGE: 3.2, // very fast
-  SHIB: 3.5, // extremely fast
-  BONK: 3.0, // fast
-  WIF: 3.8, // fastest meme coin
-};
-
-// Score rewards per coin type
-const COIN_SCORE: Record<CoinType, number> = {
-  BTC: 50,
-  ETH: 30,
-  SOL: 20,
-  PEPE: 40,
-  // Phase 2 meme coins - higher rewards
-  DOGE: 60,
-  SHIB: 70,
-  BONK: 55,
-  WIF: 80,
-};
-
-function spawnMeteor(id: number, phase: 1 | 2): Meteor {
-  const types = phase === 1 ? COIN_TYPES_PHASE1 : COIN_TYPES_PHASE2;
-  const type = types[Math.floor(Math.random() * types.length)];
-  const radius = 22 + Math.random() * 14;
-  const side = Math.floor(Math.random() * 4);
-  let x = 0, y = 0;
-  if (side === 0) { x = Math.random() * WIDTH; y = -radius; }
-  else if (side === 1) { x = WIDTH + radius; y = Math.random() * HEIGHT; }
-  else if (side === 2) { x = Math.random() * WIDTH; y = HEIGHT + radius; }
-  else { x = -radius; y = Math.random() * HEIGHT; }
-
-  const dx = CENTER_X - x;
-  const dy = CENTER_Y - y;
-  const dist = Math.sqrt(dx * dx + dy * dy);
-  const baseSpeed = 0.9 + Math.random() * 0.8;
-  const speed = baseSpeed * COIN_SPEED[type];
-  return {
-    id,
-    type,
-    x,
-    y,
-    vx: (dx / dist) * speed,
-    vy: (dy / dist) * speed,
-    radius,
-    rotation: Math.random() * Math.PI * 2,
-    rotSpeed: (Math.random() - 0.5) * 0.06,
-    hp: 1,
-  };
-}
-
-// Spawn boss for Phase 1 (PEPE KING) or Phase 2 (BONK BOSS)
-function spawnBoss(id: number, bossType: BossType): Boss {
-  const isPhase1 = bossType === "PEPE_KING";
-  return {
-    id,
-    type: bossType,
-    x: WIDTH / 2,
-    y: -80,
-    vx: 0,
-    vy: 0.5,
-    radius: isPhase1 ? 60 : 75,
-    hp: isPhase1 ? 1000 : 2000, // Much higher HP - requires many attacks to defeat
-    maxHp: isPhase1 ? 1000 : 2000,
-    rotation: 0,
-    rotSpeed: isPhase1 ? 0.008 : 0.012,
-    attackTimer: 0,
-    phase: 1,
-  };
-}
+// Longest frame the loop will catch up on; anything beyond is dropped
+const MAX_FRAME_MS = 250;
 
-// Spawn boss projectile - fires toward SUI center
-function spawnBossProjectile(id: number, bossX: number, bossY: number, bossType: BossType): BossProjectile {
-  // Calculate direction toward SUI center
-  const dx = CENTER_X - bossX;
-  const dy = CENTER_Y - bossY;
-  const dist = Math.sqrt(dx * dx + dy * dy);
-  
-  // Speed based on boss type (BONK is faster)
-  const speed = bossType === "PEPE_KING" ? 2.5 : 3.5;
-  
-  // Add some randomness to make it less predictable
-  const angleOffset = (Math.random() - 0.5) * 0.4; // ±0.2 radians
-  
-  const vx = (dx / dist) * speed * Math.cos(angleOffset) - (dy / dist) * speed * Math.sin(angleOffset);
-  const vy = (dy / dist) * speed * Math.cos(angleOffset) + (dx / dist) * speed * Math.sin(angleOffset);
-  
-  return {
-    id,
-    x: bossX,
-    y: bossY,
-    vx,
-    vy,
-    radius: bossType === "PEPE_KING" ? 8 : 10,
-    color: bossType === "PEPE_KING" ? "#00FF88" : "#FF6B35",
-    damage: bossType === "PEPE_KING" ? 3 : 5, // Low damage - not too strong
-  };
-}
+// How long an achievement toast stays on screen
+const TOAST_MS = 3500;
 
-function createExplosion(particles: Particle[], x: number, y: number, color: string, count = 18) {
-  for (let i = 0; i < count; i++) {
-    const angle = (Math.PI * 2 * i) / count + Math.random() * 0.5;
-    const speed = 1.5 + Math.random() * 3.5;
-    particles.push({
-      x,
-      y,
-      vx: Math.cos(angle) * speed,
-      vy: Math.sin(angle) * speed,
-      life: 1,
-      maxLife: 1,
-      color,
-      radius: 2 + Math.random() * 4,
-    });
-  }
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
 }
 
 function hexToRgb(hex: string): [number, number, number] {
@@ -677,146 +453,6 @@ function hexToRgb(hex: string): [number, number, number] {
 
 // ─── Draw helpers ─────────────────────────────────────────────────────────────
 
-/** Draw the Ethereum diamond logo (two overlapping rhombuses) */
-function drawETHLogo(ctx: CanvasRenderingContext2D, r: number) {
-  const w = r * 0.52;
-  const h = r * 0.9;
-  ctx.save();
-
-  // Top pyramid (upper half)
-  ctx.beginPath();
-  ctx.moveTo(0, -h);
-  ctx.lineTo(w, -h * 0.1);
-  ctx.lineTo(0, -h * 0.28);
-  ctx.closePath();
-  ctx.fillStyle = "rgba(255,255,255,0.95)";
-  ctx.fill();
-
-  ctx.beginPath();
-  ctx.moveTo(0, -h);
-  ctx.lineTo(-w, -h * 0.1);
-  ctx.lineTo(0, -h * 0.28);
-  ctx.closePath();
-  ctx.fillStyle = "rgba(255,255,255,0.65)";
-  ctx.fill();
-
-  // Middle band
-  ctx.beginPath();
-  ctx.moveTo(-w, -h * 0.1);
-  ctx.lineTo(0, h * 0.08);
-  ctx.lineTo(w, -h * 0.1);
-  ctx.lineTo(0, -h * 0.28);
-  ctx.closePath();
-  ctx.fillStyle = "rgba(255,255,255,0.80)";
-  ctx.fill();
-
-  // Bottom pyramid (lower half)
-  ctx.beginPath();
-  ctx.moveTo(-w * 0.65, h * 0.08);
-  ctx.lineTo(0, h);
-  ctx.lineTo(w * 0.65, h * 0.08);
-  ctx.lineTo(0, h * 0.28);
-  ctx.closePath();
-  ctx.fillStyle = "rgba(255,255,255,0.90)";
-  ctx.fill();
-
-  ctx.beginPath();
-  ctx.moveTo(-w * 0.65, h * 0.08);
-  ctx.lineTo(0, h * 0.28);
-  ctx.lineTo(0, h);
-  ctx.closePath();
-  ctx.fillStyle = "rgba(255,255,255,0.55)";
-  ctx.fill();
-
-  ctx.restore();
-}
-
-/** Draw the Solana logo (3 stacked horizontal bars with gradient, slightly angled) */
-function drawSOLLogo(ctx: CanvasRenderingContext2D, r: number) {
-  const barW = r * 1.1;
-  const barH = r * 0.22;
-  const gap = r * 0.28;
-  const angle = -0.18; // slight tilt like the real logo
-
-  ctx.save();
-  ctx.rotate(angle);
-
-  const bars = [-gap, 0, gap];
-  bars.forEach((offsetY, i) => {
-    const grad = ctx.createLinearGradient(-barW / 2, 0, barW / 2, 0);
-    grad.addColorStop(0, "#9945FF");
-    grad.addColorStop(1, "#14F195");
-
-    ctx.save();
-    ctx.translate(0, offsetY);
-
-    // Parallelogram shape (left side angled)
-    const skew = barH * 0.5;
-    ctx.beginPath();
-    ctx.moveTo(-barW / 2 + skew, -barH / 2);
-    ctx.lineTo(barW / 2, -barH / 2);
-    ctx.lineTo(barW / 2 - skew, barH / 2);
-    ctx.lineTo(-barW / 2, barH / 2);
-    ctx.closePath();
-    ctx.fillStyle = grad;
-    ctx.globalAlpha = i === 1 ? 1 : 0.85;
-    ctx.fill();
-    ctx.restore();
-  });
-
-  ctx.restore();
-}
-
-/** Draw the PEPE logo — simple frog face */
-function drawPEPELogo(ctx: CanvasRenderingContext2D, r: number) {
-  ctx.save();
-  
-  // Eyes (two white circles with black pupils)
-  const eyeY = -r * 0.2;
-  const eyeSpacing = r * 0.35;
-  const eyeR = r * 0.22;
-  
-  // Left eye white
-  ctx.beginPath();
-  ctx.ellipse(-eyeSpacing, eyeY, eyeR, eyeR * 1.1, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#ffffff";
-  ctx.fill();
-  ctx.strokeStyle = "#005533";
-  ctx.lineWidth = 1;
-  ctx.stroke();
-  
-  // Left pupil
-  ctx.beginPath();
-  ctx.arc(-eyeSpacing, eyeY, eyeR * 0.45, 0, Math.PI * 2);
-  ctx.fillStyle = "#000000";
-  ctx.fill();
-  
-  // Right eye white
-  ctx.beginPath();
-  ctx.ellipse(eyeSpacing, eyeY, eyeR, eyeR * 1.1, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#ffffff";
-  ctx.fill();
-  ctx.strokeStyle = "#005533";
-  ctx.lineWidth = 1;
-  ctx.stroke();
-  
-  // Right pupil
-  ctx.beginPath();
-  ctx.arc(eyeSpacing, eyeY, eyeR * 0.45, 0, Math.PI * 2);
-  ctx.fillStyle = "#000000";
-  ctx.fill();
-  
-  // Mouth (smug smile)
-  ctx.beginPath();
-  ctx.arc(0, r * 0.25, r * 0.4, 0.1 * Math.PI, 0.9 * Math.PI);
-  ctx.strokeStyle = "#005533";
-  ctx.lineWidth = r * 0.08;
-  ctx.lineCap = "round";
-  ctx.stroke();
-  
-  ctx.restore();
-}
-
 /** Draw the SUI logo — SUI text with the official S-curve symbol */
 function drawSUILogo(ctx: CanvasRenderingContext2D, r: number) {
   const s = r * 0.72;
@@ -865,291 +501,135 @@ function drawSUILogo(ctx: CanvasRenderingContext2D, r: number) {
   ctx.restore();
 }
 
-/** Draw DOGE logo — Shiba Inu face simplified */
-function drawDOGELogo(ctx: CanvasRenderingContext2D, r: number) {
+/** Draw Boss PEPE KING — giant frog with crown (Phase 1 boss) */
+function drawBossPEPE(ctx: CanvasRenderingContext2D, boss: Boss, x: number, y: number) {
+  const r = boss.radius;
   ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(boss.rotation);
+  
+  // Glow effect
+  ctx.shadowColor = "#00FF88";
+  ctx.shadowBlur = 40;
+  
+  // Main body - green frog
+  const grad = ctx.createRadialGradient(-r * 0.2, -r * 0.2, r * 0.1, 0, 0, r);
+  grad.addColorStop(0, "#00FF88");
+  grad.addColorStop(0.5, "#00A86B");
+  grad.addColorStop(1, "#006644");
+  ctx.beginPath();
+  ctx.arc(0, 0, r, 0, Math.PI * 2);
+  ctx.fillStyle = grad;
+  ctx.fill();
+  ctx.strokeStyle = "#00FF88";
+  ctx.lineWidth = 3;
+  ctx.stroke();
+  
+  ctx.shadowBlur = 0;
+  
+  // Crown - golden with gems
+  ctx.beginPath();
+  ctx.moveTo(-r * 0.6, -r * 0.45);
+  ctx.lineTo(-r * 0.45, -r * 0.95);
+  ctx.lineTo(-r * 0.25, -r * 0.6);
+  ctx.lineTo(0, -r * 1.1);
+  ctx.lineTo(r * 0.25, -r * 0.6);
+  ctx.lineTo(r * 0.45, -r * 0.95);
+  ctx.lineTo(r * 0.6, -r * 0.45);
+  ctx.closePath();
+  ctx.fillStyle = "#FFD700";
+  ctx.fill();
+  ctx.strokeStyle = "#FFA500";
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  
+  // Crown gems
+  ctx.beginPath();
+  ctx.arc(0, -r * 0.75, r * 0.08, 0, Math.PI * 2);
+  ctx.fillStyle = "#FF0000";
+  ctx.fill();
   
-  // Simple doge face - two eyes and a nose
-  const eyeY = -r * 0.15;
+  // Eyes (menacing)
+  const eyeY = -r * 0.1;
   const eyeSpacing = r * 0.35;
-  const eyeR = r * 0.18;
   
   // Left eye
   ctx.beginPath();
-  ctx.ellipse(-eyeSpacing, eyeY, eyeR, eyeR * 1.2, 0, 0, Math.PI * 2);
+  ctx.ellipse(-eyeSpacing, eyeY, r * 0.2, r * 0.25, 0, 0, Math.PI * 2);
   ctx.fillStyle = "#ffffff";
   ctx.fill();
   ctx.beginPath();
-  ctx.arc(-eyeSpacing, eyeY, eyeR * 0.5, 0, Math.PI * 2);
+  ctx.arc(-eyeSpacing, eyeY, r * 0.12, 0, Math.PI * 2);
+  ctx.fillStyle = "#ff0000";
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(-eyeSpacing, eyeY, r * 0.06, 0, Math.PI * 2);
   ctx.fillStyle = "#000000";
   ctx.fill();
   
   // Right eye
   ctx.beginPath();
-  ctx.ellipse(eyeSpacing, eyeY, eyeR, eyeR * 1.2, 0, 0, Math.PI * 2);
+  ctx.ellipse(eyeSpacing, eyeY, r * 0.2, r * 0.25, 0, 0, Math.PI * 2);
   ctx.fillStyle = "#ffffff";
   ctx.fill();
   ctx.beginPath();
-  ctx.arc(eyeSpacing, eyeY, eyeR * 0.5, 0, Math.PI * 2);
+  ctx.arc(eyeSpacing, eyeY, r * 0.12, 0, Math.PI * 2);
+  ctx.fillStyle = "#ff0000";
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(eyeSpacing, eyeY, r * 0.06, 0, Math.PI * 2);
   ctx.fillStyle = "#000000";
   ctx.fill();
   
+  // Angry eyebrows
+  ctx.strokeStyle = "#004422";
+  ctx.lineWidth = r * 0.07;
+  ctx.lineCap = "round";
+  ctx.beginPath();
+  ctx.moveTo(-eyeSpacing - r * 0.25, eyeY - r * 0.4);
+  ctx.lineTo(-eyeSpacing + r * 0.1, eyeY - r * 0.25);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(eyeSpacing + r * 0.25, eyeY - r * 0.4);
+  ctx.lineTo(eyeSpacing - r * 0.1, eyeY - r * 0.25);
+  ctx.stroke();
+  
   // Nose
   ctx.beginPath();
-  ctx.ellipse(0, r * 0.25, r * 0.15, r * 0.1, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#333333";
+  ctx.ellipse(0, r * 0.15, r * 0.15, r * 0.1, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#004422";
   ctx.fill();
   
-  // Smile
+  // Evil grin
   ctx.beginPath();
-  ctx.arc(0, r * 0.3, r * 0.3, 0.2 * Math.PI, 0.8 * Math.PI);
-  ctx.strokeStyle = "#333333";
+  ctx.arc(0, r * 0.3, r * 0.4, 0.1 * Math.PI, 0.9 * Math.PI);
+  ctx.strokeStyle = "#004422";
   ctx.lineWidth = r * 0.06;
-  ctx.lineCap = "round";
   ctx.stroke();
   
   ctx.restore();
 }
 
-/** Draw SHIB logo — similar to DOGE but with different colors */
-function drawSHIBLogo(ctx: CanvasRenderingContext2D, r: number) {
+/** Draw Boss BONK — giant fire dog (Phase 2 boss) */
+function drawBossBONK(ctx: CanvasRenderingContext2D, boss: Boss, x: number, y: number) {
+  const r = boss.radius;
   ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(boss.rotation);
   
-  // Shiba face - more aggressive look
-  const eyeY = -r * 0.2;
-  const eyeSpacing = r * 0.32;
-  const eyeR = r * 0.16;
+  // Glow effect - fiery
+  ctx.shadowColor = "#FF6B35";
+  ctx.shadowBlur = 50;
   
-  // Left eye (angled)
-  ctx.save();
-  ctx.translate(-eyeSpacing, eyeY);
-  ctx.rotate(-0.2);
+  // Main body - fire gradient
+  const grad = ctx.createRadialGradient(-r * 0.2, -r * 0.2, r * 0.1, 0, 0, r);
+  grad.addColorStop(0, "#FFFF00");
+  grad.addColorStop(0.3, "#FFA500");
+  grad.addColorStop(0.6, "#FF6B35");
+  grad.addColorStop(1, "#CC4400");
   ctx.beginPath();
-  ctx.ellipse(0, 0, eyeR, eyeR * 0.8, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#ffffff";
-  ctx.fill();
-  ctx.beginPath();
-  ctx.arc(0, 0, eyeR * 0.5, 0, Math.PI * 2);
-  ctx.fillStyle = "#000000";
-  ctx.fill();
-  ctx.restore();
-  
-  // Right eye (angled)
-  ctx.save();
-  ctx.translate(eyeSpacing, eyeY);
-  ctx.rotate(0.2);
-  ctx.beginPath();
-  ctx.ellipse(0, 0, eyeR, eyeR * 0.8, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#ffffff";
-  ctx.fill();
-  ctx.beginPath();
-  ctx.arc(0, 0, eyeR * 0.5, 0, Math.PI * 2);
-  ctx.fillStyle = "#000000";
-  ctx.fill();
-  ctx.restore();
-  
-  // Nose
-  ctx.beginPath();
-  ctx.ellipse(0, r * 0.2, r * 0.12, r * 0.08, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#222222";
-  ctx.fill();
-  
-  ctx.restore();
-}
-
-/** Draw BONK logo — stylized "B" with lightning */
-function drawBONKLogo(ctx: CanvasRenderingContext2D, r: number) {
-  ctx.save();
-  
-  // Lightning bolt shape
-  ctx.beginPath();
-  ctx.moveTo(r * 0.1, -r * 0.7);
-  ctx.lineTo(-r * 0.3, 0);
-  ctx.lineTo(r * 0.0, 0);
-  ctx.lineTo(-r * 0.1, r * 0.7);
-  ctx.lineTo(r * 0.3, 0);
-  ctx.lineTo(r * 0.0, 0);
-  ctx.closePath();
-  ctx.fillStyle = "#ffffff";
-  ctx.fill();
-  
-  ctx.restore();
-}
-
-/** Draw WIF logo — dog with hat */
-function drawWIFLogo(ctx: CanvasRenderingContext2D, r: number) {
-  ctx.save();
-  
-  // Simple dog face with hat
-  const hatTop = -r * 0.6;
-  
-  // Hat
-  ctx.beginPath();
-  ctx.moveTo(-r * 0.5, -r * 0.3);
-  ctx.lineTo(0, hatTop - r * 0.2);
-  ctx.lineTo(r * 0.5, -r * 0.3);
-  ctx.closePath();
-  ctx.fillStyle = "#ff0000";
-  ctx.fill();
-  
-  // Hat brim
-  ctx.beginPath();
-  ctx.ellipse(0, -r * 0.3, r * 0.55, r * 0.12, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#ff0000";
-  ctx.fill();
-  
-  // Eyes
-  const eyeY = r * 0.0;
-  const eyeSpacing = r * 0.28;
-  
-  ctx.beginPath();
-  ctx.arc(-eyeSpacing, eyeY, r * 0.12, 0, Math.PI * 2);
-  ctx.fillStyle = "#000000";
-  ctx.fill();
-  
-  ctx.beginPath();
-  ctx.arc(eyeSpacing, eyeY, r * 0.12, 0, Math.PI * 2);
-  ctx.fillStyle = "#000000";
-  ctx.fill();
-  
-  // Nose
-  ctx.beginPath();
-  ctx.ellipse(0, r * 0.25, r * 0.1, r * 0.07, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#333333";
-  ctx.fill();
-  
-  ctx.restore();
-}
-
-/** Draw Boss PEPE KING — giant frog with crown (Phase 1 boss) */
-function drawBossPEPE(ctx: CanvasRenderingContext2D, boss: Boss) {
-  const r = boss.radius;
-  ctx.save();
-  ctx.translate(boss.x, boss.y);
-  ctx.rotate(boss.rotation);
-  
-  // Glow effect
-  ctx.shadowColor = "#00FF88";
-  ctx.shadowBlur = 40;
-  
-  // Main body - green frog
-  const grad = ctx.createRadialGradient(-r * 0.2, -r * 0.2, r * 0.1, 0, 0, r);
-  grad.addColorStop(0, "#00FF88");
-  grad.addColorStop(0.5, "#00A86B");
-  grad.addColorStop(1, "#006644");
-  ctx.beginPath();
-  ctx.arc(0, 0, r, 0, Math.PI * 2);
-  ctx.fillStyle = grad;
-  ctx.fill();
-  ctx.strokeStyle = "#00FF88";
-  ctx.lineWidth = 3;
-  ctx.stroke();
-  
-  ctx.shadowBlur = 0;
-  
-  // Crown - golden with gems
-  ctx.beginPath();
-  ctx.moveTo(-r * 0.6, -r * 0.45);
-  ctx.lineTo(-r * 0.45, -r * 0.95);
-  ctx.lineTo(-r * 0.25, -r * 0.6);
-  ctx.lineTo(0, -r * 1.1);
-  ctx.lineTo(r * 0.25, -r * 0.6);
-  ctx.lineTo(r * 0.45, -r * 0.95);
-  ctx.lineTo(r * 0.6, -r * 0.45);
-  ctx.closePath();
-  ctx.fillStyle = "#FFD700";
-  ctx.fill();
-  ctx.strokeStyle = "#FFA500";
-  ctx.lineWidth = 2;
-  ctx.stroke();
-  
-  // Crown gems
-  ctx.beginPath();
-  ctx.arc(0, -r * 0.75, r * 0.08, 0, Math.PI * 2);
-  ctx.fillStyle = "#FF0000";
-  ctx.fill();
-  
-  // Eyes (menacing)
-  const eyeY = -r * 0.1;
-  const eyeSpacing = r * 0.35;
-  
-  // Left eye
-  ctx.beginPath();
-  ctx.ellipse(-eyeSpacing, eyeY, r * 0.2, r * 0.25, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#ffffff";
-  ctx.fill();
-  ctx.beginPath();
-  ctx.arc(-eyeSpacing, eyeY, r * 0.12, 0, Math.PI * 2);
-  ctx.fillStyle = "#ff0000";
-  ctx.fill();
-  ctx.beginPath();
-  ctx.arc(-eyeSpacing, eyeY, r * 0.06, 0, Math.PI * 2);
-  ctx.fillStyle = "#000000";
-  ctx.fill();
-  
-  // Right eye
-  ctx.beginPath();
-  ctx.ellipse(eyeSpacing, eyeY, r * 0.2, r * 0.25, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#ffffff";
-  ctx.fill();
-  ctx.beginPath();
-  ctx.arc(eyeSpacing, eyeY, r * 0.12, 0, Math.PI * 2);
-  ctx.fillStyle = "#ff0000";
-  ctx.fill();
-  ctx.beginPath();
-  ctx.arc(eyeSpacing, eyeY, r * 0.06, 0, Math.PI * 2);
-  ctx.fillStyle = "#000000";
-  ctx.fill();
-  
-  // Angry eyebrows
-  ctx.strokeStyle = "#004422";
-  ctx.lineWidth = r * 0.07;
-  ctx.lineCap = "round";
-  ctx.beginPath();
-  ctx.moveTo(-eyeSpacing - r * 0.25, eyeY - r * 0.4);
-  ctx.lineTo(-eyeSpacing + r * 0.1, eyeY - r * 0.25);
-  ctx.stroke();
-  ctx.beginPath();
-  ctx.moveTo(eyeSpacing + r * 0.25, eyeY - r * 0.4);
-  ctx.lineTo(eyeSpacing - r * 0.1, eyeY - r * 0.25);
-  ctx.stroke();
-  
-  // Nose
-  ctx.beginPath();
-  ctx.ellipse(0, r * 0.15, r * 0.15, r * 0.1, 0, 0, Math.PI * 2);
-  ctx.fillStyle = "#004422";
-  ctx.fill();
-  
-  // Evil grin
-  ctx.beginPath();
-  ctx.arc(0, r * 0.3, r * 0.4, 0.1 * Math.PI, 0.9 * Math.PI);
-  ctx.strokeStyle = "#004422";
-  ctx.lineWidth = r * 0.06;
-  ctx.stroke();
-  
-  ctx.restore();
-}
-
-/** Draw Boss BONK — giant fire dog (Phase 2 boss) */
-function drawBossBONK(ctx: CanvasRenderingContext2D, boss: Boss) {
-  const r = boss.radius;
-  ctx.save();
-  ctx.translate(boss.x, boss.y);
-  ctx.rotate(boss.rotation);
-  
-  // Glow effect - fiery
-  ctx.shadowColor = "#FF6B35";
-  ctx.shadowBlur = 50;
-  
-  // Main body - fire gradient
-  const grad = ctx.createRadialGradient(-r * 0.2, -r * 0.2, r * 0.1, 0, 0, r);
-  grad.addColorStop(0, "#FFFF00");
-  grad.addColorStop(0.3, "#FFA500");
-  grad.addColorStop(0.6, "#FF6B35");
-  grad.addColorStop(1, "#CC4400");
-  ctx.beginPath();
-  ctx.arc(0, 0, r, 0, Math.PI * 2);
-  ctx.fillStyle = grad;
+  ctx.arc(0, 0, r, 0, Math.PI * 2);
+  ctx.fillStyle = grad;
   ctx.fill();
   ctx.strokeStyle = "#FF6B35";
   ctx.lineWidth = 4;
@@ -1246,171 +726,230 @@ function drawBossBONK(ctx: CanvasRenderingContext2D, boss: Boss) {
   ctx.restore();
 }
 
-/** Draw boss based on type */
-function drawBoss(ctx: CanvasRenderingContext2D, boss: Boss) {
+// Wind-ups the boss script is about to fire, so the player can read them
+function drawTelegraphs(ctx: CanvasRenderingContext2D, boss: Boss, x: number, y: number) {
+  const color = BOSS_COLORS[boss.type];
+  const aim = aimAtSui(x, y);
+  for (const { attack, progress } of activeTelegraphs(boss)) {
+    ctx.save();
+    ctx.globalAlpha = 0.25 + 0.6 * progress;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    switch (attack.kind) {
+      case "ring":
+        // Charging halo that closes in on the boss
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(x, y, boss.radius + 50 * (1 - progress) + 8, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      case "volley":
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([8, 8]);
+        for (let i = 0; i < attack.count; i++) {
+          const angle = aim + (attack.count > 1 ? (i / (attack.count - 1) - 0.5) * attack.spread : 0);
+          ctx.beginPath();
+          ctx.moveTo(x, y);
+          ctx.lineTo(x + Math.cos(angle) * 220, y + Math.sin(angle) * 220);
+          ctx.stroke();
+        }
+        break;
+      case "laser": {
+        // Where the next sweep starts
+        const firing = Math.floor(boss.stageTimer / attack.everyMs) + 1;
+        const angle = laserAngle(x, y, attack.arc, 0, firing);
+        ctx.strokeStyle = "#ff0033";
+        ctx.lineWidth = 1 + 3 * progress;
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(x + Math.cos(angle) * WIDTH, y + Math.sin(angle) * WIDTH);
+        ctx.stroke();
+        break;
+      }
+      case "minions":
+        for (const slot of formationOffsets(attack.formation, attack.count, aim)) {
+          ctx.beginPath();
+          ctx.arc(x + slot.x, y + slot.y, 4 + 12 * progress, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        break;
+    }
+    ctx.restore();
+  }
+}
+
+function drawLasers(ctx: CanvasRenderingContext2D, boss: Boss, x: number, y: number) {
+  for (const laser of activeLasers(boss)) {
+    const angle = laserAngle(x, y, laser.arc, laser.progress, laser.firing);
+    const endX = x + Math.cos(angle) * WIDTH;
+    const endY = y + Math.sin(angle) * WIDTH;
+    ctx.save();
+    ctx.lineCap = "round";
+    ctx.shadowColor = "#ff0033";
+    ctx.shadowBlur = 25;
+    ctx.strokeStyle = "rgba(255,0,51,0.7)";
+    ctx.lineWidth = 16;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(endX, endY);
+    ctx.stroke();
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 4;
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+/** Draw boss based on type, at its position interpolated between ticks */
+function drawBoss(ctx: CanvasRenderingContext2D, boss: Boss, alpha: number) {
+  const x = lerp(boss.prevX, boss.x, alpha);
+  const y = lerp(boss.prevY, boss.y, alpha);
+  if (currentStage(boss).enraged) {
+    // Enraged: a red aura throbbing behind it
+    const pulse = 0.5 + 0.5 * Math.sin(boss.stageTimer * 0.012);
+    const aura = ctx.createRadialGradient(x, y, boss.radius * 0.8, x, y, boss.radius * (1.6 + 0.3 * pulse));
+    aura.addColorStop(0, `rgba(255,0,51,${0.35 + 0.25 * pulse})`);
+    aura.addColorStop(1, "rgba(255,0,51,0)");
+    ctx.fillStyle = aura;
+    ctx.beginPath();
+    ctx.arc(x, y, boss.radius * 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  drawLasers(ctx, boss, x, y);
   if (boss.type === "PEPE_KING") {
-    drawBossPEPE(ctx, boss);
+    drawBossPEPE(ctx, boss, x, y);
   } else {
-    drawBossBONK(ctx, boss);
+    drawBossBONK(ctx, boss, x, y);
   }
+  drawTelegraphs(ctx, boss, x, y);
 }
 
+// "BTC +50 · ETH +30 · …" for the how-to-play panel, straight from the registry
+function CoinScores({ level }: { level: number }) {
+  return (
+    <>
+      {CAMPAIGN[level].roster.map((type, i) => (
+        <span key={type}>
+          {i > 0 && " · "}
+          {type} <span style={{ color: ENEMIES[type].palette.primary }}>+{ENEMIES[type].score}</span>
+        </span>
+      ))}
+    </>
+  );
+}
+
+type GamePhase =
+  | "login"
+  | "start"
+  | "controls"
+  | "levels"
+  | "stats"
+  | "trophies"
+  | "shop"
+  | "audio"
+  | "playing"
+  | "paused"
+  | "gameover"
+  | "phasecomplete"
+  | "replay";
+
 // ─── Main Component ───────────────────────────────────────────────────────────
 export default function Game() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [gamePhase, setGamePhase] = useState<"login" | "start" | "playing" | "paused" | "gameover" | "phasecomplete">("login");
-  const gamePhaseRef = useRef<"login" | "start" | "playing" | "paused" | "gameover" | "phasecomplete">("login");
+  const [gamePhase, setGamePhase] = useState<GamePhase>("login");
+  const gamePhaseRef = useRef<GamePhase>("login");
   const [finalScore, setFinalScore] = useState(0);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
   const [playerName, setPlayerName] = useState("");
   const [topPlayers, setTopPlayers] = useState<PlayerScore[]>([]);
+  const [leaderboardMode, setLeaderboardMode] = useState<GameMode>("campaign");
+  // Runs finished offline, waiting in IndexedDB to be submitted
+  const [pendingScores, setPendingScores] = useState(0);
+  const leaderboardModeRef = useRef<GameMode>("campaign");
   const playerNameRef = useRef<string>("");
   const inputRef = useRef<HTMLInputElement>(null);
-
-  const stateRef = useRef<GameState>({
-    score: 100,
-    highScore: typeof window !== "undefined" ? parseInt(localStorage.getItem("dogSuiDefenderHighScore") || "0") : 0,
-    hp: 100,
-    meteors: [],
-    particles: [],
-    scorePopups: [],
-    waves: [],
-    powerUps: [],
-    activePowerUps: [],
-    mouseX: CENTER_X,
-    mouseY: CENTER_Y,
-    bgFlash: null,
-    stars: generateStars(),
-    nextMeteorId: 0,
-    nextWaveId: 0,
-    nextPowerUpId: 0,
-    spawnTimer: 0,
-    spawnInterval: 80,
-    powerUpTimer: 0,
-    gameOver: false,
-    suiPulse: 0,
-    suiShake: { x: 0, y: 0, timer: 0 },
-    screenShake: { x: 0, y: 0, timer: 0 },
-    paused: false,
-    combo: 0,
-    comboTimer: 0,
-    mouseDownTime: null,
-    chargeProgress: 0,
-    currentPhase: 1,
-    boss: null,
-    bossDefeated: false,
-    bossProjectiles: [],
-  });
+  // Language: screens get the translator as a prop, the canvas reads the ref
+  const [i18n, setI18n] = useState<Translator>(() => createTranslator(DEFAULT_LOCALE));
+  const i18nRef = useRef<Translator>(i18n);
+
+  // Menu backdrop uses a fixed seed; every run gets its own in resetState.
+  // Built once: useRef would evaluate its argument on every render
+  const [menuState] = useState(() => createInitialState({ seed: 0, highScore: loadHighScore() }));
+  const stateRef = useRef<GameState>(menuState);
+  // Explosions, flashes and shakes: started by bus subscribers, not the simulation
+  const effectsRef = useRef<Effects>(createEffects());
+  // Input collected from DOM events, consumed by the next simulation step
+  const controlsRef = useRef<StepInput>({ aimX: CENTER_X, aimY: CENTER_Y, pressed: false, released: false, strong: false });
+  // Keyboard / gamepad: bindings per player, aim keys held, pad buttons last frame
+  const [bindings, setBindings] = useState<Bindings>(defaultBindings);
+  const bindingsRef = useRef<Bindings>(bindings);
+  const heldAimKeysRef = useRef<Set<KeyAction>>(new Set());
+  const padHeldRef = useRef<Record<PadAction, boolean>>({ fire: false, strong: false, pause: false });
+  // Touch: fingers currently down, and whether they form a two-finger tap
+  const touchesRef = useRef<Set<number>>(new Set());
+  const twoFingerRef = useRef(false);
+  // Responsive layout: CSS scale of the playfield, and backing-store pixels per logical pixel
+  const [viewScale, setViewScale] = useState(1);
+  const renderScaleRef = useRef(1);
   const animFrameRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
-
-  const resetState = useCallback(() => {
-    const prev = stateRef.current;
-    const savedHighScore = typeof window !== "undefined" ? parseInt(localStorage.getItem("dogSuiDefenderHighScore") || "0") : 0;
-    stateRef.current = {
-      score: 100,
-      highScore: savedHighScore,
-      hp: 100,
-      meteors: [],
-      particles: [],
-      scorePopups: [],
-      waves: [],
-      powerUps: [],
-      activePowerUps: [],
-      mouseX: prev.mouseX,
-      mouseY: prev.mouseY,
-      bgFlash: null,
-      stars: generateStars(),
-      nextMeteorId: 0,
-      nextWaveId: 0,
-      nextPowerUpId: 0,
-      spawnTimer: 0,
-      spawnInterval: 80,
-      powerUpTimer: 0,
-      gameOver: false,
-      suiPulse: 0,
-      suiShake: { x: 0, y: 0, timer: 0 },
-      screenShake: { x: 0, y: 0, timer: 0 },
-      paused: false,
-      combo: 0,
-      comboTimer: 0,
-      mouseDownTime: null,
-      chargeProgress: 0,
-      currentPhase: 1,
-      boss: null,
-      bossDefeated: false,
-      bossProjectiles: [],
-    };
-  }, []);
-
-  // ── Fire wave attack ──────────────────────────────────────────────────────
-  // Simple wave: fires from click position, medium radius
-  // Strong wave: fires from SUI center, covers entire screen
-  const fireWave = useCallback((strong: boolean, originX: number, originY: number) => {
-    const state = stateRef.current;
-    const cost = strong ? 30 : 10;
-    if (state.score < cost) return; // not enough SUI
-
-    state.score -= cost;
-    playShootSound(strong);
-
-    if (strong) {
-      // Strong wave: 3 rapid rings from SUI center, guaranteed full-screen coverage
-      for (let ring = 0; ring < 3; ring++) {
-        state.waves.push({
-          id: state.nextWaveId++,
-          x: CENTER_X,
-          y: CENTER_Y,
-          radius: 8 + ring * 30, // staggered start
-          maxRadius: Math.sqrt(WIDTH * WIDTH + HEIGHT * HEIGHT) + 60, // covers all corners
-          alpha: 1,
-          strong: true,
-        });
-      }
-    } else {
-      // Simple wave: fires from click position
-      state.waves.push({
-        id: state.nextWaveId++,
-        x: originX,
-        y: originY,
-        radius: 8,
-        maxRadius: 200,
-        alpha: 1,
-        strong: false,
-      });
-    }
-  }, []);
-
-  // ── Mouse down: start charge timer, record click position ────────────────
-  const handleMouseDown = useCallback((e: MouseEvent) => {
-    if (e.button !== 0) return; // only left button
-    const phase = gamePhaseRef.current;
-    if (phase !== "playing") return;
-    stateRef.current.mouseDownTime = performance.now();
-    stateRef.current.chargeProgress = 0;
+  const accumulatorRef = useRef<number>(0);
+  const dailyRunRef = useRef(false);
+  const runModeRef = useRef<GameMode>("campaign");
+  const startLevelRef = useRef(0);
+  const [unlockedLevel, setUnlockedLevel] = useState(0);
+
+  // Achievements: tracked live during a run, announced as canvas toasts
+  const achievementTrackerRef = useRef<AchievementTracker | null>(null);
+  const runTallyRef = useRef<RunTally | null>(null); // gameplay analytics for the live run
+  const toastsRef = useRef<{ id: AchievementId; shownAt: number }[]>([]);
+  const [unlockedAchievements, setUnlockedAchievements] = useState<UnlockedAchievements>({});
+
+  // Upgrade shop: wallet and owned upgrades, and what the last run banked
+  const [shop, setShop] = useState<ShopState | null>(null);
+  const [lastBanked, setLastBanked] = useState(0);
+  const [tooLongToRank, setTooLongToRank] = useState(false); // the last run outlasted the global ranking's cap
+
+  // Volume sliders and mute; the engine holds the live values
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+
+  // Replays: the live run is recorded tick by tick; playback drives stateRef
+  const recorderRef = useRef<Recorder | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const replaySpeedRef = useRef(1);
+  const replayPausedRef = useRef(false);
+  const [savedReplays, setSavedReplays] = useState<SavedReplays>({ last: null, best: null });
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+  const [replayTick, setReplayTick] = useState(0);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replayError, setReplayError] = useState<"replay.oldVersion" | "replay.invalid" | null>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+
+  // Show the local ranking right away, then swap in the server one if reachable
+  const refreshTopPlayers = useCallback(() => {
+    const mode = leaderboardModeRef.current;
+    setTopPlayers(getTopPlayers(mode));
+    void fetchLeaderboard(mode, TOP_PLAYERS_SHOWN).then(page => {
+      if (page && leaderboardModeRef.current === mode) setTopPlayers(page.players);
+    });
   }, []);
 
-  // ── Mouse up: fire wave from click position based on hold duration ────────
-  const handleMouseUp = useCallback((e: MouseEvent) => {
-    if (e.button !== 0) return; // only left button
-    const phase = gamePhaseRef.current;
-
-    if (phase !== "playing") return;
-
-    const state = stateRef.current;
-    if (state.mouseDownTime === null) return;
-
-    const held = performance.now() - state.mouseDownTime;
-    const strong = held >= HOLD_THRESHOLD_MS;
-    state.mouseDownTime = null;
-    state.chargeProgress = 0;
+  const showLeaderboard = useCallback((mode: GameMode) => {
+    leaderboardModeRef.current = mode;
+    setLeaderboardMode(mode);
+    refreshTopPlayers();
+  }, [refreshTopPlayers]);
 
-    // Fire from current mouse position (where the player clicked/released)
-    fireWave(strong, state.mouseX, state.mouseY);
-  }, [fireWave]);
-
-  // ── Context menu: prevent default ────────────────────────────────────────
-  const handleContextMenu = useCallback((e: MouseEvent) => {
-    e.preventDefault();
+  const resetState = useCallback((seed: number, mode: GameMode = "campaign", startLevel = 0, loadout?: Loadout) => {
+    const prev = stateRef.current;
+    stateRef.current = createInitialState({ seed, mode, startLevel, loadout, highScore: loadHighScore() });
+    effectsRef.current = createEffects(seed);
+    stateRef.current.mouseX = prev.mouseX;
+    stateRef.current.mouseY = prev.mouseY;
+    controlsRef.current.pressed = false;
+    controlsRef.current.released = false;
+    controlsRef.current.strong = false;
   }, []);
 
   // ── Pause toggle ──────────────────────────────────────────────────────────
@@ -1419,44 +958,279 @@ export default function Game() {
     if (phase === "playing") {
       gamePhaseRef.current = "paused";
       setGamePhase("paused");
-      stateRef.current.paused = true;
-      stateRef.current.mouseDownTime = null; // cancel any charge
-      stateRef.current.chargeProgress = 0;
+      cancelCharge(stateRef.current);
+      if (recorderRef.current) recordPause(recorderRef.current);
+      controlsRef.current.pressed = false;
+      controlsRef.current.released = false;
+      controlsRef.current.strong = false;
       pauseMusic();
     } else if (phase === "paused") {
       gamePhaseRef.current = "playing";
       setGamePhase("playing");
-      stateRef.current.paused = false;
       resumeMusic();
     }
   }, []);
 
+  // ── Pointer aim: client pixels → logical playfield coordinates ─────────────
+  const aimAt = useCallback((e: PointerEvent) => {
+    const rect = (e.currentTarget as HTMLCanvasElement).getBoundingClientRect();
+    controlsRef.current.aimX = (e.clientX - rect.left) * (WIDTH / rect.width);
+    controlsRef.current.aimY = (e.clientY - rect.top) * (HEIGHT / rect.height);
+  }, []);
+
+  // ── Pointer down: start charging on the next step ─────────────────────────
+  // Mouse, pen and touch share one path: tap fires, long-press charges. A
+  // second finger landing turns the touch into a two-finger tap that pauses.
+  const handlePointerDown = useCallback((e: PointerEvent) => {
+    if (e.pointerType !== "touch") {
+      if (e.button !== 0) return; // only left button
+    } else {
+      e.preventDefault();
+      (e.currentTarget as HTMLCanvasElement).setPointerCapture(e.pointerId);
+      touchesRef.current.add(e.pointerId);
+      if (touchesRef.current.size === 2) {
+        twoFingerRef.current = true;
+        togglePause(); // also drops the first finger's charge
+        return;
+      }
+      if (twoFingerRef.current || touchesRef.current.size > 1) return;
+    }
+    aimAt(e);
+    if (gamePhaseRef.current !== "playing") return;
+    controlsRef.current.pressed = true;
+  }, [aimAt, togglePause]);
+
+  // ── Pointer up: the simulation fires based on how long it was held ────────
+  const handlePointerUp = useCallback((e: PointerEvent) => {
+    if (e.pointerType !== "touch") {
+      if (e.button !== 0) return; // only left button
+    } else {
+      touchesRef.current.delete(e.pointerId);
+      // Fingers lifting after a two-finger tap never fire
+      if (twoFingerRef.current) {
+        if (touchesRef.current.size === 0) twoFingerRef.current = false;
+        return;
+      }
+    }
+    if (gamePhaseRef.current !== "playing") return;
+    controlsRef.current.released = true;
+  }, []);
+
+  // ── Context menu: prevent default ────────────────────────────────────────
+  const handleContextMenu = useCallback((e: MouseEvent) => {
+    e.preventDefault();
+  }, []);
+
+  // ── Language ──────────────────────────────────────────────────────────────
+  const applyLocale = useCallback((locale: Locale) => {
+    const next = createTranslator(locale);
+    i18nRef.current = next;
+    setI18n(next);
+    document.documentElement.lang = locale;
+  }, []);
+
+  // Only a pick from the switcher is saved; until then the browser language decides
+  const changeLocale = useCallback((locale: Locale) => {
+    saveLocale(locale);
+    applyLocale(locale);
+  }, [applyLocale]);
+
   // ── Login handler ──────────────────────────────────────────────────────────
   const handleLogin = useCallback(() => {
     const name = playerName.trim() || "Player";
     savePlayerName(name);
     playerNameRef.current = name;
-    setTopPlayers(getTopPlayers());
+    const saved = loadBindings(name);
+    bindingsRef.current = saved;
+    setBindings(saved);
+    setUnlockedLevel(loadUnlockedLevel(name));
+    setUnlockedAchievements(loadAchievements(name));
+    setShop(loadShop(name));
+    setAudioSettings(getAudioSettings());
+    refreshTopPlayers();
     gamePhaseRef.current = "start";
     setGamePhase("start");
-  }, [playerName]);
+  }, [playerName, refreshTopPlayers]);
 
   // ── Start / Restart game ──────────────────────────────────────────────────
-  const startGame = useCallback(() => {
-    resetState();
+  // Ordinary runs roll a fresh seed; the daily challenge shares one per day
+  const startRun = useCallback((daily: boolean, mode: GameMode, startLevel = 0) => {
+    dailyRunRef.current = daily;
+    runModeRef.current = mode;
+    startLevelRef.current = startLevel;
+    const seed = daily ? dailySeed() : randomSeed();
+    const name = playerNameRef.current || "Player";
+    const loadout = runLoadout(loadShop(name));
+    resetState(seed, mode, startLevel, loadout);
+    recorderRef.current = createRecorder(seed, mode, startLevel, loadout, name);
+    achievementTrackerRef.current = createAchievementTracker(name, stateRef.current.maxHp);
+    runTallyRef.current = createRunTally(mode, startLevel);
+    toastsRef.current = [];
     gamePhaseRef.current = "playing";
     setGamePhase("playing");
-    startMusic();
+    // Unlock audio inside the click; the music itself starts on the first frame
+    void resumeAudio();
   }, [resetState]);
 
-  const restartGame = useCallback(() => {
-    resetState();
-    gamePhaseRef.current = "playing";
-    setGamePhase("playing");
-    startMusic();
-  }, [resetState]);
+  const startGame = useCallback(() => startRun(false, "campaign"), [startRun]);
+  const startEndless = useCallback(() => startRun(false, "endless"), [startRun]);
+  const startDailyChallenge = useCallback(() => startRun(true, "campaign"), [startRun]);
+  const startAtLevel = useCallback((level: number) => startRun(false, "campaign", level), [startRun]);
+
+  // Play again keeps the mode and start phase: a daily run retries the same seed
+  const restartGame = useCallback(
+    () => startRun(dailyRunRef.current, runModeRef.current, startLevelRef.current),
+    [startRun],
+  );
+
+  // ── Controls screen ───────────────────────────────────────────────────────
+  const openControls = useCallback(() => {
+    gamePhaseRef.current = "controls";
+    setGamePhase("controls");
+  }, []);
+
+  // Every start-screen sub-screen returns to the start screen
+  const backToStart = useCallback(() => {
+    gamePhaseRef.current = "start";
+    setGamePhase("start");
+  }, []);
+
+  const changeBindings = useCallback((next: Bindings) => {
+    bindingsRef.current = next;
+    setBindings(next);
+    saveBindings(playerNameRef.current || "Player", next);
+  }, []);
+
+  // ── Level select ──────────────────────────────────────────────────────────
+  const openLevels = useCallback(() => {
+    gamePhaseRef.current = "levels";
+    setGamePhase("levels");
+  }, []);
+
+  // ── Trophy gallery ────────────────────────────────────────────────────────
+  const openTrophies = useCallback(() => {
+    gamePhaseRef.current = "trophies";
+    setGamePhase("trophies");
+  }, []);
+
+  // ── Upgrade shop ──────────────────────────────────────────────────────────
+  const openShop = useCallback(() => {
+    setShop(loadShop(playerNameRef.current || "Player"));
+    gamePhaseRef.current = "shop";
+    setGamePhase("shop");
+  }, []);
+
+  const buy = useCallback((id: UpgradeId) => {
+    const next = buyUpgrade(playerNameRef.current || "Player", id);
+    if (next) setShop(next);
+  }, []);
 
-  // ── Load saved player name on mount ────────────────────────────────────────
+  // Ranked runs leave the owned upgrades at home so they can join the global ranking
+  const toggleUpgrades = useCallback(() => {
+    const name = playerNameRef.current || "Player";
+    setShop(setApplyUpgrades(name, !loadShop(name).applyUpgrades));
+  }, []);
+
+  // ── Audio settings ────────────────────────────────────────────────────────
+  const openAudio = useCallback(() => {
+    gamePhaseRef.current = "audio";
+    setGamePhase("audio");
+  }, []);
+
+  const changeVolume = useCallback((bus: AudioBus, volume: number) => setAudioSettings(setBusVolume(bus, volume)), []);
+  const switchMute = useCallback(() => setAudioSettings(toggleMute()), []);
+
+  // ── Player stats ──────────────────────────────────────────────────────────
+  const openStats = useCallback(() => {
+    setProfile(loadProfile(playerNameRef.current || "Player"));
+    gamePhaseRef.current = "stats";
+    setGamePhase("stats");
+  }, []);
+
+  // ── Replay viewer ─────────────────────────────────────────────────────────
+  const watchReplay = useCallback((replay: Replay) => {
+    if (replay.version !== SIM_VERSION) {
+      setReplayError("replay.oldVersion");
+      return;
+    }
+    setReplayError(null);
+    stopTrack();
+    const playback = createPlayback(replay, loadHighScore(), true);
+    playbackRef.current = playback;
+    stateRef.current = playback.state;
+    effectsRef.current = createEffects(replay.seed);
+    accumulatorRef.current = 0;
+    replaySpeedRef.current = 1;
+    replayPausedRef.current = false;
+    setReplaySpeed(1);
+    setReplayPaused(false);
+    setReplayTick(0);
+    setActiveReplay(replay);
+    gamePhaseRef.current = "replay";
+    setGamePhase("replay");
+  }, []);
+
+  const closeReplay = useCallback(() => {
+    playbackRef.current = null;
+    setActiveReplay(null);
+    resetState(0);
+    refreshTopPlayers();
+    gamePhaseRef.current = "start";
+    setGamePhase("start");
+  }, [resetState, refreshTopPlayers]);
+
+  // Seeking re-simulates silently from the nearest snapshot
+  const seekReplay = useCallback((tick: number) => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    const next = seekPlayback(playback, tick);
+    playbackRef.current = next;
+    stateRef.current = next.state;
+    accumulatorRef.current = 0;
+    setReplayTick(next.tick);
+  }, []);
+
+  const setReplayPausedBoth = useCallback((paused: boolean) => {
+    replayPausedRef.current = paused;
+    setReplayPaused(paused);
+  }, []);
+
+  const toggleReplayPause = useCallback(() => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    if (replayPausedRef.current && isPlaybackDone(playback)) {
+      seekReplay(0); // watch again from the start
+    }
+    setReplayPausedBoth(!replayPausedRef.current);
+  }, [seekReplay, setReplayPausedBoth]);
+
+  const stepReplayFrame = useCallback(() => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    setReplayPausedBoth(true);
+    seekReplay(playback.tick + 1);
+  }, [seekReplay, setReplayPausedBoth]);
+
+  const changeReplaySpeed = useCallback((speed: number) => {
+    replaySpeedRef.current = speed;
+    setReplaySpeed(speed);
+  }, []);
+
+  const importReplay = useCallback(async (file: File) => {
+    let replay: Replay | null = null;
+    try {
+      replay = parseReplay(JSON.parse(await file.text()));
+    } catch {
+      // ignore — reported below
+    }
+    if (!replay) {
+      setReplayError("replay.invalid");
+      return;
+    }
+    watchReplay(replay);
+  }, [watchReplay]);
+
+  // ── Load saved player name and language on mount ──────────────────────────
   useEffect(() => {
     const savedName = loadPlayerName();
     if (savedName) {
@@ -1467,8 +1241,48 @@ export default function Game() {
       if (savedName) {
         setPlayerName(savedName);
       }
-      setTopPlayers(getTopPlayers());
+      applyLocale(loadLocale());
+      refreshTopPlayers();
+      setSavedReplays(loadSavedReplays());
     });
+  }, [refreshTopPlayers, applyLocale]);
+
+  // ── Offline scores: send the queue now and whenever the connection returns ─
+  useEffect(() => {
+    const sync = () => {
+      void flushScoreQueue().then(sent => {
+        if (sent > 0) refreshTopPlayers();
+        return pendingScoreCount().then(setPendingScores);
+      });
+    };
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [refreshTopPlayers]);
+
+  // ── Responsive canvas: letterbox into the viewport, render at device pixels ─
+  useEffect(() => {
+    const fit = () => {
+      const scale = Math.min(window.innerWidth / WIDTH, window.innerHeight / HEIGHT);
+      const canvas = canvasRef.current;
+      if (canvas) {
+        const resolution = scale * (window.devicePixelRatio || 1);
+        canvas.width = Math.round(WIDTH * resolution);
+        canvas.height = Math.round(HEIGHT * resolution);
+        renderScaleRef.current = canvas.width / WIDTH;
+      }
+      setViewScale(scale);
+    };
+    // Defer the first fit like the other mount-time state updates
+    const frame = requestAnimationFrame(fit);
+    // Also fires on browser zoom, which changes devicePixelRatio
+    window.addEventListener("resize", fit);
+    window.addEventListener("orientationchange", fit);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("resize", fit);
+      window.removeEventListener("orientationchange", fit);
+    };
   }, []);
 
   // ── Game loop ─────────────────────────────────────────────────────────────
@@ -1476,76 +1290,53 @@ export default function Game() {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const handleMouseMove = (e: MouseEvent) => {
-      const rect = canvas.getBoundingClientRect();
-      const scaleX = WIDTH / rect.width;
-      const scaleY = HEIGHT / rect.height;
-      stateRef.current.mouseX = (e.clientX - rect.left) * scaleX;
-      stateRef.current.mouseY = (e.clientY - rect.top) * scaleY;
+    // Touch only aims with the finger that started the shot
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerType === "touch" && (twoFingerRef.current || !touchesRef.current.has(e.pointerId))) return;
+      aimAt(e);
     };
 
-    canvas.addEventListener("mousemove", handleMouseMove);
-    canvas.addEventListener("mousedown", handleMouseDown);
-    canvas.addEventListener("mouseup", handleMouseUp);
+    canvas.addEventListener("pointermove", handlePointerMove);
+    canvas.addEventListener("pointerdown", handlePointerDown);
+    canvas.addEventListener("pointerup", handlePointerUp);
+    canvas.addEventListener("pointercancel", handlePointerUp);
     canvas.addEventListener("contextmenu", handleContextMenu);
 
     // ── Draw functions ──────────────────────────────────────────────────────
 
     const drawBackground = (ctx: CanvasRenderingContext2D, state: GameState, t: number) => {
-      // Different background for each phase
-      if (state.currentPhase === 1) {
-        // Phase 1: Blue space theme
-        const bg = ctx.createRadialGradient(CENTER_X, CENTER_Y, 80, CENTER_X, CENTER_Y, WIDTH * 0.8);
-        bg.addColorStop(0, "#0a0e1a");
-        bg.addColorStop(0.5, "#060a14");
-        bg.addColorStop(1, "#020408");
-        ctx.fillStyle = bg;
-        ctx.fillRect(0, 0, WIDTH, HEIGHT);
+      // Each phase brings its own palette (see LevelTheme)
+      const theme = currentLevel(state).theme;
+      const bg = ctx.createRadialGradient(CENTER_X, CENTER_Y, 80, CENTER_X, CENTER_Y, WIDTH * 0.8);
+      bg.addColorStop(0, theme.background[0]);
+      bg.addColorStop(0.5, theme.background[1]);
+      bg.addColorStop(1, theme.background[2]);
+      ctx.fillStyle = bg;
+      ctx.fillRect(0, 0, WIDTH, HEIGHT);
 
-        for (const star of state.stars) {
-          star.twinkle += 0.03;
+      for (const star of state.stars) {
+        ctx.beginPath();
+        if (theme.starHue === null) {
           const alpha = 0.4 + 0.6 * Math.abs(Math.sin(star.twinkle + t * 0.001));
-          ctx.beginPath();
           ctx.arc(star.x, star.y, star.r, 0, Math.PI * 2);
           ctx.fillStyle = `rgba(255,255,255,${alpha * star.brightness})`;
-          ctx.fill();
-        }
-
-        const nebula = ctx.createRadialGradient(CENTER_X, CENTER_Y, 60, CENTER_X, CENTER_Y, 280);
-        nebula.addColorStop(0, "rgba(0,200,255,0.06)");
-        nebula.addColorStop(0.5, "rgba(100,50,200,0.04)");
-        nebula.addColorStop(1, "rgba(0,0,0,0)");
-        ctx.fillStyle = nebula;
-        ctx.fillRect(0, 0, WIDTH, HEIGHT);
-      } else {
-        // Phase 2: Purple/gold nebula theme (more intense)
-        const bg = ctx.createRadialGradient(CENTER_X, CENTER_Y, 80, CENTER_X, CENTER_Y, WIDTH * 0.8);
-        bg.addColorStop(0, "#1a0a1e");
-        bg.addColorStop(0.5, "#0f0614");
-        bg.addColorStop(1, "#050208");
-        ctx.fillStyle = bg;
-        ctx.fillRect(0, 0, WIDTH, HEIGHT);
-
-        for (const star of state.stars) {
-          star.twinkle += 0.05; // faster twinkle
+        } else {
+          // Tinted stars drift across a 60° hue band
           const alpha = 0.5 + 0.5 * Math.abs(Math.sin(star.twinkle + t * 0.002));
-          ctx.beginPath();
           ctx.arc(star.x, star.y, star.r * 1.2, 0, Math.PI * 2);
-          // Golden/purple stars for phase 2
-          const hue = (star.x + star.y + t * 0.01) % 60 + 30; // gold to purple range
+          const hue = ((star.x + star.y + t * 0.01) % 60) + theme.starHue;
           ctx.fillStyle = `hsla(${hue}, 80%, 70%, ${alpha * star.brightness})`;
-          ctx.fill();
         }
+        ctx.fill();
+      }
 
-        // Intense nebula effect
-        const nebula = ctx.createRadialGradient(CENTER_X, CENTER_Y, 60, CENTER_X, CENTER_Y, 350);
-        nebula.addColorStop(0, "rgba(168,85,247,0.12)");
-        nebula.addColorStop(0.3, "rgba(255,165,0,0.08)");
-        nebula.addColorStop(0.6, "rgba(194,166,51,0.06)");
-        nebula.addColorStop(1, "rgba(0,0,0,0)");
-        ctx.fillStyle = nebula;
-        ctx.fillRect(0, 0, WIDTH, HEIGHT);
+      const nebula = ctx.createRadialGradient(CENTER_X, CENTER_Y, 60, CENTER_X, CENTER_Y, theme.nebula.radius);
+      for (const [offset, color] of theme.nebula.stops) nebula.addColorStop(offset, color);
+      nebula.addColorStop(1, "rgba(0,0,0,0)");
+      ctx.fillStyle = nebula;
+      ctx.fillRect(0, 0, WIDTH, HEIGHT);
 
+      if (theme.danger) {
         // Pulsing danger zone
         const dangerPulse = Math.sin(t * 0.003) * 0.02 + 0.03;
         const danger = ctx.createRadialGradient(CENTER_X, CENTER_Y, SUI_RADIUS + 50, CENTER_X, CENTER_Y, SUI_RADIUS + 150);
@@ -1555,42 +1346,29 @@ export default function Game() {
         ctx.fillRect(0, 0, WIDTH, HEIGHT);
       }
 
-      if (state.bgFlash && state.bgFlash.alpha > 0) {
-        const [r, g, b] = hexToRgb(state.bgFlash.color);
-        ctx.fillStyle = `rgba(${r},${g},${b},${state.bgFlash.alpha})`;
+      const { bgFlash } = effectsRef.current;
+      if (bgFlash && bgFlash.alpha > 0) {
+        const [r, g, b] = hexToRgb(bgFlash.color);
+        ctx.fillStyle = `rgba(${r},${g},${b},${bgFlash.alpha})`;
         ctx.fillRect(0, 0, WIDTH, HEIGHT);
-        state.bgFlash.alpha -= 0.025;
-        if (state.bgFlash.alpha <= 0) state.bgFlash = null;
       }
     };
 
     const drawSUI = (ctx: CanvasRenderingContext2D, state: GameState) => {
-      state.suiPulse += 0.04;
       const pulse = Math.sin(state.suiPulse) * 4;
-      const cx = CENTER_X + state.suiShake.x;
-      const cy = CENTER_Y + state.suiShake.y;
-
-      if (state.suiShake.timer > 0) {
-        state.suiShake.timer--;
-        state.suiShake.x = (Math.random() - 0.5) * 8;
-        state.suiShake.y = (Math.random() - 0.5) * 8;
-        if (state.suiShake.timer === 0) {
-          state.suiShake.x = 0;
-          state.suiShake.y = 0;
-        }
-      }
+      const { suiShake } = effectsRef.current;
+      const cx = CENTER_X + suiShake.x;
+      const cy = CENTER_Y + suiShake.y;
 
       // HP-based tint: green → yellow → red
-      const hpFrac = state.hp / 100;
+      const hpFrac = state.hp / state.maxHp;
       const hpR = Math.round(255 * (1 - hpFrac));
       const hpG = Math.round(200 * hpFrac);
       const hpGlowColor = `rgb(${hpR},${hpG},255)`;
 
       // Charge ring — shows hold progress
-      if (state.mouseDownTime !== null) {
-        const held = performance.now() - state.mouseDownTime;
-        const progress = Math.min(held / HOLD_THRESHOLD_MS, 1);
-        state.chargeProgress = progress;
+      if (state.chargeTime !== null) {
+        const progress = state.chargeProgress;
 
         const chargeRadius = SUI_RADIUS + 28 + pulse;
         ctx.save();
@@ -1666,10 +1444,11 @@ export default function Game() {
       ctx.fillText("SUI", cx, cy + SUI_RADIUS + 6);
     };
 
-    const drawMeteor = (ctx: CanvasRenderingContext2D, m: Meteor) => {
-      const c = COIN_COLORS[m.type];
+    const drawMeteor = (ctx: CanvasRenderingContext2D, m: Meteor, alpha: number, time: number) => {
+      const def = ENEMIES[m.type];
+      const c = def.palette;
       ctx.save();
-      ctx.translate(m.x, m.y);
+      ctx.translate(lerp(m.prevX, m.x, alpha), lerp(m.prevY, m.y, alpha));
       ctx.rotate(m.rotation);
 
       ctx.shadowColor = c.glow;
@@ -1690,129 +1469,90 @@ export default function Game() {
       ctx.shadowBlur = 0;
 
       // Draw coin-specific logo
-      if (m.type === "BTC") {
-        ctx.fillStyle = c.text;
-        ctx.font = `bold ${m.radius * 0.9}px monospace`;
-        ctx.textAlign = "center";
-        ctx.textBaseline = "middle";
-        ctx.fillText("₿", 0, 0);
-      } else if (m.type === "ETH") {
-        drawETHLogo(ctx, m.radius);
-      } else if (m.type === "SOL") {
-        drawSOLLogo(ctx, m.radius);
-      } else if (m.type === "PEPE") {
-        drawPEPELogo(ctx, m.radius);
-      } else if (m.type === "DOGE") {
-        drawDOGELogo(ctx, m.radius);
-      } else if (m.type === "SHIB") {
-        drawSHIBLogo(ctx, m.radius);
-      } else if (m.type === "BONK") {
-        drawBONKLogo(ctx, m.radius);
-      } else if (m.type === "WIF") {
-        drawWIFLogo(ctx, m.radius);
+      def.drawLogo(ctx, m.radius);
+
+      if (m.variant === "armored") {
+        // Metal rim, plus one crack per point of damage taken
+        ctx.beginPath();
+        ctx.arc(0, 0, m.radius + 2, 0, Math.PI * 2);
+        ctx.strokeStyle = "#b8c0c8";
+        ctx.lineWidth = 4;
+        ctx.stroke();
+        ctx.strokeStyle = "rgba(20,20,20,0.85)";
+        ctx.lineWidth = 1.5;
+        for (let k = 0; k < m.maxHp - m.hp; k++) {
+          const a = ((m.id * 7 + k * 13) % 16) * (Math.PI / 8);
+          ctx.beginPath();
+          ctx.moveTo(Math.cos(a) * m.radius, Math.sin(a) * m.radius);
+          ctx.lineTo(Math.cos(a + 0.3) * m.radius * 0.55, Math.sin(a + 0.3) * m.radius * 0.55);
+          ctx.lineTo(Math.cos(a - 0.1) * m.radius * 0.2, Math.sin(a - 0.1) * m.radius * 0.2);
+          ctx.stroke();
+        }
+      } else if (m.variant === "splitting") {
+        // Zig-zag fissure showing where it will break apart
+        ctx.beginPath();
+        ctx.moveTo(-m.radius, 0);
+        for (let k = 1; k <= 6; k++) {
+          ctx.lineTo(-m.radius + (k * m.radius) / 3, k % 2 ? -m.radius * 0.18 : m.radius * 0.18);
+        }
+        ctx.strokeStyle = "rgba(255,255,255,0.8)";
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      } else if (m.variant === "shielded") {
+        // Pulsing bubble: only the strong wave gets through
+        ctx.beginPath();
+        ctx.arc(0, 0, m.radius + 7 + Math.sin(time * 0.008) * 2, 0, Math.PI * 2);
+        ctx.fillStyle = "rgba(155,231,255,0.15)";
+        ctx.fill();
+        ctx.strokeStyle = "rgba(155,231,255,0.7)";
+        ctx.lineWidth = 2;
+        ctx.stroke();
       }
 
       ctx.restore();
-    };
 
-    const drawWaves = (ctx: CanvasRenderingContext2D, state: GameState) => {
-      for (let i = state.waves.length - 1; i >= 0; i--) {
-        const w = state.waves[i];
-        const expandSpeed = w.strong ? 9 : 6;
-        w.radius += expandSpeed;
-        w.alpha = 1 - w.radius / w.maxRadius;
+      // Pause-then-lunge wind-up: a flashing line to SUI before it strikes
+      if (m.motion.stage === "pause") {
+        const x = lerp(m.prevX, m.x, alpha);
+        const y = lerp(m.prevY, m.y, alpha);
+        ctx.save();
+        ctx.globalAlpha = 0.35 + Math.sin(time * 0.03) * 0.25;
+        ctx.strokeStyle = "#ff4466";
+        ctx.lineWidth = 2;
+        ctx.setLineDash([8, 8]);
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(CENTER_X, CENTER_Y);
+        ctx.stroke();
+        ctx.restore();
+      }
+    };
 
-        if (w.radius >= w.maxRadius) {
-          state.waves.splice(i, 1);
-          continue;
-        }
+    const drawWaves = (ctx: CanvasRenderingContext2D, state: GameState, alpha: number) => {
+      const overclocked = state.activePowerUps.some(p => p.type === "speed");
+      for (const w of state.waves) {
+        const radius = lerp(w.prevRadius, w.radius, alpha);
 
-        // Check meteor hits — wave ring expands from click origin
-        for (let j = state.meteors.length - 1; j >= 0; j--) {
-          const m = state.meteors[j];
-          const dx = m.x - w.x;
-          const dy = m.y - w.y;
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          // Wave ring hits meteor if meteor center is within the ring band
-          const ringThickness = w.strong ? 20 : 12;
-          if (Math.abs(dist - w.radius) < ringThickness + m.radius) {
-            const coinColor = COIN_COLORS[m.type].primary;
-            createExplosion(state.particles, m.x, m.y, coinColor, 22);
-            state.bgFlash = { color: coinColor, alpha: 0.45 };
-            state.screenShake = { x: 0, y: 0, timer: 6 };
-            
-            // Combo system
-            state.combo++;
-            state.comboTimer = 120; // 2 seconds to maintain combo
-            
-            // Calculate points with combo and multiplier
-            let points = COIN_SCORE[m.type];
-            const hasMultiplier = state.activePowerUps.some(p => p.type === "multiplier");
-            if (hasMultiplier) points *= 2;
-            const comboMultiplier = Math.min(state.combo, 10);
-            points = Math.floor(points * (1 + comboMultiplier * 0.1));
-            
-            state.score += points;
-            state.scorePopups.push({
-              x: m.x,
-              y: m.y - m.radius,
-              value: points,
-              life: 1,
-              maxLife: 1,
-              color: COIN_COLORS[m.type].primary,
-            });
-            playExplosionSound(m.type);
-            state.meteors.splice(j, 1);
-            
-            // Heal power-up gives HP on kill
-            const hasHeal = state.activePowerUps.some(p => p.type === "heal");
-            if (hasHeal) {
-              state.hp = Math.min(100, state.hp + 2);
-            }
-          }
-        }
-        
-        // Check for boss spawn in Phase 1 (at 1400 points, before phase transition)
-        if (state.score >= 1400 && state.currentPhase === 1 && !state.boss && !state.bossDefeated) {
-          state.boss = spawnBoss(state.nextMeteorId++, "PEPE_KING");
-          state.bgFlash = { color: "#00FF88", alpha: 0.5 };
-        }
-        
-        // Check for boss spawn in Phase 2 (at 2900 points, before victory)
-        if (state.score >= 2900 && state.currentPhase === 2 && !state.boss && !state.bossDefeated) {
-          state.boss = spawnBoss(state.nextMeteorId++, "BONK_BOSS");
-          state.bgFlash = { color: "#FF6B35", alpha: 0.5 };
-        }
-        
-        // Phase 1 to Phase 2 transition (after PEPE KING defeated + 1500 points)
-        if (state.currentPhase === 1 && state.bossDefeated && state.score >= 1500) {
-          state.currentPhase = 2;
-          state.bossDefeated = false; // Reset for Phase 2 boss
-          state.spawnInterval = 60; // faster spawns in phase 2
-          state.bgFlash = { color: "#FFD700", alpha: 0.5 };
-        }
-        
-        // Phase 2 completion (after BONK BOSS defeated + 3000 points)
-        if (state.currentPhase === 2 && state.bossDefeated && state.score >= 3000) {
-          state.gameOver = true;
-          if (state.score > state.highScore) {
-            state.highScore = state.score;
-            localStorage.setItem("dogSuiDefenderHighScore", state.score.toString());
+        // Speed power-up: yellow afterimages trailing the faster rings
+        if (overclocked) {
+          ctx.save();
+          ctx.strokeStyle = "#ffff00";
+          ctx.shadowColor = "#ffff00";
+          ctx.shadowBlur = 10;
+          for (let k = 1; k <= 2; k++) {
+            ctx.beginPath();
+            ctx.arc(w.x, w.y, Math.max(0, radius - k * 16), 0, Math.PI * 2);
+            ctx.lineWidth = 2;
+            ctx.globalAlpha = w.alpha * (0.45 - k * 0.15);
+            ctx.stroke();
           }
-          // Save score to leaderboard
-          const name = playerNameRef.current || "Player";
-          addScoreToLeaderboard(name, state.score);
-          setTopPlayers(getTopPlayers());
-          setFinalScore(state.score);
-          gamePhaseRef.current = "phasecomplete";
-          setGamePhase("phasecomplete");
-          stopMusic();
+          ctx.restore();
         }
 
         // Draw wave ring from click origin
         ctx.save();
         ctx.beginPath();
-        ctx.arc(w.x, w.y, w.radius, 0, Math.PI * 2);
+        ctx.arc(w.x, w.y, radius, 0, Math.PI * 2);
         const waveColor = w.strong ? "#ff8800" : "#00ffcc";
         ctx.strokeStyle = waveColor;
         ctx.lineWidth = w.strong ? 5 : 3;
@@ -1823,7 +1563,7 @@ export default function Game() {
 
         // Inner glow ring
         ctx.beginPath();
-        ctx.arc(w.x, w.y, Math.max(0, w.radius - (w.strong ? 12 : 8)), 0, Math.PI * 2);
+        ctx.arc(w.x, w.y, Math.max(0, radius - (w.strong ? 12 : 8)), 0, Math.PI * 2);
         ctx.strokeStyle = waveColor;
         ctx.lineWidth = 1;
         ctx.globalAlpha = w.alpha * 0.3;
@@ -1873,14 +1613,7 @@ export default function Game() {
     };
 
     const drawParticles = (ctx: CanvasRenderingContext2D, particles: Particle[]) => {
-      for (let i = particles.length - 1; i >= 0; i--) {
-        const p = particles[i];
-        p.x += p.vx;
-        p.y += p.vy;
-        p.vx *= 0.94;
-        p.vy *= 0.94;
-        p.life -= 0.025;
-        if (p.life <= 0) { particles.splice(i, 1); continue; }
+      for (const p of particles) {
         const alpha = p.life / p.maxLife;
         ctx.beginPath();
         ctx.arc(p.x, p.y, p.radius * alpha, 0, Math.PI * 2);
@@ -1890,11 +1623,8 @@ export default function Game() {
     };
 
     const drawScorePopups = (ctx: CanvasRenderingContext2D, popups: ScorePopup[]) => {
-      for (let i = popups.length - 1; i >= 0; i--) {
-        const p = popups[i];
-        p.y -= 1.2;
-        p.life -= 0.02;
-        if (p.life <= 0) { popups.splice(i, 1); continue; }
+      const { number } = i18nRef.current;
+      for (const p of popups) {
         const alpha = p.life / p.maxLife;
         ctx.save();
         ctx.globalAlpha = alpha;
@@ -1904,21 +1634,23 @@ export default function Game() {
         ctx.textBaseline = "middle";
         ctx.shadowColor = p.color ?? "#ffd700";
         ctx.shadowBlur = 10;
-        ctx.fillText(`+$${p.value}`, p.x, p.y);
+        ctx.fillText(`+$${number(p.value)}`, p.x, p.y);
         ctx.restore();
       }
     };
 
     const drawHUD = (ctx: CanvasRenderingContext2D, state: GameState) => {
+      const { t, number } = i18nRef.current;
       ctx.save();
 
-      // Player name
-      const name = playerNameRef.current || "Player";
+      // Player name (the recorded player's when watching a replay)
+      const playback = gamePhaseRef.current === "replay" ? playbackRef.current : null;
+      const name = playback ? playback.replay.player : playerNameRef.current || "Player";
       ctx.fillStyle = "rgba(0,200,255,0.7)";
       ctx.font = "12px monospace";
       ctx.textAlign = "left";
       ctx.textBaseline = "top";
-      ctx.fillText(`👤 ${name}`, 18, 4);
+      ctx.fillText(playback ? t("hud.replay", { name }) : `👤 ${name}`, 18, 4);
 
       // Score
       ctx.shadowColor = "#ffd700";
@@ -1927,25 +1659,30 @@ export default function Game() {
       ctx.font = "bold 26px monospace";
       ctx.textAlign = "left";
       ctx.textBaseline = "top";
-      ctx.fillText(`$${state.score.toLocaleString()} SUI`, 18, 20);
+      ctx.fillText(`$${number(state.score)} SUI`, 18, 20);
       ctx.shadowBlur = 0;
 
       // High score
       if (state.highScore > 0) {
         ctx.fillStyle = "rgba(255,215,0,0.5)";
         ctx.font = "12px monospace";
-        ctx.fillText(`BEST: $${state.highScore.toLocaleString()}`, 18, 50);
+        ctx.fillText(t("hud.best", { score: state.highScore }), 18, 50);
       }
 
       // Phase indicator
+      const level = currentLevel(state);
       let phaseText: string;
       let phaseColor: string;
       if (state.boss && !state.bossDefeated) {
-        phaseText = state.boss.type === "PEPE_KING" ? "⚠ BOSS: PEPE KING ⚠" : "⚠ BOSS: BONK BOSS ⚠";
-        phaseColor = state.boss.type === "PEPE_KING" ? "#00FF88" : "#FF6B35";
+        const stage = currentStage(state.boss);
+        phaseText = t("hud.boss", { stage: t(stage.name) });
+        phaseColor = stage.enraged ? "#ff0033" : BOSS_COLORS[state.boss.type];
+      } else if (state.endless) {
+        phaseText = t("hud.endless", { level: state.endless.level });
+        phaseColor = "#ff66ff";
       } else {
-        phaseText = state.currentPhase === 1 ? "PHASE I" : "PHASE II: MEME WARS";
-        phaseColor = state.currentPhase === 1 ? "#00c8ff" : "#FFD700";
+        phaseText = levelName(level, t);
+        phaseColor = level.theme.accent;
       }
       ctx.fillStyle = phaseColor;
       ctx.font = "bold 14px monospace";
@@ -1957,28 +1694,29 @@ export default function Game() {
         // Show boss HP as progress
         const barW = 100;
         const barX = WIDTH - barW - 18;
-        const bossColor = state.boss.type === "PEPE_KING" ? "#00FF88" : "#FF6B35";
+        const bossColor = BOSS_COLORS[state.boss.type];
         ctx.fillStyle = "rgba(255,255,255,0.1)";
         ctx.fillRect(barX, 62, barW, 6);
         ctx.fillStyle = bossColor;
         ctx.fillRect(barX, 62, barW * (state.boss.hp / state.boss.maxHp), 6);
-      } else if (state.currentPhase === 1) {
-        // Progress to boss in Phase 1
-        const progress = Math.min(state.score / 1400, 1);
+      } else if (state.endless) {
+        // Time left in the current endless level
         const barW = 100;
         const barX = WIDTH - barW - 18;
         ctx.fillStyle = "rgba(255,255,255,0.1)";
         ctx.fillRect(barX, 62, barW, 6);
-        ctx.fillStyle = "#00ff88";
-        ctx.fillRect(barX, 62, barW * progress, 6);
-      } else if (state.currentPhase === 2 && !state.bossDefeated) {
-        // Progress to boss in Phase 2
-        const progress = Math.min((state.score - 1500) / 1400, 1);
+        ctx.fillStyle = "#ff66ff";
+        ctx.fillRect(barX, 62, barW * (state.endless.levelTimer / ENDLESS_LEVEL_MS), 6);
+      } else {
+        // Progress to the phase boss, then to the next phase once it falls
+        const earned = state.score - state.levelStartScore;
+        const goal = level.boss && !state.bossDefeated ? level.boss.atScore : level.clearAt;
+        const progress = Math.max(0, Math.min(earned / goal, 1));
         const barW = 100;
         const barX = WIDTH - barW - 18;
         ctx.fillStyle = "rgba(255,255,255,0.1)";
         ctx.fillRect(barX, 62, barW, 6);
-        ctx.fillStyle = "#FF6B35";
+        ctx.fillStyle = level.theme.accent;
         ctx.fillRect(barX, 62, barW * progress, 6);
       }
 
@@ -1989,15 +1727,17 @@ export default function Game() {
         ctx.shadowColor = state.combo >= 10 ? "#ff4466" : "#00ffcc";
         ctx.shadowBlur = 10;
         ctx.textAlign = "left";
-        ctx.fillText(`${state.combo}x COMBO!`, 18, 68);
+        ctx.fillText(t("hud.combo", { combo: state.combo }), 18, 68);
         ctx.shadowBlur = 0;
       }
 
       // Title
-      ctx.fillStyle = state.currentPhase === 1 ? "rgba(0,200,255,0.85)" : "rgba(255,215,0,0.85)";
+      ctx.fillStyle = level.theme.accent;
+      ctx.globalAlpha = 0.85;
       ctx.font = "bold 16px monospace";
       ctx.textAlign = "center";
-      ctx.fillText(state.currentPhase === 1 ? "⚡ DOGSUI-DEFENDER ⚡" : "⚡ DOGSUI-DEFENDER: MEME WARS ⚡", CENTER_X, 14);
+      ctx.fillText(level.title ? `⚡ DOGSUI-DEFENDER: ${t(level.title)} ⚡` : "⚡ DOGSUI-DEFENDER ⚡", CENTER_X, 14);
+      ctx.globalAlpha = 1;
 
       // Active power-ups display
       const activeY = 70;
@@ -2014,7 +1754,7 @@ export default function Game() {
           multiplier: "×2",
           heal: "❤️",
         };
-        const remaining = Math.ceil(p.duration / 60);
+        const remaining = Math.ceil(p.duration / 1000);
         ctx.fillStyle = colors[p.type];
         ctx.font = "12px monospace";
         ctx.textAlign = "left";
@@ -2034,7 +1774,7 @@ export default function Game() {
       ctx.fill();
 
       // HP bar fill — green → yellow → red
-      const hpFrac = state.hp / 100;
+      const hpFrac = state.hp / state.maxHp;
       const hpR = Math.round(255 * (1 - hpFrac));
       const hpG = Math.round(220 * hpFrac);
       const hpGrad = ctx.createLinearGradient(barX, 0, barX + barW * hpFrac, 0);
@@ -2060,18 +1800,100 @@ export default function Game() {
       ctx.font = "bold 11px monospace";
       ctx.textAlign = "center";
       ctx.textBaseline = "middle";
-      ctx.fillText(`HP ${state.hp}%`, barX + barW / 2, barY + barH / 2);
+      ctx.fillText(t("hud.hp", { hp: state.hp, max: state.maxHp }), barX + barW / 2, barY + barH / 2);
 
       // Attack legend
       ctx.textAlign = "left";
       ctx.font = "11px monospace";
       ctx.fillStyle = "rgba(0,255,204,0.6)";
-      ctx.fillText("Click anywhere: Wave (-10 SUI)  |  Hold 2s: Strong Wave (-30 SUI)", 18, HEIGHT - 24);
+      // Hold time drops while the speed power-up is active
+      ctx.fillText(
+        t("hud.legend", {
+          cost: waveCost(state, false),
+          hold: chargeThreshold(state) / 1000,
+          strongCost: waveCost(state, true),
+        }),
+        18,
+        HEIGHT - 24,
+      );
+
+      // Run seed — quote it in bug reports to reproduce the run
+      ctx.textAlign = "right";
+      ctx.fillStyle = "rgba(255,255,255,0.3)";
+      ctx.fillText(t("hud.seed", { seed: String(state.rng.seed) }), WIDTH - 18, HEIGHT - 24);
+
+      // Boss stage banner, fading out as the new stage gets going
+      if (state.boss && state.boss.stage > 0 && state.boss.stageTimer < 2000) {
+        const { name, enraged } = currentStage(state.boss);
+        ctx.globalAlpha = 1 - state.boss.stageTimer / 2000;
+        ctx.textAlign = "center";
+        const color = enraged ? "#ff0033" : BOSS_COLORS[state.boss.type];
+        ctx.fillStyle = color;
+        ctx.shadowColor = color;
+        ctx.shadowBlur = 20;
+        ctx.font = "bold 36px monospace";
+        ctx.fillText(t(enraged ? "hud.stageEnraged" : "hud.stage", { stage: t(name) }), CENTER_X, CENTER_Y + 140);
+        ctx.shadowBlur = 0;
+        ctx.globalAlpha = 1;
+      }
+
+      // Endless level-up banner, fading out over the level's first seconds
+      if (state.endless && state.endless.levelTimer < 2500) {
+        ctx.globalAlpha = 1 - state.endless.levelTimer / 2500;
+        ctx.textAlign = "center";
+        ctx.fillStyle = "#ff66ff";
+        ctx.shadowColor = "#ff00ff";
+        ctx.shadowBlur = 20;
+        ctx.font = "bold 40px monospace";
+        ctx.fillText(t("hud.levelUp", { level: state.endless.level }), CENTER_X, CENTER_Y - 140);
+        ctx.shadowBlur = 0;
+        ctx.globalAlpha = 1;
+      }
 
       ctx.restore();
     };
 
+    // Achievement toasts slide in under the title, stack, and fade out
+    const drawToasts = (ctx: CanvasRenderingContext2D, now: number) => {
+      const { t } = i18nRef.current;
+      toastsRef.current = toastsRef.current.filter(toast => now - toast.shownAt < TOAST_MS);
+      toastsRef.current.forEach((toast, i) => {
+        const { icon } = ACHIEVEMENTS[toast.id];
+        const age = now - toast.shownAt;
+        const slide = Math.min(age / 250, 1);
+        const fade = Math.min((TOAST_MS - age) / 500, 1);
+        const w = 300;
+        const h = 44;
+        const x = CENTER_X - w / 2;
+        const y = 34 + i * (h + 8) - (1 - slide) * 30;
+        ctx.save();
+        ctx.globalAlpha = slide * fade;
+        ctx.fillStyle = "rgba(10,8,2,0.88)";
+        ctx.strokeStyle = "#ffd700";
+        ctx.lineWidth = 2;
+        ctx.shadowColor = "#ffd700";
+        ctx.shadowBlur = 14;
+        ctx.beginPath();
+        ctx.roundRect(x, y, w, h, 8);
+        ctx.fill();
+        ctx.stroke();
+        ctx.shadowBlur = 0;
+        ctx.textBaseline = "middle";
+        ctx.textAlign = "left";
+        ctx.font = "22px monospace";
+        ctx.fillText(icon, x + 12, y + h / 2);
+        ctx.fillStyle = "rgba(255,215,0,0.7)";
+        ctx.font = "10px monospace";
+        ctx.fillText(t("hud.achievement"), x + 48, y + 14);
+        ctx.fillStyle = "#ffffff";
+        ctx.font = "bold 14px monospace";
+        ctx.fillText(t(`achievement.${toast.id}.title`), x + 48, y + 30);
+        ctx.restore();
+      });
+    };
+
     const drawPauseOverlay = (ctx: CanvasRenderingContext2D) => {
+      const { t } = i18nRef.current;
       ctx.save();
       ctx.fillStyle = "rgba(0,0,0,0.55)";
       ctx.fillRect(0, 0, WIDTH, HEIGHT);
@@ -2081,15 +1903,17 @@ export default function Game() {
       ctx.shadowBlur = 30;
       ctx.fillStyle = "#00c8ff";
       ctx.font = "bold 52px monospace";
-      ctx.fillText("PAUSED", CENTER_X, CENTER_Y - 30);
+      ctx.fillText(t("pause.title"), CENTER_X, CENTER_Y - 30);
       ctx.shadowBlur = 0;
       ctx.fillStyle = "rgba(255,255,255,0.6)";
       ctx.font = "18px monospace";
-      ctx.fillText("Press P or click Pause to resume", CENTER_X, CENTER_Y + 30);
+      const key = keyLabel(bindingsRef.current.keys.pause[0], t);
+      ctx.fillText(t("pause.hint", { key }), CENTER_X, CENTER_Y + 30);
       ctx.restore();
     };
 
     const drawGameOver = (ctx: CanvasRenderingContext2D, state: GameState) => {
+      const { t } = i18nRef.current;
       ctx.save();
       ctx.fillStyle = "rgba(0,0,0,0.7)";
       ctx.fillRect(0, 0, WIDTH, HEIGHT);
@@ -2100,293 +1924,294 @@ export default function Game() {
       ctx.shadowBlur = 30;
       ctx.fillStyle = "#ff4466";
       ctx.font = "bold 56px monospace";
-      ctx.fillText("GAME OVER", CENTER_X, CENTER_Y - 70);
+      ctx.fillText(t("gameOver.title"), CENTER_X, CENTER_Y - 70);
 
       ctx.shadowColor = "#ffd700";
       ctx.shadowBlur = 15;
       ctx.fillStyle = "#ffd700";
       ctx.font = "bold 32px monospace";
-      ctx.fillText(`Final Score: $${state.score.toLocaleString()} SUI`, CENTER_X, CENTER_Y - 10);
+      ctx.fillText(t("result.finalScore", { score: state.score }), CENTER_X, CENTER_Y - 10);
+
+      if (state.endless) {
+        ctx.shadowBlur = 0;
+        ctx.fillStyle = "#ff66ff";
+        ctx.font = "bold 18px monospace";
+        ctx.fillText(t("gameOver.endless", { level: state.endless.level }), CENTER_X, CENTER_Y + 26);
+      }
 
       ctx.shadowBlur = 0;
       ctx.restore();
     };
 
-    // ── Game loop ─────────────────────────────────────────────────────────────
-    const gameLoop = (timestamp: number) => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
-
-      const elapsed = timestamp - lastTimeRef.current;
-      if (elapsed < 1000 / FPS) {
-        animFrameRef.current = requestAnimationFrame(gameLoop);
-        return;
+    // ── Run end: persist score, update leaderboard, stop music ──────────────
+    // The only way a run ends: every death and every victory reaches here
+    // through the simulation's single `runEnded` event
+    const finishRun = (outcome: RunOutcome, score: number) => {
+      if (gamePhaseRef.current !== "playing") return;
+      const state = stateRef.current;
+      if (score > state.highScore) {
+        state.highScore = score;
+        saveHighScore(score);
       }
-      lastTimeRef.current = timestamp;
+      // Save score locally (works offline); the server ranking only takes the
+      // run together with its replay, which it re-simulates to verify
+      const name = playerNameRef.current || "Player";
+      addScoreToLeaderboard(state.mode, name, score);
+      leaderboardModeRef.current = state.mode;
+      setLeaderboardMode(state.mode);
+      setFinalScore(score);
+      const recorder = recorderRef.current;
+      if (recorder) {
+        recorderRef.current = null;
+        const replay = finishRecording(recorder, score, new Date().toISOString());
+        setSavedReplays(storeReplay(replay));
+        // Runs with upgrades, from a later phase or too long for the server to
+        // re-simulate stay on the local ranking only; the last is worth saying
+        setTooLongToRank(isTooLongToRank(replay));
+        if (isRankedRun(replay)) {
+          void sendScore({ name, replay }).then(() => {
+            refreshTopPlayers();
+            void pendingScoreCount().then(setPendingScores);
+          });
+        }
+      }
+      const nextPhase = outcome === "victory" ? "phasecomplete" : "gameover";
+      gamePhaseRef.current = nextPhase;
+      setGamePhase(nextPhase);
+      stopTrack();
+    };
 
-      const state = stateRef.current;
-      const phase = gamePhaseRef.current;
+    // ── Simulation events → audio / UI ────────────────────────────────────
+    // Each system subscribes to the events it reacts to; the loop only
+    // publishes what `step` returned.
+    const bus = createEventBus();
+    const live = () => gamePhaseRef.current === "playing";
+
+    // Achievements — live runs only, before runEnded moves on to game over
+    bus.onAny(event => {
+      const tracker = achievementTrackerRef.current;
+      if (!tracker || !live()) return;
+      const earned = trackAchievements(tracker, event);
+      if (earned.length === 0) return;
+      const now = performance.now();
+      for (const id of earned) toastsRef.current.push({ id, shownAt: now });
+      setUnlockedAchievements({ ...tracker.unlocked });
+      playAchievementSound();
+    });
 
-      // Apply screen shake
-      if (state.screenShake.timer > 0) {
-        state.screenShake.timer--;
-        state.screenShake.x = (Math.random() - 0.5) * 10;
-        state.screenShake.y = (Math.random() - 0.5) * 10;
+    // Analytics — live runs only, logged once the run ends
+    bus.onAny(event => {
+      const tally = runTallyRef.current;
+      if (!tally || !live()) return;
+      const run = tallyEvent(tally, event);
+      if (!run) return;
+      runTallyRef.current = null;
+      saveRunAnalytics(run);
+    });
+
+    // Audio
+    bus.on("waveFired", event => playShootSound(event.strong));
+    bus.on("meteorKilled", event => playExplosionSound(event.coin));
+    bus.on("meteorDamaged", event => playArmorSound(event.blocked));
+    bus.on("suiHit", () => playHitSound());
+    bus.on("powerUpCollected", event => playPowerUpSound(event.powerUp));
+    bus.on("bossStage", event => playBossStageSound(event.enraged));
+
+    // Visual effects — replays included, so they look like the run did
+    const fx = () => effectsRef.current;
+    bus.on("meteorKilled", event => {
+      const color = ENEMIES[event.coin].palette.primary;
+      explode(fx(), event.x, event.y, color, 22);
+      flash(fx(), color, 0.45);
+      shakeScreen(fx(), 100);
+    });
+    bus.on("meteorDamaged", event => {
+      if (event.blocked) explode(fx(), event.x, event.y, "#9be7ff", 6);
+      else explode(fx(), event.x, event.y, "#c0c8d0", 8);
+    });
+    bus.on("meteorShielded", event => {
+      explode(fx(), event.x, event.y, "#00ffff", 20);
+      shakeScreen(fx(), 133);
+    });
+    bus.on("suiHit", event => {
+      if (event.from === "meteor") {
+        explode(fx(), event.x, event.y, event.color, 14);
+        shakeSui(fx(), 333);
+        shakeScreen(fx(), 250);
       } else {
-        state.screenShake.x = 0;
-        state.screenShake.y = 0;
+        explode(fx(), event.x, event.y, event.color, 10);
+        shakeSui(fx(), 133);
+        flash(fx(), event.color, 0.2);
       }
+    });
+    bus.on("bossHit", event => {
+      explode(fx(), event.x, event.y, BOSS_COLORS[event.boss], 30);
+      flash(fx(), BOSS_COLORS[event.boss], 0.3);
+      shakeScreen(fx(), 167);
+    });
+    bus.on("bossDefeated", event => {
+      explode(fx(), event.x, event.y, BOSS_COLORS[event.boss], 100);
+      flash(fx(), BOSS_COLORS[event.boss], 0.8);
+      shakeScreen(fx(), 500);
+    });
+    bus.on("bossStage", event => {
+      flash(fx(), event.enraged ? "#ff0033" : BOSS_COLORS[event.boss], 0.6);
+      shakeScreen(fx(), 400);
+    });
+    bus.on("bossSpawned", event => flash(fx(), BOSS_COLORS[event.boss], 0.5));
+    bus.on("phaseChanged", event => flash(fx(), CAMPAIGN[event.level].theme.accent, 0.5));
+    bus.on("endlessLevel", () => flash(fx(), "#ff00ff", 0.4));
 
-      ctx.save();
-      ctx.translate(state.screenShake.x, state.screenShake.y);
-
-      drawBackground(ctx, state, timestamp);
+    // Rumble
+    bus.on("suiHit", () => {
+      if (live()) rumble(getGamepad(), 200, 0.8);
+    });
+    bus.on("bossStage", event => {
+      if (live()) rumble(getGamepad(), 300, event.enraged ? 1 : 0.6);
+    });
 
-      if (phase === "playing") {
-        // Spawn meteors — spawn 4-5 at a time (more in phase 2)
-        state.spawnTimer++;
-        if (state.spawnTimer >= state.spawnInterval) {
-          state.spawnTimer = 0;
-          // Spawn 4-5 meteors in phase 1, 5-7 in phase 2
-          const baseCount = state.currentPhase === 1 ? 4 : 5;
-          const extraCount = state.currentPhase === 1 ? 2 : 3;
-          const count = baseCount + Math.floor(Math.random() * extraCount);
-          for (let i = 0; i < count; i++) {
-            state.meteors.push(spawnMeteor(state.nextMeteorId++, state.currentPhase));
-          }
-          state.spawnInterval = Math.max(state.currentPhase === 1 ? 40 : 30, state.spawnInterval - 0.3);
-        }
+    // Campaign progress — replays and imported runs never unlock phases
+    bus.on("phaseChanged", event => {
+      if (live()) setUnlockedLevel(unlockLevel(playerNameRef.current || "Player", event.level));
+    });
 
-        // Spawn power-ups occasionally
-        state.powerUpTimer++;
-        if (state.powerUpTimer >= 300) { // Every ~5 seconds
-          state.powerUpTimer = 0;
-          if (Math.random() < 0.5 && state.powerUps.length < 2) {
-            const types: PowerUpType[] = ["shield", "speed", "multiplier", "heal"];
-            const type = types[Math.floor(Math.random() * types.length)];
-            // Spawn at random position away from center
-            const angle = Math.random() * Math.PI * 2;
-            const dist = 150 + Math.random() * 200;
-            state.powerUps.push({
-              id: state.nextPowerUpId++,
-              type,
-              x: CENTER_X + Math.cos(angle) * dist,
-              y: CENTER_Y + Math.sin(angle) * dist,
-              radius: 18,
-              pulse: 0,
-            });
-          }
-        }
+    // Player stats, then the run lifecycle itself
+    bus.on("runEnded", event => {
+      if (!live()) return;
+      const state = stateRef.current;
+      const name = playerNameRef.current || "Player";
+      recordRun(name, { mode: state.mode, outcome: event.outcome, score: event.score, durationMs: state.time, stats: state.stats });
+      setShop(bankRun(name, event.score));
+      setLastBanked(bankedShare(event.score));
+    });
+    bus.on("runEnded", event => finishRun(event.outcome, event.score));
+
+    // ── Keyboard / gamepad aim: move the reticle for one tick ──────────────
+    const moveAim = (input: StepInput, pad: Gamepad | null, dt: number) => {
+      const held = heldAimKeysRef.current;
+      let dx = (held.has("right") ? 1 : 0) - (held.has("left") ? 1 : 0);
+      let dy = (held.has("down") ? 1 : 0) - (held.has("up") ? 1 : 0);
+      if (pad) {
+        const stick = readStick(pad);
+        dx += stick.x;
+        dy += stick.y;
+      }
+      if (dx === 0 && dy === 0) return;
+      const len = Math.hypot(dx, dy);
+      const dist = AIM_SPEED * (dt / 1000) * Math.min(len, 1);
+      input.aimX = Math.min(Math.max(input.aimX + (dx / len) * dist, 0), WIDTH);
+      input.aimY = Math.min(Math.max(input.aimY + (dy / len) * dist, 0), HEIGHT);
+    };
 
-        // Update power-ups (pulse animation and collection)
-        for (let i = state.powerUps.length - 1; i >= 0; i--) {
-          const p = state.powerUps[i];
-          p.pulse += 0.1;
-          // Check if player wave hits power-up
-          for (const w of state.waves) {
-            const dx = p.x - w.x;
-            const dy = p.y - w.y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-            if (Math.abs(dist - w.radius) < 20 + p.radius) {
-              // Collected!
-              state.activePowerUps.push({ type: p.type, duration: 600 }); // 10 seconds
-              state.powerUps.splice(i, 1);
-              playPowerUpSound(p.type);
-              break;
-            }
+    // Gamepads have no events: turn button state into edges once per frame
+    const pollGamepad = (pad: Gamepad | null) => {
+      const held = padHeldRef.current;
+      const pads = bindingsRef.current.pad;
+      const input = controlsRef.current;
+      for (const action of PAD_ACTIONS) {
+        const down = !!pad && isPadButtonDown(pad, pads[action]);
+        if (down === held[action]) continue;
+        held[action] = down;
+        if (action === "pause") {
+          if (down) togglePause();
+        } else if (gamePhaseRef.current === "playing") {
+          if (action === "fire") {
+            if (down) input.pressed = true;
+            else input.released = true;
+          } else if (down) {
+            input.strong = true;
           }
         }
+      }
+    };
 
-        // Update active power-ups
-        for (let i = state.activePowerUps.length - 1; i >= 0; i--) {
-          state.activePowerUps[i].duration--;
-          if (state.activePowerUps[i].duration <= 0) {
-            state.activePowerUps.splice(i, 1);
-          }
-        }
+    // ── Game loop ─────────────────────────────────────────────────────────────
+    const gameLoop = (timestamp: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
 
-        // Update combo timer
-        if (state.comboTimer > 0) {
-          state.comboTimer--;
-          if (state.comboTimer <= 0) {
-            state.combo = 0;
-          }
-        }
+      // Render every display frame; cap the gap after a stall (background tab)
+      const frameTime = Math.min(timestamp - lastTimeRef.current, MAX_FRAME_MS);
+      lastTimeRef.current = timestamp;
 
-        // Update meteors
-        for (let i = state.meteors.length - 1; i >= 0; i--) {
-          const m = state.meteors[i];
-          m.x += m.vx;
-          m.y += m.vy;
-          m.rotation += m.rotSpeed;
+      const pad = getGamepad();
+      pollGamepad(pad);
+      const phase = gamePhaseRef.current;
+      const input = controlsRef.current;
 
-          const dx = m.x - CENTER_X;
-          const dy = m.y - CENTER_Y;
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          
-          // Check for shield power-up
-          const hasShield = state.activePowerUps.some(p => p.type === "shield");
-          const shieldRadius = SUI_RADIUS + 30;
-          
-          if (hasShield && dist < shieldRadius + m.radius) {
-            // Shield blocks the meteor
-            createExplosion(state.particles, m.x, m.y, "#00ffff", 20);
-            state.meteors.splice(i, 1);
-            state.screenShake = { x: 0, y: 0, timer: 8 };
-          } else if (dist < SUI_RADIUS + m.radius - 10) {
-            createExplosion(state.particles, m.x, m.y, COIN_COLORS[m.type].primary, 14);
-            state.meteors.splice(i, 1);
-            state.hp = Math.max(0, state.hp - 10);
-            state.suiShake = { x: 0, y: 0, timer: 20 };
-            state.screenShake = { x: 0, y: 0, timer: 15 };
-            playHitSound();
-            if (state.hp <= 0) {
-              state.gameOver = true;
-              // Save high score
-              if (state.score > state.highScore) {
-                state.highScore = state.score;
-                localStorage.setItem("dogSuiDefenderHighScore", state.score.toString());
-              }
-              // Save score to leaderboard
-              const name = playerNameRef.current || "Player";
-              addScoreToLeaderboard(name, state.score);
-              setTopPlayers(getTopPlayers());
-              gamePhaseRef.current = "gameover";
-              setGamePhase("gameover");
-              stopMusic();
-            }
-          }
+      // Fixed-timestep simulation: bank real time and spend it in TICK_MS steps,
+      // then draw purely from state, blended between the last two ticks
+      let alpha = 1;
+      if (phase === "playing") {
+        accumulatorRef.current += frameTime;
+        while (accumulatorRef.current >= TICK_MS && gamePhaseRef.current === "playing") {
+          const state = stateRef.current;
+          moveAim(input, pad, TICK_MS);
+          // Step with the recorded (canonical) input so the replay matches exactly
+          const tickInput = recorderRef.current ? recordTick(recorderRef.current, input) : input;
+          bus.emitAll(step(state, tickInput, TICK_MS));
+          input.pressed = false;
+          input.released = false;
+          input.strong = false;
+          accumulatorRef.current -= TICK_MS;
         }
-
-        // Update boss (both phases)
-        if (state.boss && !state.bossDefeated) {
-          const boss = state.boss;
-          boss.rotation += boss.rotSpeed;
-          boss.attackTimer++;
-          
-          // Boss movement - orbits around center
-          if (boss.y < 150) {
-            boss.y += boss.vy;
-          } else {
-            // Orbit pattern
-            const orbitSpeed = boss.type === "PEPE_KING" ? 0.006 : 0.01;
-            const orbitRadius = boss.type === "PEPE_KING" ? 180 : 220;
-            const angle = Date.now() * orbitSpeed;
-            boss.x = CENTER_X + Math.cos(angle) * orbitRadius;
-            boss.y = 150 + Math.sin(angle) * 50;
-          }
-          
-          // Boss spawns minions periodically
-          const spawnRate = boss.type === "PEPE_KING" ? 150 : 100;
-          if (boss.attackTimer % spawnRate === 0) {
-            // Spawn minions based on phase
-            const count = boss.type === "PEPE_KING" ? 2 : 3;
-            const phase = boss.type === "PEPE_KING" ? 1 : 2;
-            for (let i = 0; i < count; i++) {
-              const minion = spawnMeteor(state.nextMeteorId++, phase);
-              minion.x = boss.x + (Math.random() - 0.5) * 100;
-              minion.y = boss.y + (Math.random() - 0.5) * 100;
-              state.meteors.push(minion);
-            }
+        alpha = Math.min(accumulatorRef.current / TICK_MS, 1);
+        // The soundtrack follows the state; a run that just ended already stopped it
+        if (gamePhaseRef.current === "playing") updateMusic(stateRef.current);
+      } else if (phase === "replay") {
+        const playback = playbackRef.current;
+        if (playback && !replayPausedRef.current) {
+          const before = playback.tick;
+          accumulatorRef.current += frameTime * replaySpeedRef.current;
+          while (accumulatorRef.current >= TICK_MS && !isPlaybackDone(playback)) {
+            // Replays reuse the sound effects but never end a run
+            bus.emitAll(advancePlayback(playback).filter(event => event.type !== "runEnded"));
+            accumulatorRef.current -= TICK_MS;
           }
-          
-          // Boss fires projectiles at SUI - not too often, not too strong
-          const projectileRate = boss.type === "PEPE_KING" ? 80 : 60; // PEPE slower, BONK faster
-          if (boss.attackTimer % projectileRate === 0 && boss.y > 100) {
-            const projectile = spawnBossProjectile(state.nextMeteorId++, boss.x, boss.y, boss.type);
-            state.bossProjectiles.push(projectile);
-          }
-          
-          // Check if waves hit boss
-          for (let i = state.waves.length - 1; i >= 0; i--) {
-            const w = state.waves[i];
-            const dx = boss.x - w.x;
-            const dy = boss.y - w.y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-            const ringThickness = w.strong ? 20 : 12;
-            
-            if (Math.abs(dist - w.radius) < ringThickness + boss.radius) {
-              const damage = w.strong ? 25 : 10;
-              boss.hp -= damage;
-              const bossColor = boss.type === "PEPE_KING" ? "#00FF88" : "#FF6B35";
-              createExplosion(state.particles, boss.x, boss.y, bossColor, 30);
-              state.bgFlash = { color: bossColor, alpha: 0.3 };
-              state.screenShake = { x: 0, y: 0, timer: 10 };
-              
-              // Score for hitting boss
-              state.score += damage;
-              state.scorePopups.push({
-                x: boss.x,
-                y: boss.y - boss.radius,
-                value: damage,
-                life: 1,
-                maxLife: 1,
-                color: bossColor,
-              });
-              
-              if (boss.hp <= 0) {
-                // Boss defeated!
-                state.bossDefeated = true;
-                const bonus = boss.type === "PEPE_KING" ? 500 : 1000; // Higher bonus for tougher boss
-                state.score += bonus;
-                createExplosion(state.particles, boss.x, boss.y, bossColor, 100);
-                state.bgFlash = { color: bossColor, alpha: 0.8 };
-                state.screenShake = { x: 0, y: 0, timer: 30 };
-                state.boss = null;
-              }
-              break;
-            }
-          }
-          
-          // Update boss projectiles
-          for (let i = state.bossProjectiles.length - 1; i >= 0; i--) {
-            const proj = state.bossProjectiles[i];
-            proj.x += proj.vx;
-            proj.y += proj.vy;
-            
-            // Check collision with SUI
-            const dx = proj.x - CENTER_X;
-            const dy = proj.y - CENTER_Y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-            
-            if (dist < SUI_RADIUS + proj.radius) {
-              // Hit SUI - deal damage
-              state.hp -= proj.damage;
-              createExplosion(state.particles, proj.x, proj.y, proj.color, 10);
-              state.suiShake = { x: 0, y: 0, timer: 8 };
-              state.bgFlash = { color: proj.color, alpha: 0.2 };
-              state.bossProjectiles.splice(i, 1);
-              
-              if (state.hp <= 0) {
-                state.hp = 0;
-                state.gameOver = true;
-              }
-              continue;
-            }
-            
-            // Remove if off screen
-            if (proj.x < -50 || proj.x > WIDTH + 50 || proj.y < -50 || proj.y > HEIGHT + 50) {
-              state.bossProjectiles.splice(i, 1);
-            }
+          alpha = Math.min(accumulatorRef.current / TICK_MS, 1);
+          if (isPlaybackDone(playback)) {
+            accumulatorRef.current = 0;
+            alpha = 1;
+            replayPausedRef.current = true;
+            setReplayPaused(true);
+            setReplayTick(playback.tick);
+          } else if (Math.floor(before / REPLAY_UI_TICKS) !== Math.floor(playback.tick / REPLAY_UI_TICKS)) {
+            setReplayTick(playback.tick);
           }
         }
+      } else {
+        accumulatorRef.current = 0;
+        stepIdle(stateRef.current, input, frameTime);
       }
+      const state = stateRef.current;
+      // Effects play out in real time, whatever the simulation is doing
+      const effects = effectsRef.current;
+      updateEffects(effects, frameTime);
+
+      // Draw in logical coordinates whatever the backing-store resolution
+      const renderScale = renderScaleRef.current;
+      ctx.setTransform(renderScale, 0, 0, renderScale, 0, 0);
+
+      ctx.save();
+      ctx.translate(effects.screenShake.x, effects.screenShake.y);
+
+      drawBackground(ctx, state, timestamp);
 
       // Draw meteors
       for (const m of state.meteors) {
-        drawMeteor(ctx, m);
+        drawMeteor(ctx, m, alpha, state.time);
       }
 
       // Draw boss (both phases)
       if (state.boss && !state.bossDefeated) {
-        drawBoss(ctx, state.boss);
+        drawBoss(ctx, state.boss, alpha);
         
         // Draw boss projectiles
         for (const proj of state.bossProjectiles) {
           ctx.save();
-          ctx.translate(proj.x, proj.y);
+          ctx.translate(lerp(proj.prevX, proj.x, alpha), lerp(proj.prevY, proj.y, alpha));
           
           // Glow effect
           ctx.shadowColor = proj.color;
@@ -2414,9 +2239,10 @@ export default function Game() {
         const barY = HEIGHT - 60;
         
         // Boss colors based on type
-        const bossColor = state.boss.type === "PEPE_KING" ? "#00FF88" : "#FF6B35";
+        const bossColor = BOSS_COLORS[state.boss.type];
         const bossColor2 = state.boss.type === "PEPE_KING" ? "#00A86B" : "#FFA500";
-        const bossName = state.boss.type === "PEPE_KING" ? "👑 PEPE KING" : "🔥 BONK BOSS";
+        const { t } = i18nRef.current;
+        const bossName = `${t(BOSSES[state.boss.type].name)} · ${t(currentStage(state.boss).name)}`;
         
         // Background with glow
         ctx.shadowColor = bossColor;
@@ -2453,6 +2279,12 @@ export default function Game() {
         ctx.roundRect(barX, barY, barW * hpFrac, barH, 4);
         ctx.fill();
         ctx.shadowBlur = 0;
+
+        // Stage thresholds: where the script changes
+        ctx.fillStyle = "rgba(255,255,255,0.6)";
+        for (const stage of BOSSES[state.boss.type].stages.slice(1)) {
+          ctx.fillRect(barX + barW * stage.belowHp - 1, barY, 2, barH);
+        }
         
         // Border
         ctx.strokeStyle = bossColor;
@@ -2466,20 +2298,20 @@ export default function Game() {
         ctx.font = "bold 14px monospace";
         ctx.textAlign = "center";
         ctx.textBaseline = "middle";
-        ctx.fillText(`${state.boss.hp} / ${state.boss.maxHp} HP`, CENTER_X, barY + barH / 2);
+        ctx.fillText(t("boss.hp", { hp: state.boss.hp, max: state.boss.maxHp }), CENTER_X, barY + barH / 2);
         
         // Damage indicator (how much damage each attack does)
         ctx.fillStyle = "rgba(255,255,255,0.5)";
         ctx.font = "10px monospace";
-        ctx.fillText("Simple: -10 HP  |  Strong: -25 HP", CENTER_X, barY + barH + 8);
+        ctx.fillText(t("boss.damage"), CENTER_X, barY + barH + 8);
       }
 
       // Draw SUI coin
       drawSUI(ctx, state);
 
-      // Draw waves (and handle hit detection)
-      if (phase === "playing") {
-        drawWaves(ctx, state);
+      // Draw waves
+      if (phase === "playing" || phase === "replay") {
+        drawWaves(ctx, state, alpha);
       } else {
         // Still draw existing waves even when paused (cosmetic)
         for (const w of state.waves) {
@@ -2546,13 +2378,30 @@ export default function Game() {
         ctx.lineWidth = 3;
         ctx.shadowColor = "#00ffff";
         ctx.shadowBlur = 20;
-        ctx.globalAlpha = 0.5 + Math.sin(Date.now() * 0.005) * 0.2;
+        ctx.globalAlpha = 0.5 + Math.sin(state.time * 0.005) * 0.2;
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      // Speed power-up: spinning dashed ring around SUI
+      if (state.activePowerUps.some(p => p.type === "speed")) {
+        ctx.save();
+        ctx.translate(CENTER_X, CENTER_Y);
+        ctx.rotate(state.time * 0.004);
+        ctx.beginPath();
+        ctx.arc(0, 0, SUI_RADIUS + 18, 0, Math.PI * 2);
+        ctx.setLineDash([10, 14]);
+        ctx.strokeStyle = "#ffff00";
+        ctx.lineWidth = 2;
+        ctx.shadowColor = "#ffff00";
+        ctx.shadowBlur = 12;
+        ctx.globalAlpha = 0.6 + Math.sin(state.time * 0.012) * 0.2;
         ctx.stroke();
         ctx.restore();
       }
 
       // Draw particles
-      drawParticles(ctx, state.particles);
+      drawParticles(ctx, effects.particles);
 
       // Draw score popups
       drawScorePopups(ctx, state.scorePopups);
@@ -2563,8 +2412,8 @@ export default function Game() {
       }
 
       // Draw crosshair
-      if (phase === "playing" || phase === "paused") {
-        const charging = state.mouseDownTime !== null;
+      if (phase === "playing" || phase === "paused" || phase === "replay") {
+        const charging = state.chargeTime !== null;
         drawCrosshair(ctx, state.mouseX, state.mouseY, charging, state.chargeProgress);
       }
 
@@ -2574,6 +2423,7 @@ export default function Game() {
       } else if (phase === "gameover") {
         drawGameOver(ctx, state);
       }
+      drawToasts(ctx, timestamp);
 
       ctx.restore(); // Restore from screen shake transform
 
@@ -2582,127 +2432,356 @@ export default function Game() {
 
     animFrameRef.current = requestAnimationFrame(gameLoop);
 
-    // Keyboard shortcut for pause
+    // Keyboard: bound keys aim, fire, fire strong and pause
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "p" || e.key === "P" || e.key === "Escape") {
-        togglePause();
+      const phase = gamePhaseRef.current;
+      if (phase !== "playing" && phase !== "paused") return;
+      const action = actionForKey(bindingsRef.current, e.code);
+      if (!action) return;
+      e.preventDefault(); // Space would scroll, Shift+… would trigger shortcuts
+      if (action === "pause") {
+        if (!e.repeat) togglePause();
+        return;
+      }
+      if (action === "mute") {
+        if (!e.repeat) switchMute();
+        return;
+      }
+      if (phase !== "playing") return;
+      if (action === "fire") {
+        if (!e.repeat) controlsRef.current.pressed = true;
+      } else if (action === "strong") {
+        if (!e.repeat) controlsRef.current.strong = true;
+      } else {
+        heldAimKeysRef.current.add(action);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const action = actionForKey(bindingsRef.current, e.code);
+      if (!action) return;
+      if (action === "fire") {
+        if (gamePhaseRef.current === "playing") controlsRef.current.released = true;
+      } else {
+        heldAimKeysRef.current.delete(action);
       }
     };
+    // Keys released while the window is unfocused never send keyup
+    const handleBlur = () => heldAimKeysRef.current.clear();
     window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
 
     return () => {
-      canvas.removeEventListener("mousemove", handleMouseMove);
-      canvas.removeEventListener("mousedown", handleMouseDown);
-      canvas.removeEventListener("mouseup", handleMouseUp);
+      canvas.removeEventListener("pointermove", handlePointerMove);
+      canvas.removeEventListener("pointerdown", handlePointerDown);
+      canvas.removeEventListener("pointerup", handlePointerUp);
+      canvas.removeEventListener("pointercancel", handlePointerUp);
       canvas.removeEventListener("contextmenu", handleContextMenu);
       window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
       cancelAnimationFrame(animFrameRef.current);
     };
-  }, [handleMouseDown, handleMouseUp, handleContextMenu, togglePause, restartGame]);
+  }, [aimAt, handlePointerDown, handlePointerUp, handleContextMenu, togglePause, switchMute, restartGame, refreshTopPlayers]);
+
+  // Key names for the how-to-play panel, in the current language
+  const keyName = (code: string | null) => keyLabel(code, i18n.t);
+  // …and the costs and HP the player's own upgrades give them
+  const ownedUpgrades = shop ? runLoadout(shop) : NO_UPGRADES;
+  const meteorHpShare = Math.round((METEOR_DAMAGE / upgradeValue(ownedUpgrades, "startingHp")) * 100);
 
   return (
     <div
-      className="flex flex-col items-center justify-center min-h-screen bg-[#020408]"
+      className="flex items-center justify-center w-screen h-[100dvh] overflow-hidden bg-[#020408]"
       style={{ cursor: "none" }}
     >
-      <div style={{ position: "relative", display: "inline-block" }}>
-        <canvas
-          ref={canvasRef}
-          width={WIDTH}
-          height={HEIGHT}
+      {/* Letterboxed playfield: canvas and overlays keep their logical 900×650 layout and are scaled together */}
+      <div style={{ width: WIDTH * viewScale, height: HEIGHT * viewScale, flexShrink: 0 }}>
+        <div
           style={{
-            maxWidth: "100%",
-            maxHeight: "100vh",
-            display: "block",
-            cursor: "none",
-            borderRadius: "16px",
-            border: "1px solid rgba(0,200,255,0.2)",
-            boxShadow: "0 0 60px rgba(0,200,255,0.15), 0 0 120px rgba(0,100,200,0.1)",
+            position: "relative",
+            width: WIDTH,
+            height: HEIGHT,
+            transform: `scale(${viewScale})`,
+            transformOrigin: "top left",
           }}
-        />
-
-        {/* Login screen overlay */}
-        {gamePhase === "login" && (
-          <div
+        >
+          <canvas
+            ref={canvasRef}
+            width={WIDTH}
+            height={HEIGHT}
             style={{
-              position: "absolute",
-              inset: 0,
-              display: "flex",
-              flexDirection: "column",
-              alignItems: "center",
-              justifyContent: "center",
+              width: WIDTH,
+              height: HEIGHT,
+              display: "block",
+              cursor: "none",
+              touchAction: "none",
               borderRadius: "16px",
-              background: "rgba(2,4,8,0.95)",
-              gap: "24px",
+              border: "1px solid rgba(0,200,255,0.2)",
+              boxShadow: "0 0 60px rgba(0,200,255,0.15), 0 0 120px rgba(0,100,200,0.1)",
             }}
-          >
-            {/* Title */}
-            <div style={{ textAlign: "center" }}>
-              {/* Logo do jogo */}
-              <div style={{ marginBottom: "16px" }}>
-                <img
-                  src="https://ipfs.io/ipfs/QmaF3N8z338Z3x8z3x8z3x8z3x8z3x8z3x8z3x8z3x8z3"
-                  alt="DOGSUI-DEFENDER Logo"
-                  style={{ width: "200px", height: "200px", objectFit: "contain" }}
-                />
+          />
+
+          {/* Login screen overlay */}
+          {gamePhase === "login" && (
+            <div
+              style={{
+                position: "absolute",
+                inset: 0,
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                justifyContent: "center",
+                borderRadius: "16px",
+                background: "rgba(2,4,8,0.95)",
+                gap: "24px",
+              }}
+            >
+              {/* Title */}
+              <div style={{ textAlign: "center" }}>
+                {/* Logo do jogo */}
+                <div style={{ marginBottom: "16px" }}>
+                  <img
+                    src="https://ipfs.io/ipfs/QmaF3N8z338Z3x8z3x8z3x8z3x8z3x8z3x8z3x8z3x8z3"
+                    alt={i18n.t("login.logoAlt")}
+                    style={{ width: "200px", height: "200px", objectFit: "contain" }}
+                  />
+                </div>
+                <div
+                  style={{
+                    fontSize: "42px",
+                    fontWeight: "bold",
+                    fontFamily: "monospace",
+                    color: "#00c8ff",
+                    textShadow: "0 0 30px #00c8ff, 0 0 60px #0088cc",
+                    letterSpacing: "4px",
+                    marginBottom: "8px",
+                  }}
+                >
+                  ⚡ DOGSUI-DEFENDER ⚡
+                </div>
+                <div style={{ color: "rgba(255,255,255,0.6)", fontFamily: "monospace", fontSize: "14px" }}>
+                  {i18n.t("login.prompt")}
+                </div>
               </div>
+
+              {/* Login form */}
               <div
                 style={{
-                  fontSize: "42px",
-                  fontWeight: "bold",
-                  fontFamily: "monospace",
-                  color: "#00c8ff",
-                  textShadow: "0 0 30px #00c8ff, 0 0 60px #0088cc",
-                  letterSpacing: "4px",
-                  marginBottom: "8px",
+                  display: "flex",
+                  flexDirection: "column",
+                  alignItems: "center",
+                  gap: "16px",
                 }}
               >
-                ⚡ DOGSUI-DEFENDER ⚡
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={playerName}
+                  onChange={(e) => setPlayerName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleLogin();
+                  }}
+                  placeholder={i18n.t("login.placeholder")}
+                  maxLength={MAX_NAME_LENGTH}
+                  autoFocus
+                  style={{
+                    width: "280px",
+                    padding: "14px 20px",
+                    fontSize: "18px",
+                    fontFamily: "monospace",
+                    background: "rgba(0,200,255,0.1)",
+                    border: "2px solid rgba(0,200,255,0.4)",
+                    borderRadius: "10px",
+                    color: "#ffffff",
+                    outline: "none",
+                    textAlign: "center",
+                    textShadow: "0 0 10px rgba(0,200,255,0.5)",
+                  }}
+                />
+                <button
+                  onClick={handleLogin}
+                  style={{
+                    padding: "14px 48px",
+                    fontSize: "18px",
+                    fontWeight: "bold",
+                    fontFamily: "monospace",
+                    background: "linear-gradient(135deg, #00c8ff, #0066cc)",
+                    color: "#ffffff",
+                    border: "none",
+                    borderRadius: "10px",
+                    cursor: "pointer",
+                    boxShadow: "0 0 24px rgba(0,200,255,0.5)",
+                    letterSpacing: "2px",
+                    transition: "transform 0.1s, box-shadow 0.1s",
+                  }}
+                  onMouseEnter={e => {
+                    (e.target as HTMLButtonElement).style.transform = "scale(1.06)";
+                    (e.target as HTMLButtonElement).style.boxShadow = "0 0 40px rgba(0,200,255,0.8)";
+                  }}
+                  onMouseLeave={e => {
+                    (e.target as HTMLButtonElement).style.transform = "scale(1)";
+                    (e.target as HTMLButtonElement).style.boxShadow = "0 0 24px rgba(0,200,255,0.5)";
+                  }}
+                >
+                  {i18n.t("login.enter")}
+                </button>
               </div>
-              <div style={{ color: "rgba(255,255,255,0.6)", fontFamily: "monospace", fontSize: "14px" }}>
-                Digite seu nome para começar
+
+              {/* Language switcher — the browser's language is picked until one is chosen */}
+              <div style={{ display: "flex", gap: "8px", alignItems: "center", fontFamily: "monospace", fontSize: "12px" }}>
+                <span style={{ color: "rgba(255,255,255,0.5)" }}>🌐 {i18n.t("language.label")}</span>
+                {LOCALES.map(locale => (
+                  <button
+                    key={locale}
+                    onClick={() => changeLocale(locale)}
+                    style={{
+                      ...replayButtonStyle,
+                      padding: "4px 10px",
+                      fontSize: "11px",
+                      background: locale === i18n.locale ? "rgba(0,200,255,0.35)" : "rgba(0,200,255,0.1)",
+                    }}
+                  >
+                    {LOCALE_NAMES[locale]}
+                  </button>
+                ))}
               </div>
+
+              {/* Leaderboard preview */}
+              {topPlayers.length > 0 && (
+                <div
+                  style={{
+                    background: "rgba(255,215,0,0.08)",
+                    border: "1px solid rgba(255,215,0,0.3)",
+                    borderRadius: "12px",
+                    padding: "16px 24px",
+                    textAlign: "center",
+                    fontFamily: "monospace",
+                  }}
+                >
+                  <div style={{ color: "#ffd700", fontWeight: "bold", fontSize: "16px", marginBottom: "12px" }}>
+                    {i18n.t("login.topPlayers")}
+                  </div>
+                  {topPlayers.map((player, idx) => (
+                    <div
+                      key={idx}
+                      style={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        gap: "24px",
+                        padding: "4px 0",
+                        color: idx === 0 ? "#ffd700" : idx === 1 ? "#c0c0c0" : idx === 2 ? "#cd7f32" : "rgba(255,255,255,0.7)",
+                        fontSize: "14px",
+                      }}
+                    >
+                      <span>{idx + 1}. {player.name}</span>
+                      <span>${i18n.number(player.score)} SUI</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
+          )}
 
-            {/* Login form */}
+          {/* Start screen overlay */}
+          {gamePhase === "start" && (
             <div
               style={{
+                position: "absolute",
+                inset: 0,
                 display: "flex",
                 flexDirection: "column",
                 alignItems: "center",
-                gap: "16px",
+                justifyContent: "center",
+                borderRadius: "16px",
+                background: "rgba(2,4,8,0.88)",
+                gap: "18px",
               }}
             >
-              <input
-                ref={inputRef}
-                type="text"
-                value={playerName}
-                onChange={(e) => setPlayerName(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") handleLogin();
-                }}
-                placeholder="Seu nome de jogador"
-                maxLength={20}
-                autoFocus
+              {/* Title */}
+              <div style={{ textAlign: "center" }}>
+                {/* Logo do jogo */}
+                <div style={{ marginBottom: "16px" }}>
+                  <img
+                    src="https://ipfs.io/ipfs/QmaF3N8z338Z3x8z3x8z3x8z3x8z3x8z3x8z3x8z3x8z3"
+                    alt={i18n.t("login.logoAlt")}
+                    style={{ width: "200px", height: "200px", objectFit: "contain" }}
+                  />
+                </div>
+                <div
+                  style={{
+                    fontSize: "46px",
+                    fontWeight: "bold",
+                    fontFamily: "monospace",
+                    color: "#00c8ff",
+                    textShadow: "0 0 30px #00c8ff, 0 0 60px #0088cc",
+                    letterSpacing: "4px",
+                    marginBottom: "6px",
+                  }}
+                >
+                  ⚡ DOGSUI-DEFENDER ⚡
+                </div>
+                <div style={{ color: "rgba(255,255,255,0.55)", fontFamily: "monospace", fontSize: "13px" }}>
+                  {i18n.t("start.tagline")}
+                </div>
+                <div style={{ color: "rgba(255,165,0,0.8)", fontFamily: "monospace", fontSize: "11px", marginTop: "8px", letterSpacing: "1px" }}>
+                  {i18n.t("start.prototype")}
+                </div>
+              </div>
+
+              {/* Instructions box */}
+              <div
                 style={{
-                  width: "280px",
-                  padding: "14px 20px",
-                  fontSize: "18px",
+                  background: "rgba(0,200,255,0.06)",
+                  border: "1px solid rgba(0,200,255,0.2)",
+                  borderRadius: "12px",
+                  padding: "16px 28px",
+                  color: "rgba(255,255,255,0.75)",
                   fontFamily: "monospace",
-                  background: "rgba(0,200,255,0.1)",
-                  border: "2px solid rgba(0,200,255,0.4)",
-                  borderRadius: "10px",
-                  color: "#ffffff",
-                  outline: "none",
+                  fontSize: "13px",
+                  lineHeight: "2",
                   textAlign: "center",
-                  textShadow: "0 0 10px rgba(0,200,255,0.5)",
                 }}
-              />
+              >
+                <div style={{ color: "#00ffcc", fontWeight: "bold", marginBottom: "4px", fontSize: "14px" }}>
+                  {i18n.t("howTo.title")}
+                </div>
+                <div>🖱️ <b>{i18n.t("howTo.click")}</b> — {i18n.t("howTo.clickAction")} <span style={{ color: "#00ffcc" }}>{i18n.t("howTo.cost", { cost: SIMPLE_WAVE_COST })}</span></div>
+                <div>🖱️ <b>{i18n.t("howTo.hold", { hold: HOLD_THRESHOLD_MS / 1000 })}</b> — {i18n.t("howTo.holdAction")} <span style={{ color: "#ff8800" }}>{i18n.t("howTo.cost", { cost: upgradeValue(ownedUpgrades, "strongWaveCost") })}</span></div>
+                <div>
+                  ⌨️ <b>{keyName(bindings.keys.up[0])}{keyName(bindings.keys.left[0])}{keyName(bindings.keys.down[0])}{keyName(bindings.keys.right[0])} / {keyName(bindings.keys.up[1])}{keyName(bindings.keys.left[1])}{keyName(bindings.keys.down[1])}{keyName(bindings.keys.right[1])}</b> — {i18n.t("howTo.aim")} · <b>{keyName(bindings.keys.fire[0])}</b> — {i18n.t("howTo.tapHold")} · <b>{keyName(bindings.keys.strong[0])}</b> — {i18n.t("howTo.strong")}
+                </div>
+                <div>🎮 <b>{i18n.t("howTo.gamepad")}</b> — {i18n.t("howTo.gamepadAction")}</div>
+                <div>⚡ <b>{i18n.t("howTo.speed")}</b> — {i18n.t("howTo.speedAction")}</div>
+                <div>📱 <b>{i18n.t("howTo.tap")}</b> — {i18n.t("howTo.wave")} · <b>{i18n.t("howTo.longPress")}</b> — {i18n.t("howTo.charge")} · <b>{i18n.t("howTo.twoFinger")}</b> — {i18n.t("howTo.pause")}</div>
+                <div>⌨️ <b>{keyName(bindings.keys.pause[0])} / {keyName(bindings.keys.pause[1])}</b> — {i18n.t("howTo.pause")}</div>
+                <div>⌨️ <b>{keyName(bindings.keys.mute[0])}</b> — {i18n.t("howTo.mute")}</div>
+                <div>💥 {i18n.t("howTo.hit")} <span style={{ color: "#ff4466" }}>{i18n.t("howTo.hitDamage", { share: meteorHpShare })}</span></div>
+                <div>🌀 {i18n.t("howTo.patterns")}</div>
+                <div>🛡️ <b>{i18n.t("howTo.armored")}</b> {i18n.t("howTo.armoredAction")} · <b>{i18n.t("howTo.shielded")}</b> {i18n.t("howTo.shieldedAction")} · <b>{i18n.t("howTo.cracked")}</b> {i18n.t("howTo.crackedAction")}</div>
+                <div style={{ marginTop: "6px", paddingTop: "6px", borderTop: "1px solid rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.5)", fontSize: "12px" }}>
+                  💰 {levelLabel(CAMPAIGN[0], i18n.t)}: <CoinScores level={0} />
+                </div>
+                <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "12px" }}>
+                  💰 {levelLabel(CAMPAIGN[1], i18n.t)}: <CoinScores level={1} />
+                </div>
+                <div style={{ color: "rgba(255,215,0,0.8)", fontSize: "12px", marginTop: "4px" }}>
+                  {i18n.t("howTo.phases", { count: CAMPAIGN.length })}
+                </div>
+                <div style={{ color: "rgba(255,102,255,0.8)", fontSize: "12px" }}>
+                  {i18n.t("howTo.endless")}
+                </div>
+                <div style={{ color: "rgba(255,255,255,0.4)", fontSize: "12px" }}>
+                  {i18n.t("howTo.balance")} <span style={{ color: "#ffd700" }}>{i18n.t("howTo.balanceValue", { score: STARTING_SCORE })}</span>
+                </div>
+              </div>
+
+              {/* Start button */}
               <button
-                onClick={handleLogin}
+                onClick={startGame}
                 style={{
-                  padding: "14px 48px",
-                  fontSize: "18px",
+                  padding: "14px 52px",
+                  fontSize: "20px",
                   fontWeight: "bold",
                   fontFamily: "monospace",
                   background: "linear-gradient(135deg, #00c8ff, #0066cc)",
@@ -2723,377 +2802,528 @@ export default function Game() {
                   (e.target as HTMLButtonElement).style.boxShadow = "0 0 24px rgba(0,200,255,0.5)";
                 }}
               >
-                🎮 ENTRAR
+                {i18n.t("start.play")}
               </button>
-            </div>
 
-            {/* Leaderboard preview */}
-            {topPlayers.length > 0 && (
+              {/* Daily seed challenge — same meteors for everyone today */}
+              <button
+                onClick={startDailyChallenge}
+                style={{
+                  padding: "8px 28px",
+                  fontSize: "14px",
+                  fontWeight: "bold",
+                  fontFamily: "monospace",
+                  background: "rgba(255,215,0,0.1)",
+                  color: "#ffd700",
+                  border: "1px solid rgba(255,215,0,0.5)",
+                  borderRadius: "10px",
+                  cursor: "pointer",
+                  letterSpacing: "1px",
+                }}
+              >
+                {i18n.t("start.daily")}
+              </button>
+
+              {/* Endless: the campaign, then levels that never stop scaling */}
+              <button
+                onClick={startEndless}
+                style={{
+                  padding: "8px 28px",
+                  fontSize: "14px",
+                  fontWeight: "bold",
+                  fontFamily: "monospace",
+                  background: "rgba(255,102,255,0.1)",
+                  color: "#ff66ff",
+                  border: "1px solid rgba(255,102,255,0.5)",
+                  borderRadius: "10px",
+                  cursor: "pointer",
+                  letterSpacing: "1px",
+                }}
+              >
+                {i18n.t("start.endless")}
+              </button>
+
+              {/* Upgrades or ranked: only offered once the player owns an upgrade */}
+              {shop && !isStockLoadout(shop.owned) && (
+                <button
+                  onClick={toggleUpgrades}
+                  style={{ ...replayButtonStyle, color: shop.applyUpgrades ? "#00ffcc" : "#ffd700" }}
+                >
+                  {i18n.t(shop.applyUpgrades ? "start.upgradesOn" : "start.ranked")}
+                </button>
+              )}
+
+              <div style={{ display: "flex", gap: "8px" }}>
+                <button onClick={openLevels} style={replayButtonStyle}>
+                  {i18n.t("start.levels", { unlocked: unlockedLevel + 1, total: CAMPAIGN.length })}
+                </button>
+                <button onClick={openControls} style={replayButtonStyle}>
+                  {i18n.t("start.controls")}
+                </button>
+                <button onClick={openStats} style={replayButtonStyle}>
+                  {i18n.t("start.stats")}
+                </button>
+                <button onClick={openTrophies} style={replayButtonStyle}>
+                  {i18n.t("start.trophies", { earned: Object.keys(unlockedAchievements).length, total: ACHIEVEMENT_IDS.length })}
+                </button>
+                <button onClick={openShop} style={replayButtonStyle}>
+                  {i18n.t("start.shop", { wallet: shop?.wallet ?? 0 })}
+                </button>
+                <button onClick={openAudio} style={replayButtonStyle}>
+                  {audioSettings.muted ? "🔇" : "🔊"} {i18n.t("start.audio")}
+                </button>
+              </div>
+
+              {/* Replays — watch saved runs or load one shared as a file */}
+              <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", justifyContent: "center" }}>
+                {savedReplays.last && (
+                  <button onClick={() => savedReplays.last && watchReplay(savedReplays.last)} style={replayButtonStyle}>
+                    {i18n.t("start.lastReplay")}
+                  </button>
+                )}
+                {savedReplays.best && (
+                  <button onClick={() => savedReplays.best && watchReplay(savedReplays.best)} style={replayButtonStyle}>
+                    {i18n.t("start.bestReplay", { score: savedReplays.best.score })}
+                  </button>
+                )}
+                <button onClick={() => replayFileRef.current?.click()} style={replayButtonStyle}>
+                  {i18n.t("start.importReplay")}
+                </button>
+                <input
+                  ref={replayFileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  style={{ display: "none" }}
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) void importReplay(file);
+                  }}
+                />
+              </div>
+              {replayError && (
+                <div style={{ color: "#ff4466", fontFamily: "monospace", fontSize: "12px" }}>{i18n.t(replayError)}</div>
+              )}
+              {pendingScores > 0 && (
+                <div style={{ color: "rgba(255,215,0,0.8)", fontFamily: "monospace", fontSize: "12px" }}>
+                  {pendingScores === 1 ? i18n.t("start.pendingOne") : i18n.t("start.pendingMany", { count: pendingScores })}
+                </div>
+              )}
+
+              {/* Leaderboard */}
               <div
                 style={{
                   background: "rgba(255,215,0,0.08)",
                   border: "1px solid rgba(255,215,0,0.3)",
                   borderRadius: "12px",
-                  padding: "16px 24px",
+                  padding: "12px 24px",
                   textAlign: "center",
                   fontFamily: "monospace",
                 }}
               >
-                <div style={{ color: "#ffd700", fontWeight: "bold", fontSize: "16px", marginBottom: "12px" }}>
-                  🏆 TOP PLAYERS
+                <div style={{ display: "flex", gap: "10px", justifyContent: "center", alignItems: "center", marginBottom: "8px" }}>
+                  <span style={{ color: "#ffd700", fontWeight: "bold", fontSize: "14px" }}>{i18n.t("ranking.title")}</span>
+                  {GAME_MODES.map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => showLeaderboard(mode)}
+                      style={{
+                        padding: "2px 8px",
+                        fontSize: "11px",
+                        fontFamily: "monospace",
+                        background: mode === leaderboardMode ? "rgba(255,215,0,0.25)" : "transparent",
+                        color: "#ffd700",
+                        border: "1px solid rgba(255,215,0,0.4)",
+                        borderRadius: "6px",
+                        cursor: "pointer",
+                      }}
+                    >
+                      {i18n.t(mode === "campaign" ? "ranking.campaign" : "ranking.endless")}
+                    </button>
+                  ))}
                 </div>
-                {topPlayers.map((player, idx) => (
+                {topPlayers.length === 0 && (
+                  <div style={{ color: "rgba(255,255,255,0.4)", fontSize: "12px" }}>{i18n.t("ranking.empty")}</div>
+                )}
+                {topPlayers.slice(0, 3).map((player, idx) => (
                   <div
                     key={idx}
                     style={{
                       display: "flex",
                       justifyContent: "space-between",
                       gap: "24px",
-                      padding: "4px 0",
-                      color: idx === 0 ? "#ffd700" : idx === 1 ? "#c0c0c0" : idx === 2 ? "#cd7f32" : "rgba(255,255,255,0.7)",
-                      fontSize: "14px",
+                      padding: "2px 0",
+                      color: idx === 0 ? "#ffd700" : idx === 1 ? "#c0c0c0" : "#cd7f32",
+                      fontSize: "12px",
                     }}
                   >
                     <span>{idx + 1}. {player.name}</span>
-                    <span>${player.score.toLocaleString()} SUI</span>
+                    <span>${i18n.number(player.score)}</span>
                   </div>
                 ))}
               </div>
-            )}
-          </div>
-        )}
 
-        {/* Start screen overlay */}
-        {gamePhase === "start" && (
-          <div
-            style={{
-              position: "absolute",
-              inset: 0,
-              display: "flex",
-              flexDirection: "column",
-              alignItems: "center",
-              justifyContent: "center",
-              borderRadius: "16px",
-              background: "rgba(2,4,8,0.88)",
-              gap: "18px",
-            }}
-          >
-            {/* Title */}
-            <div style={{ textAlign: "center" }}>
-              {/* Logo do jogo */}
-              <div style={{ marginBottom: "16px" }}>
-                <img
-                  src="https://ipfs.io/ipfs/QmaF3N8z338Z3x8z3x8z3x8z3x8z3x8z3x8z3x8z3x8z3"
-                  alt="DOGSUI-DEFENDER Logo"
-                  style={{ width: "200px", height: "200px", objectFit: "contain" }}
-                />
-              </div>
+              {/* SUI memecoin promo */}
               <div
                 style={{
-                  fontSize: "46px",
-                  fontWeight: "bold",
+                  background: "linear-gradient(135deg, rgba(0,200,255,0.12), rgba(153,69,255,0.12))",
+                  border: "1px solid rgba(0,200,255,0.3)",
+                  borderRadius: "10px",
+                  padding: "10px 24px",
+                  textAlign: "center",
                   fontFamily: "monospace",
-                  color: "#00c8ff",
-                  textShadow: "0 0 30px #00c8ff, 0 0 60px #0088cc",
-                  letterSpacing: "4px",
-                  marginBottom: "6px",
                 }}
               >
-                ⚡ DOGSUI-DEFENDER ⚡
-              </div>
-              <div style={{ color: "rgba(255,255,255,0.55)", fontFamily: "monospace", fontSize: "13px" }}>
-                Protect the SUI coin from crypto meteors!
-              </div>
-              <div style={{ color: "rgba(255,165,0,0.8)", fontFamily: "monospace", fontSize: "11px", marginTop: "8px", letterSpacing: "1px" }}>
-                🚧 PROJECT UNDER DEVELOPMENT — PROTOTYPE 🚧
+                <div style={{ color: "#ffd700", fontWeight: "bold", fontSize: "14px", letterSpacing: "1px" }}>
+                  {i18n.t("start.promoTitle")}
+                </div>
+                <div style={{ color: "rgba(255,255,255,0.6)", fontSize: "12px", marginTop: "4px" }}>
+                  {i18n.t("start.promoFollow")}{" "}
+                  <a
+                    href="https://x.com"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ color: "#00c8ff", textDecoration: "none", fontWeight: "bold" }}
+                  >
+                    @suimemecoin
+                  </a>
+                </div>
               </div>
             </div>
-
-            {/* Instructions box */}
-            <div
+          )}
+
+          {/* Key / gamepad bindings */}
+          {gamePhase === "controls" && (
+            <ControlsScreen
+              player={playerName.trim() || "Player"}
+              bindings={bindings}
+              i18n={i18n}
+              onChange={changeBindings}
+              onClose={backToStart}
+            />
+          )}
+
+          {/* Lifetime stats and run history */}
+          {gamePhase === "stats" && profile && (
+            <StatsScreen player={playerName.trim() || "Player"} profile={profile} i18n={i18n} onClose={backToStart} />
+          )}
+
+          {/* Achievement gallery */}
+          {gamePhase === "trophies" && (
+            <TrophyGallery unlocked={unlockedAchievements} i18n={i18n} onClose={backToStart} />
+          )}
+
+          {/* Upgrade shop */}
+          {gamePhase === "shop" && shop && <ShopScreen shop={shop} i18n={i18n} onBuy={buy} onClose={backToStart} />}
+
+          {/* Volume and mute */}
+          {gamePhase === "audio" && (
+            <AudioScreen
+              settings={audioSettings}
+              i18n={i18n}
+              onVolume={changeVolume}
+              onToggleMute={switchMute}
+              onClose={backToStart}
+            />
+          )}
+
+          {/* Campaign level select */}
+          {gamePhase === "levels" && (
+            <LevelSelect unlocked={unlockedLevel} i18n={i18n} onPick={startAtLevel} onClose={backToStart} />
+          )}
+
+          {/* Pause button (visible during play) - moved to bottom left to avoid HP bar overlap */}
+          {(gamePhase === "playing" || gamePhase === "paused") && (
+            <button
+              onClick={togglePause}
               style={{
-                background: "rgba(0,200,255,0.06)",
-                border: "1px solid rgba(0,200,255,0.2)",
-                borderRadius: "12px",
-                padding: "16px 28px",
-                color: "rgba(255,255,255,0.75)",
-                fontFamily: "monospace",
+                position: "absolute",
+                bottom: "12px",
+                left: "12px",
+                padding: "6px 14px",
                 fontSize: "13px",
-                lineHeight: "2",
-                textAlign: "center",
+                fontWeight: "bold",
+                fontFamily: "monospace",
+                background: gamePhase === "paused"
+                  ? "rgba(0,200,255,0.25)"
+                  : "rgba(0,0,0,0.45)",
+                color: "#00c8ff",
+                border: "1px solid rgba(0,200,255,0.4)",
+                borderRadius: "6px",
+                cursor: "pointer",
+                backdropFilter: "blur(4px)",
+                zIndex: 10,
+                letterSpacing: "1px",
               }}
             >
-              <div style={{ color: "#00ffcc", fontWeight: "bold", marginBottom: "4px", fontSize: "14px" }}>
-                🎮 HOW TO PLAY
-              </div>
-              <div>🖱️ <b>Click anywhere</b> — Wave attack <span style={{ color: "#00ffcc" }}>(-10 SUI)</span></div>
-              <div>🖱️ <b>Hold 2s</b> — Strong wave (covers entire screen!) <span style={{ color: "#ff8800" }}>(-30 SUI)</span></div>
-              <div>⌨️ <b>P / Esc</b> — Pause</div>
-              <div>💥 Each meteor hit = <span style={{ color: "#ff4466" }}>-10% HP</span></div>
-              <div style={{ marginTop: "6px", paddingTop: "6px", borderTop: "1px solid rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.5)", fontSize: "12px" }}>
-                💰 Phase I: BTC <span style={{ color: "#F7931A" }}>+50</span> · ETH <span style={{ color: "#627EEA" }}>+30</span> · SOL <span style={{ color: "#9945FF" }}>+20</span> · PEPE <span style={{ color: "#00A86B" }}>+40</span>
-              </div>
-              <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "12px" }}>
-                💰 Phase II: DOGE <span style={{ color: "#C2A633" }}>+60</span> · SHIB <span style={{ color: "#FFA409" }}>+70</span> · BONK <span style={{ color: "#FF6B35" }}>+55</span> · WIF <span style={{ color: "#A855F7" }}>+80</span>
-              </div>
-              <div style={{ color: "rgba(255,215,0,0.8)", fontSize: "12px", marginTop: "4px" }}>
-                👑 Reach 1500 SUI to face the DOGE BOSS!
-              </div>
-              <div style={{ color: "rgba(255,255,255,0.4)", fontSize: "12px" }}>
-                Starting balance: <span style={{ color: "#ffd700" }}>100 SUI</span>
-              </div>
-            </div>
+              {gamePhase === "paused" ? i18n.t("game.resume") : i18n.t("game.pause")}
+            </button>
+          )}
 
-            {/* Start button */}
+          {/* Mute toggle, next to pause */}
+          {(gamePhase === "playing" || gamePhase === "paused") && (
             <button
-              onClick={startGame}
+              onClick={switchMute}
+              title={audioSettings.muted ? i18n.t("game.soundOn") : i18n.t("game.soundOff")}
               style={{
-                padding: "14px 52px",
-                fontSize: "20px",
-                fontWeight: "bold",
+                position: "absolute",
+                bottom: "12px",
+                left: "120px",
+                padding: "6px 10px",
+                fontSize: "13px",
                 fontFamily: "monospace",
-                background: "linear-gradient(135deg, #00c8ff, #0066cc)",
-                color: "#ffffff",
-                border: "none",
-                borderRadius: "10px",
+                background: audioSettings.muted ? "rgba(255,68,102,0.25)" : "rgba(0,0,0,0.45)",
+                color: "#00c8ff",
+                border: "1px solid rgba(0,200,255,0.4)",
+                borderRadius: "6px",
                 cursor: "pointer",
-                boxShadow: "0 0 24px rgba(0,200,255,0.5)",
-                letterSpacing: "2px",
-                transition: "transform 0.1s, box-shadow 0.1s",
-              }}
-              onMouseEnter={e => {
-                (e.target as HTMLButtonElement).style.transform = "scale(1.06)";
-                (e.target as HTMLButtonElement).style.boxShadow = "0 0 40px rgba(0,200,255,0.8)";
-              }}
-              onMouseLeave={e => {
-                (e.target as HTMLButtonElement).style.transform = "scale(1)";
-                (e.target as HTMLButtonElement).style.boxShadow = "0 0 24px rgba(0,200,255,0.5)";
+                backdropFilter: "blur(4px)",
+                zIndex: 10,
               }}
             >
-              🚀 JOGAR
+              {audioSettings.muted ? "🔇" : "🔊"}
             </button>
+          )}
 
-            {/* Leaderboard */}
-            {topPlayers.length > 0 && (
+          {/* Phase Complete overlay */}
+          {gamePhase === "phasecomplete" && (
+            <div
+              style={{
+                position: "absolute",
+                inset: 0,
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                justifyContent: "center",
+                borderRadius: "16px",
+                background: "rgba(0,50,30,0.85)",
+                gap: "24px",
+              }}
+            >
+              <div style={{ textAlign: "center" }}>
+                <div
+                  style={{
+                    fontSize: "42px",
+                    fontWeight: "bold",
+                    fontFamily: "monospace",
+                    color: "#FFD700",
+                    textShadow: "0 0 30px #FFD700, 0 0 60px #FFA500",
+                    letterSpacing: "3px",
+                    marginBottom: "12px",
+                  }}
+                >
+                  {i18n.t("victory.title")}
+                </div>
+                <div style={{ color: "#00ff88", fontFamily: "monospace", fontSize: "20px", fontWeight: "bold" }}>
+                  {i18n.t("victory.subtitle")}
+                </div>
+                <div style={{ color: "#ffd700", fontFamily: "monospace", fontSize: "28px", fontWeight: "bold", marginTop: "8px" }}>
+                  {i18n.t("result.finalScore", { score: finalScore })}
+                </div>
+                {lastBanked > 0 && (
+                  <div style={{ color: "#00ffcc", fontFamily: "monospace", fontSize: "14px", marginTop: "6px" }}>
+                    {i18n.t("result.banked", { amount: lastBanked })}
+                  </div>
+                )}
+                {tooLongToRank && (
+                  <div style={{ color: "rgba(255,165,0,0.8)", fontFamily: "monospace", fontSize: "12px" }}>
+                    {i18n.t("result.tooLongToRank")}
+                  </div>
+                )}
+              </div>
               <div
                 style={{
-                  background: "rgba(255,215,0,0.08)",
+                  background: "rgba(255,215,0,0.1)",
                   border: "1px solid rgba(255,215,0,0.3)",
                   borderRadius: "12px",
-                  padding: "12px 24px",
+                  padding: "20px 32px",
                   textAlign: "center",
                   fontFamily: "monospace",
                 }}
               >
-                <div style={{ color: "#ffd700", fontWeight: "bold", fontSize: "14px", marginBottom: "8px" }}>
-                  🏆 RANKING
+                <div style={{ color: "#FFD700", fontSize: "18px", fontWeight: "bold", marginBottom: "8px" }}>
+                  {i18n.t("victory.boss")}
+                </div>
+                <div style={{ color: "rgba(255,255,255,0.7)", fontSize: "14px" }}>
+                  {i18n.t("victory.safe")}
                 </div>
-                {topPlayers.slice(0, 3).map((player, idx) => (
-                  <div
-                    key={idx}
-                    style={{
-                      display: "flex",
-                      justifyContent: "space-between",
-                      gap: "24px",
-                      padding: "2px 0",
-                      color: idx === 0 ? "#ffd700" : idx === 1 ? "#c0c0c0" : "#cd7f32",
-                      fontSize: "12px",
-                    }}
-                  >
-                    <span>{idx + 1}. {player.name}</span>
-                    <span>${player.score.toLocaleString()}</span>
-                  </div>
-                ))}
-              </div>
-            )}
-
-            {/* SUI memecoin promo */}
-            <div
-              style={{
-                background: "linear-gradient(135deg, rgba(0,200,255,0.12), rgba(153,69,255,0.12))",
-                border: "1px solid rgba(0,200,255,0.3)",
-                borderRadius: "10px",
-                padding: "10px 24px",
-                textAlign: "center",
-                fontFamily: "monospace",
-              }}
-            >
-              <div style={{ color: "#ffd700", fontWeight: "bold", fontSize: "14px", letterSpacing: "1px" }}>
-                🚀 SUIMEMECOIN — EM BREVE!
-              </div>
-              <div style={{ color: "rgba(255,255,255,0.6)", fontSize: "12px", marginTop: "4px" }}>
-                Siga o perfil no X para não perder o lançamento →{" "}
-                <a
-                  href="https://x.com"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  style={{ color: "#00c8ff", textDecoration: "none", fontWeight: "bold" }}
-                >
-                  @suimemecoin
-                </a>
               </div>
-            </div>
-          </div>
-        )}
-
-        {/* Pause button (visible during play) - moved to bottom left to avoid HP bar overlap */}
-        {(gamePhase === "playing" || gamePhase === "paused") && (
-          <button
-            onClick={togglePause}
-            style={{
-              position: "absolute",
-              bottom: "12px",
-              left: "12px",
-              padding: "6px 14px",
-              fontSize: "13px",
-              fontWeight: "bold",
-              fontFamily: "monospace",
-              background: gamePhase === "paused"
-                ? "rgba(0,200,255,0.25)"
-                : "rgba(0,0,0,0.45)",
-              color: "#00c8ff",
-              border: "1px solid rgba(0,200,255,0.4)",
-              borderRadius: "6px",
-              cursor: "pointer",
-              backdropFilter: "blur(4px)",
-              zIndex: 10,
-              letterSpacing: "1px",
-            }}
-          >
-            {gamePhase === "paused" ? "▶ RESUME" : "⏸ PAUSE"}
-          </button>
-        )}
-
-        {/* Phase Complete overlay */}
-        {gamePhase === "phasecomplete" && (
-          <div
-            style={{
-              position: "absolute",
-              inset: 0,
-              display: "flex",
-              flexDirection: "column",
-              alignItems: "center",
-              justifyContent: "center",
-              borderRadius: "16px",
-              background: "rgba(0,50,30,0.85)",
-              gap: "24px",
-            }}
-          >
-            <div style={{ textAlign: "center" }}>
-              <div
+              <button
+                onClick={restartGame}
                 style={{
-                  fontSize: "42px",
+                  padding: "14px 48px",
+                  fontSize: "18px",
                   fontWeight: "bold",
                   fontFamily: "monospace",
-                  color: "#FFD700",
-                  textShadow: "0 0 30px #FFD700, 0 0 60px #FFA500",
-                  letterSpacing: "3px",
-                  marginBottom: "12px",
+                  background: "linear-gradient(135deg, #FFD700, #FFA500)",
+                  color: "#000000",
+                  border: "none",
+                  borderRadius: "10px",
+                  cursor: "pointer",
+                  boxShadow: "0 0 24px rgba(255,215,0,0.6)",
+                  letterSpacing: "2px",
+                  transition: "transform 0.1s, box-shadow 0.1s",
+                }}
+                onMouseEnter={e => {
+                  (e.target as HTMLButtonElement).style.transform = "scale(1.06)";
+                  (e.target as HTMLButtonElement).style.boxShadow = "0 0 40px rgba(255,215,0,0.9)";
+                }}
+                onMouseLeave={e => {
+                  (e.target as HTMLButtonElement).style.transform = "scale(1)";
+                  (e.target as HTMLButtonElement).style.boxShadow = "0 0 24px rgba(255,215,0,0.6)";
                 }}
               >
-                🏆 VICTORY! 🏆
-              </div>
-              <div style={{ color: "#00ff88", fontFamily: "monospace", fontSize: "20px", fontWeight: "bold" }}>
-                All Phases Complete!
-              </div>
-              <div style={{ color: "#ffd700", fontFamily: "monospace", fontSize: "28px", fontWeight: "bold", marginTop: "8px" }}>
-                Final Score: ${finalScore.toLocaleString()} SUI
-              </div>
+                {i18n.t("result.playAgain")}
+              </button>
+              <button
+                onClick={startEndless}
+                style={{ ...replayButtonStyle, color: "#ff66ff", border: "1px solid rgba(255,102,255,0.5)" }}
+              >
+                {i18n.t("result.tryEndless")}
+              </button>
+              {savedReplays.last && (
+                <div style={{ display: "flex", gap: "8px" }}>
+                  <button onClick={() => savedReplays.last && watchReplay(savedReplays.last)} style={replayButtonStyle}>
+                    {i18n.t("result.watchReplay")}
+                  </button>
+                  <button onClick={() => savedReplays.last && downloadReplay(savedReplays.last)} style={replayButtonStyle}>
+                    {i18n.t("result.export")}
+                  </button>
+                </div>
+              )}
             </div>
+          )}
+
+          {/* Game Over overlay with restart button */}
+          {gamePhase === "gameover" && (
             <div
               style={{
-                background: "rgba(255,215,0,0.1)",
-                border: "1px solid rgba(255,215,0,0.3)",
-                borderRadius: "12px",
-                padding: "20px 32px",
-                textAlign: "center",
-                fontFamily: "monospace",
+                position: "absolute",
+                inset: 0,
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                justifyContent: "center",
+                borderRadius: "16px",
+                gap: "20px",
+                pointerEvents: "none",
               }}
             >
-              <div style={{ color: "#FFD700", fontSize: "18px", fontWeight: "bold", marginBottom: "8px" }}>
-                🎉 You defeated the DOGE BOSS! 🎉
-              </div>
-              <div style={{ color: "rgba(255,255,255,0.7)", fontSize: "14px" }}>
-                SUI is safe from the meme invasion!
-              </div>
+              {/* Spacer to push button below the canvas-drawn text */}
+              <div style={{ height: "120px" }} />
+              {lastBanked > 0 && (
+                <div style={{ color: "#00ffcc", fontFamily: "monospace", fontSize: "14px", fontWeight: "bold" }}>
+                  {i18n.t("result.banked", { amount: lastBanked })}
+                </div>
+              )}
+              {tooLongToRank && (
+                <div style={{ color: "rgba(255,165,0,0.8)", fontFamily: "monospace", fontSize: "12px" }}>
+                  {i18n.t("result.tooLongToRank")}
+                </div>
+              )}
+              <button
+                onClick={restartGame}
+                style={{
+                  pointerEvents: "all",
+                  padding: "14px 48px",
+                  fontSize: "20px",
+                  fontWeight: "bold",
+                  fontFamily: "monospace",
+                  background: "linear-gradient(135deg, #ff4466, #cc0033)",
+                  color: "#ffffff",
+                  border: "none",
+                  borderRadius: "10px",
+                  cursor: "pointer",
+                  boxShadow: "0 0 24px rgba(255,68,102,0.6)",
+                  letterSpacing: "2px",
+                  transition: "transform 0.1s, box-shadow 0.1s",
+                }}
+                onMouseEnter={e => {
+                  (e.target as HTMLButtonElement).style.transform = "scale(1.06)";
+                  (e.target as HTMLButtonElement).style.boxShadow = "0 0 40px rgba(255,68,102,0.9)";
+                }}
+                onMouseLeave={e => {
+                  (e.target as HTMLButtonElement).style.transform = "scale(1)";
+                  (e.target as HTMLButtonElement).style.boxShadow = "0 0 24px rgba(255,68,102,0.6)";
+                }}
+              >
+                {i18n.t("result.playAgain")}
+              </button>
+              {savedReplays.last && (
+                <div style={{ display: "flex", gap: "8px", pointerEvents: "all" }}>
+                  <button onClick={() => savedReplays.last && watchReplay(savedReplays.last)} style={replayButtonStyle}>
+                    {i18n.t("result.watchReplay")}
+                  </button>
+                  <button onClick={() => savedReplays.last && downloadReplay(savedReplays.last)} style={replayButtonStyle}>
+                    {i18n.t("result.export")}
+                  </button>
+                </div>
+              )}
             </div>
-            <button
-              onClick={restartGame}
-              style={{
-                padding: "14px 48px",
-                fontSize: "18px",
-                fontWeight: "bold",
-                fontFamily: "monospace",
-                background: "linear-gradient(135deg, #FFD700, #FFA500)",
-                color: "#000000",
-                border: "none",
-                borderRadius: "10px",
-                cursor: "pointer",
-                boxShadow: "0 0 24px rgba(255,215,0,0.6)",
-                letterSpacing: "2px",
-                transition: "transform 0.1s, box-shadow 0.1s",
-              }}
-              onMouseEnter={e => {
-                (e.target as HTMLButtonElement).style.transform = "scale(1.06)";
-                (e.target as HTMLButtonElement).style.boxShadow = "0 0 40px rgba(255,215,0,0.9)";
-              }}
-              onMouseLeave={e => {
-                (e.target as HTMLButtonElement).style.transform = "scale(1)";
-                (e.target as HTMLButtonElement).style.boxShadow = "0 0 24px rgba(255,215,0,0.6)";
-              }}
-            >
-              🔄 PLAY AGAIN
-            </button>
-          </div>
-        )}
+          )}
 
-        {/* Game Over overlay with restart button */}
-        {gamePhase === "gameover" && (
-          <div
-            style={{
-              position: "absolute",
-              inset: 0,
-              display: "flex",
-              flexDirection: "column",
-              alignItems: "center",
-              justifyContent: "center",
-              borderRadius: "16px",
-              gap: "20px",
-              pointerEvents: "none",
-            }}
-          >
-            {/* Spacer to push button below the canvas-drawn text */}
-            <div style={{ height: "120px" }} />
-            <button
-              onClick={restartGame}
+          {/* Replay player controls */}
+          {gamePhase === "replay" && activeReplay && (
+            <div
               style={{
-                pointerEvents: "all",
-                padding: "14px 48px",
-                fontSize: "20px",
-                fontWeight: "bold",
+                position: "absolute",
+                left: "12px",
+                right: "12px",
+                bottom: "12px",
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+                padding: "8px 12px",
                 fontFamily: "monospace",
-                background: "linear-gradient(135deg, #ff4466, #cc0033)",
-                color: "#ffffff",
-                border: "none",
+                fontSize: "12px",
+                color: "#00c8ff",
+                background: "rgba(0,0,0,0.6)",
+                border: "1px solid rgba(0,200,255,0.3)",
                 borderRadius: "10px",
-                cursor: "pointer",
-                boxShadow: "0 0 24px rgba(255,68,102,0.6)",
-                letterSpacing: "2px",
-                transition: "transform 0.1s, box-shadow 0.1s",
-              }}
-              onMouseEnter={e => {
-                (e.target as HTMLButtonElement).style.transform = "scale(1.06)";
-                (e.target as HTMLButtonElement).style.boxShadow = "0 0 40px rgba(255,68,102,0.9)";
-              }}
-              onMouseLeave={e => {
-                (e.target as HTMLButtonElement).style.transform = "scale(1)";
-                (e.target as HTMLButtonElement).style.boxShadow = "0 0 24px rgba(255,68,102,0.6)";
+                backdropFilter: "blur(4px)",
+                cursor: "default",
+                zIndex: 10,
               }}
             >
-              🔄 PLAY AGAIN
-            </button>
-          </div>
-        )}
+              <button onClick={toggleReplayPause} style={replayButtonStyle}>
+                {replayPaused ? "▶" : "⏸"}
+              </button>
+              <button onClick={stepReplayFrame} style={replayButtonStyle} title={i18n.t("replay.nextFrame")}>
+                ⏭
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={activeReplay.ticks}
+                value={replayTick}
+                onChange={e => seekReplay(Number(e.target.value))}
+                style={{ flex: 1, cursor: "pointer" }}
+              />
+              <span>
+                {formatTicks(replayTick)} / {formatTicks(activeReplay.ticks)}
+              </span>
+              {REPLAY_SPEEDS.map(speed => (
+                <button
+                  key={speed}
+                  onClick={() => changeReplaySpeed(speed)}
+                  style={{
+                    ...replayButtonStyle,
+                    padding: "6px 8px",
+                    background: speed === replaySpeed ? "rgba(0,200,255,0.35)" : "rgba(0,200,255,0.1)",
+                  }}
+                >
+                  {speed}×
+                </button>
+              ))}
+              <button onClick={() => downloadReplay(activeReplay)} style={replayButtonStyle} title={i18n.t("replay.export")}>
+                💾
+              </button>
+              <button onClick={closeReplay} style={replayButtonStyle}>
+                ✕
+              </button>
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { BOSSES } from "@/lib/game/bosses";
+import { BOSS_COLORS } from "@/lib/game/constants";
+import { ENEMIES } from "@/lib/game/enemies";
+import { CAMPAIGN, levelLabel } from "@/lib/game/levels";
+import type { Translator } from "@/lib/i18n";
+
+interface LevelSelectProps {
+  unlocked: number; // highest campaign index the player has reached
+  i18n: Translator;
+  onPick: (level: number) => void;
+  onClose: () => void;
+}
+
+const cardStyle: CSSProperties = {
+  width: "150px",
+  padding: "12px 10px",
+  borderRadius: "10px",
+  fontFamily: "monospace",
+  textAlign: "center",
+  display: "flex",
+  flexDirection: "column",
+  gap: "6px",
+  alignItems: "center",
+};
+
+// ─── Level Select Screen ──────────────────────────────────────────────────────
+export default function LevelSelect({ unlocked, i18n, onPick, onClose }: LevelSelectProps) {
+  const { t } = i18n;
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        borderRadius: "16px",
+        background: "rgba(2,4,8,0.92)",
+        gap: "18px",
+        fontFamily: "monospace",
+        cursor: "default",
+      }}
+    >
+      <div style={{ color: "#00c8ff", fontSize: "26px", fontWeight: "bold", letterSpacing: "3px" }}>{t("levels.title")}</div>
+      <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "12px" }}>
+        {t("levels.hint")}
+      </div>
+
+      <div style={{ display: "flex", gap: "10px", flexWrap: "wrap", justifyContent: "center", maxWidth: "820px" }}>
+        {CAMPAIGN.map((level, i) => {
+          const open = i <= unlocked;
+          const accent = level.theme.accent;
+          return (
+            <button
+              key={level.numeral}
+              disabled={!open}
+              onClick={() => onPick(i)}
+              style={{
+                ...cardStyle,
+                background: open ? `linear-gradient(160deg, ${level.theme.background[0]}, ${level.theme.background[2]})` : "rgba(255,255,255,0.03)",
+                border: `1px solid ${open ? accent : "rgba(255,255,255,0.15)"}`,
+                boxShadow: open ? `0 0 14px ${accent}55` : "none",
+                cursor: open ? "pointer" : "not-allowed",
+                opacity: open ? 1 : 0.5,
+              }}
+            >
+              <div style={{ color: accent, fontWeight: "bold", fontSize: "14px" }}>{levelLabel(level, t)}</div>
+              <div style={{ color: "#ffffff", fontSize: "11px", minHeight: "14px" }}>{level.title ? t(level.title) : " "}</div>
+              {open ? (
+                <>
+                  <div style={{ fontSize: "10px", lineHeight: "1.6" }}>
+                    {level.roster.map(type => (
+                      <span key={type} style={{ color: ENEMIES[type].palette.primary, marginRight: "4px" }}>
+                        {type}
+                      </span>
+                    ))}
+                  </div>
+                  {level.boss && (
+                    <div style={{ color: BOSS_COLORS[level.boss.type], fontSize: "10px" }}>
+                      {t(BOSSES[level.boss.type].name)}
+                      {level.boss.hpScale > 1 && ` ×${level.boss.hpScale}`}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div style={{ fontSize: "22px" }}>🔒</div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onClose}
+        style={{
+          padding: "6px 18px",
+          fontSize: "12px",
+          fontWeight: "bold",
+          fontFamily: "monospace",
+          background: "linear-gradient(135deg, #00c8ff, #0066cc)",
+          color: "#ffffff",
+          border: "none",
+          borderRadius: "6px",
+          cursor: "pointer",
+        }}
+      >
+        {t("common.back")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js, which keeps the game playable offline. Skipped in
+// development, where a cached shell would fight hot reloading.
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        // This visit's build files loaded before the worker was in control
+        const urls = performance
+          .getEntriesByType("resource")
+          .map(entry => entry.name)
+          .filter(url => new URL(url).pathname.startsWith("/_next/static/"));
+        registration.active?.postMessage({ type: "cacheAssets", urls });
+      })
+      .catch(() => {
+        // ignore — the game still works online without it
+      });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { maxUpgradeLevel, UPGRADE_IDS, UPGRADES, upgradeValue, type UpgradeId } from "@/lib/game/upgrades";
+import type { Translator } from "@/lib/i18n";
+import { BANK_RATE, nextUpgradeCost, type ShopState } from "@/lib/shop";
+
+interface ShopScreenProps {
+  shop: ShopState;
+  i18n: Translator;
+  onBuy: (id: UpgradeId) => void;
+  onClose: () => void;
+}
+
+const cardStyle: CSSProperties = {
+  width: "220px",
+  padding: "10px 12px",
+  borderRadius: "10px",
+  fontFamily: "monospace",
+  display: "flex",
+  flexDirection: "column",
+  gap: "6px",
+  background: "rgba(255,255,255,0.04)",
+  border: "1px solid rgba(0,200,255,0.2)",
+};
+
+// ─── Upgrade Shop ─────────────────────────────────────────────────────────────
+export default function ShopScreen({ shop, i18n, onBuy, onClose }: ShopScreenProps) {
+  const { t } = i18n;
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        borderRadius: "16px",
+        background: "rgba(2,4,8,0.94)",
+        gap: "14px",
+        fontFamily: "monospace",
+        cursor: "default",
+        overflowY: "auto",
+      }}
+    >
+      <div style={{ color: "#00ffcc", fontSize: "26px", fontWeight: "bold", letterSpacing: "3px" }}>{t("shop.title")}</div>
+      <div style={{ color: "#ffd700", fontSize: "16px", fontWeight: "bold" }}>
+        💰 {i18n.number(shop.wallet)} SUI
+      </div>
+      <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "11px" }}>
+        {t("shop.bankRate", { rate: Math.round(BANK_RATE * 100) })}
+      </div>
+      <div style={{ color: "rgba(255,165,0,0.8)", fontSize: "11px" }}>{t("shop.unranked")}</div>
+
+      <div style={{ display: "flex", gap: "10px", flexWrap: "wrap", justifyContent: "center", maxWidth: "720px" }}>
+        {UPGRADE_IDS.map(id => {
+          const { icon, tiers, format } = UPGRADES[id];
+          const level = shop.owned[id];
+          const cost = nextUpgradeCost(shop, id);
+          const affordable = cost !== null && shop.wallet >= cost;
+          return (
+            <div key={id} style={cardStyle}>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                <span style={{ fontSize: "22px" }}>{icon}</span>
+                <div>
+                  <div style={{ color: "#00c8ff", fontWeight: "bold", fontSize: "12px" }}>{t(`upgrade.${id}.name`)}</div>
+                  <div style={{ color: "rgba(255,255,255,0.55)", fontSize: "10px" }}>{t(`upgrade.${id}.description`)}</div>
+                </div>
+              </div>
+
+              <div style={{ display: "flex", gap: "4px" }}>
+                {tiers.map((_, i) => (
+                  <div
+                    key={i}
+                    style={{
+                      flex: 1,
+                      height: "6px",
+                      borderRadius: "3px",
+                      background: i < level ? "#00ffcc" : "rgba(255,255,255,0.1)",
+                    }}
+                  />
+                ))}
+              </div>
+
+              <div style={{ color: "rgba(255,255,255,0.7)", fontSize: "11px" }}>
+                {format(upgradeValue(shop.owned, id))}
+                {cost !== null && (
+                  <span style={{ color: "#00ffcc" }}> → {format(upgradeValue({ ...shop.owned, [id]: level + 1 }, id))}</span>
+                )}
+              </div>
+
+              <button
+                onClick={() => onBuy(id)}
+                disabled={!affordable}
+                style={{
+                  padding: "5px 10px",
+                  fontSize: "11px",
+                  fontWeight: "bold",
+                  fontFamily: "monospace",
+                  background: affordable ? "linear-gradient(135deg, #00ffcc, #00a080)" : "rgba(255,255,255,0.06)",
+                  color: affordable ? "#02140f" : "rgba(255,255,255,0.35)",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor: affordable ? "pointer" : "default",
+                }}
+              >
+                {cost === null ? t("shop.maxLevel", { level: maxUpgradeLevel(id) }) : t("shop.buy", { cost })}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onClose}
+        style={{
+          padding: "6px 18px",
+          fontSize: "12px",
+          fontWeight: "bold",
+          fontFamily: "monospace",
+          background: "linear-gradient(135deg, #00c8ff, #0066cc)",
+          color: "#ffffff",
+          border: "none",
+          borderRadius: "6px",
+          cursor: "pointer",
+        }}
+      >
+        {t("common.back")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { COIN_TYPES, ENEMIES } from "@/lib/game/enemies";
+import type { Translator } from "@/lib/i18n";
+import { accuracy, type PlayerProfile, type RunRecord } from "@/lib/profile";
+
+interface StatsScreenProps {
+  player: string;
+  profile: PlayerProfile;
+  i18n: Translator;
+  onClose: () => void;
+}
+
+const MODE_COLORS = { campaign: "#00c8ff", endless: "#ff66ff" } as const;
+
+const CHART_W = 360;
+const CHART_H = 110;
+const CHART_PAD = 8;
+
+const panelStyle: CSSProperties = {
+  padding: "12px 14px",
+  borderRadius: "10px",
+  background: "rgba(255,255,255,0.04)",
+  border: "1px solid rgba(0,200,255,0.2)",
+};
+
+const headingStyle: CSSProperties = {
+  color: "rgba(255,255,255,0.6)",
+  fontSize: "11px",
+  letterSpacing: "1px",
+  marginBottom: "8px",
+};
+
+function formatPlayTime(ms: number, i18n: Translator): string {
+  const minutes = Math.floor(ms / 60000);
+  return minutes >= 60
+    ? i18n.t("stats.hoursMinutes", { hours: Math.floor(minutes / 60), minutes: minutes % 60 })
+    : i18n.t("stats.minutes", { minutes });
+}
+
+function Tile({ label, value, color }: { label: string; value: string; color: string }) {
+  return (
+    <div style={{ ...panelStyle, minWidth: "96px", textAlign: "center", padding: "8px 10px" }}>
+      <div style={{ color, fontSize: "18px", fontWeight: "bold" }}>{value}</div>
+      <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "10px", marginTop: "2px" }}>{label}</div>
+    </div>
+  );
+}
+
+// One value per run, oldest on the left; dots take the run's mode color
+function HistoryChart({
+  title,
+  runs,
+  value,
+  format,
+  color,
+  i18n,
+}: {
+  title: string;
+  runs: RunRecord[];
+  value: (run: RunRecord) => number;
+  format: (v: number) => string;
+  color: string;
+  i18n: Translator;
+}) {
+  const values = runs.map(value);
+  const max = Math.max(...values, 1);
+  const x = (i: number) => CHART_PAD + (runs.length > 1 ? (i / (runs.length - 1)) * (CHART_W - CHART_PAD * 2) : CHART_W / 2);
+  const y = (v: number) => CHART_H - CHART_PAD - (v / max) * (CHART_H - CHART_PAD * 2);
+  const points = values.map((v, i) => `${x(i)},${y(v)}`).join(" ");
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ ...headingStyle, display: "flex", justifyContent: "space-between" }}>
+        <span>{title}</span>
+        <span style={{ color }}>{i18n.t("stats.max", { value: format(max) })}</span>
+      </div>
+      <svg width={CHART_W} height={CHART_H} style={{ display: "block" }}>
+        <line x1={CHART_PAD} y1={y(0)} x2={CHART_W - CHART_PAD} y2={y(0)} stroke="rgba(255,255,255,0.15)" />
+        <line x1={CHART_PAD} y1={y(max)} x2={CHART_W - CHART_PAD} y2={y(max)} stroke="rgba(255,255,255,0.08)" strokeDasharray="4 4" />
+        <polyline points={points} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+        {runs.map((run, i) => (
+          <circle key={i} cx={x(i)} cy={y(values[i])} r={3} fill={MODE_COLORS[run.mode]}>
+            <title>{`${i18n.date(run.date)} · ${format(values[i])}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+// ─── Player Stats Screen ──────────────────────────────────────────────────────
+export default function StatsScreen({ player, profile, i18n, onClose }: StatsScreenProps) {
+  const { t } = i18n;
+  const totalKills = COIN_TYPES.reduce((sum, type) => sum + profile.killsByCoin[type], 0);
+  const topKills = Math.max(...COIN_TYPES.map(type => profile.killsByCoin[type]), 1);
+  const runs = profile.history;
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        borderRadius: "16px",
+        background: "rgba(2,4,8,0.94)",
+        gap: "12px",
+        fontFamily: "monospace",
+        cursor: "default",
+        overflowY: "auto",
+      }}
+    >
+      <div style={{ color: "#00c8ff", fontSize: "24px", fontWeight: "bold", letterSpacing: "3px" }}>
+        {t("stats.title")}
+      </div>
+      <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "12px" }}>{player}</div>
+
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", justifyContent: "center" }}>
+        <Tile label={t("stats.runs")} value={i18n.number(profile.runsPlayed)} color="#00c8ff" />
+        <Tile label={t("stats.playTime")} value={formatPlayTime(profile.playTimeMs, i18n)} color="#00c8ff" />
+        <Tile label={t("stats.bestScore")} value={`$${i18n.number(profile.bestScore)}`} color="#ffd700" />
+        <Tile
+          label={t("stats.accuracy")}
+          value={`${Math.round(accuracy(profile.wavesHit, profile.wavesFired) * 100)}%`}
+          color="#00ffcc"
+        />
+        <Tile label={t("stats.bestCombo")} value={`${i18n.number(profile.bestCombo)}x`} color="#ff4466" />
+        <Tile label={t("stats.bossKills")} value={i18n.number(profile.bossKills)} color="#FFD700" />
+        <Tile label={t("stats.wavesFired")} value={i18n.number(profile.wavesFired)} color="#00ffcc" />
+      </div>
+
+      {profile.runsPlayed === 0 ? (
+        <div style={{ color: "rgba(255,255,255,0.4)", fontSize: "13px", padding: "20px" }}>
+          {t("stats.empty")}
+        </div>
+      ) : (
+        <div style={{ display: "flex", gap: "12px", flexWrap: "wrap", justifyContent: "center" }}>
+          <div style={{ ...panelStyle, width: "220px" }}>
+            <div style={headingStyle}>{t("stats.killsByCoin", { total: totalKills })}</div>
+            {COIN_TYPES.map(type => {
+              const kills = profile.killsByCoin[type];
+              const color = ENEMIES[type].palette.primary;
+              return (
+                <div key={type} style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "10px", marginBottom: "4px" }}>
+                  <span style={{ color, width: "36px" }}>{type}</span>
+                  <div style={{ flex: 1, height: "8px", background: "rgba(255,255,255,0.06)", borderRadius: "4px" }}>
+                    <div style={{ width: `${(kills / topKills) * 100}%`, height: "100%", background: color, borderRadius: "4px" }} />
+                  </div>
+                  <span style={{ color: "rgba(255,255,255,0.6)", width: "40px", textAlign: "right" }}>{i18n.number(kills)}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+            <HistoryChart
+              title={t("stats.scoreHistory", { count: runs.length })}
+              runs={runs}
+              value={run => run.score}
+              format={v => `$${i18n.number(Math.round(v))}`}
+              color="#ffd700"
+              i18n={i18n}
+            />
+            <HistoryChart
+              title={t("stats.accuracyHistory")}
+              runs={runs}
+              value={run => run.accuracy}
+              format={v => `${Math.round(v * 100)}%`}
+              color="#00ffcc"
+              i18n={i18n}
+            />
+            <div style={{ fontSize: "10px", color: "rgba(255,255,255,0.5)", display: "flex", gap: "12px" }}>
+              <span style={{ color: MODE_COLORS.campaign }}>{t("stats.campaign")}</span>
+              <span style={{ color: MODE_COLORS.endless }}>{t("stats.endless")}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={onClose}
+        style={{
+          padding: "6px 18px",
+          fontSize: "12px",
+          fontWeight: "bold",
+          fontFamily: "monospace",
+          background: "linear-gradient(135deg, #00c8ff, #0066cc)",
+          color: "#ffffff",
+          border: "none",
+          borderRadius: "6px",
+          cursor: "pointer",
+        }}
+      >
+        {t("common.back")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { ACHIEVEMENT_IDS, ACHIEVEMENTS, type UnlockedAchievements } from "@/lib/achievements";
+import type { Translator } from "@/lib/i18n";
+
+interface TrophyGalleryProps {
+  unlocked: UnlockedAchievements;
+  i18n: Translator;
+  onClose: () => void;
+}
+
+const cardStyle: CSSProperties = {
+  width: "170px",
+  padding: "10px",
+  borderRadius: "10px",
+  fontFamily: "monospace",
+  textAlign: "center",
+  display: "flex",
+  flexDirection: "column",
+  gap: "4px",
+  alignItems: "center",
+};
+
+// ─── Trophy Gallery ───────────────────────────────────────────────────────────
+export default function TrophyGallery({ unlocked, i18n, onClose }: TrophyGalleryProps) {
+  const { t } = i18n;
+  const earned = ACHIEVEMENT_IDS.filter(id => unlocked[id]).length;
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        borderRadius: "16px",
+        background: "rgba(2,4,8,0.94)",
+        gap: "14px",
+        fontFamily: "monospace",
+        cursor: "default",
+        overflowY: "auto",
+      }}
+    >
+      <div style={{ color: "#ffd700", fontSize: "26px", fontWeight: "bold", letterSpacing: "3px" }}>{t("trophies.title")}</div>
+      <div style={{ color: "rgba(255,255,255,0.5)", fontSize: "12px" }}>
+        {t("trophies.count", { earned, total: ACHIEVEMENT_IDS.length })}
+      </div>
+
+      <div style={{ display: "flex", gap: "10px", flexWrap: "wrap", justifyContent: "center", maxWidth: "780px" }}>
+        {ACHIEVEMENT_IDS.map(id => {
+          const { icon } = ACHIEVEMENTS[id];
+          const date = unlocked[id];
+          return (
+            <div
+              key={id}
+              style={{
+                ...cardStyle,
+                background: date ? "rgba(255,215,0,0.08)" : "rgba(255,255,255,0.03)",
+                border: `1px solid ${date ? "rgba(255,215,0,0.6)" : "rgba(255,255,255,0.12)"}`,
+                boxShadow: date ? "0 0 12px rgba(255,215,0,0.25)" : "none",
+              }}
+            >
+              <div style={{ fontSize: "26px", filter: date ? "none" : "grayscale(1)", opacity: date ? 1 : 0.35 }}>
+                {date ? icon : "🔒"}
+              </div>
+              <div style={{ color: date ? "#ffd700" : "rgba(255,255,255,0.5)", fontWeight: "bold", fontSize: "12px" }}>
+                {t(`achievement.${id}.title`)}
+              </div>
+              <div style={{ color: "rgba(255,255,255,0.55)", fontSize: "10px", lineHeight: "1.4" }}>
+                {t(`achievement.${id}.description`)}
+              </div>
+              {date && (
+                <div style={{ color: "rgba(255,215,0,0.6)", fontSize: "9px" }}>
+                  {i18n.date(date)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onClose}
+        style={{
+          padding: "6px 18px",
+          fontSize: "12px",
+          fontWeight: "bold",
+          fontFamily: "monospace",
+          background: "linear-gradient(135deg, #00c8ff, #0066cc)",
+          color: "#ffffff",
+          border: "none",
+          borderRadius: "6px",
+          cursor: "pointer",
+        }}
+      >
+        {t("common.back")}
+      </button>
+    </div>
+  );
+}
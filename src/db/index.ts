@@ -0,0 +1,4 @@
+import { createDatabase } from "@kilocode/app-builder-db";
+import * as schema from "./schema";
+
+export const db = createDatabase(schema);
@@ -0,0 +1,9 @@
+CREATE TABLE `scores` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`score` integer NOT NULL,
+	`seed` integer,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE INDEX `scores_score_idx` ON `scores` (`score`);
\ No newline at end of file
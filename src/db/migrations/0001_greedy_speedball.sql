@@ -0,0 +1,2 @@
+ALTER TABLE `scores` ADD `kills` integer;--> statement-breakpoint
+ALTER TABLE `scores` ADD `ticks` integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX `scores_score_idx`;--> statement-breakpoint
+ALTER TABLE `scores` ADD `mode` text DEFAULT 'campaign' NOT NULL;--> statement-breakpoint
+CREATE INDEX `scores_mode_score_idx` ON `scores` (`mode`,`score`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+
+// One row per finished run accepted by the global leaderboard (replay-verified)
+export const scores = sqliteTable(
+  "scores",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    name: text("name").notNull(),
+    score: integer("score").notNull(),
+    mode: text("mode").notNull().default("campaign"), // leaderboard category: campaign | endless
+    seed: integer("seed"),
+    kills: integer("kills"),
+    ticks: integer("ticks"), // run length in simulation ticks
+    createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  },
+  table => [index("scores_mode_score_idx").on(table.mode, table.score)],
+);
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createAchievementTracker, loadAchievements, trackAchievements, type AchievementTracker } from "../achievements";
+import { COIN_TYPES } from "../game/enemies";
+import type { CoinType, GameEvent } from "../game/types";
+import { storage } from "./storage";
+
+beforeEach(() => storage.clear());
+
+const kill = (coin: CoinType, combo = 1): GameEvent => ({ type: "meteorKilled", coin, combo, x: 0, y: 0 });
+const hit = (hp: number): GameEvent => ({ type: "suiHit", damage: 10, hp, from: "meteor", x: 0, y: 0, color: "#fff" });
+const victory: GameEvent = { type: "runEnded", outcome: "victory", score: 1000 };
+
+function feed(tracker: AchievementTracker, events: GameEvent[]) {
+  return events.flatMap(event => trackAchievements(tracker, event));
+}
+
+describe("achievements", () => {
+  test("kill goals count lifetime kills, starting from the profile", () => {
+    storage.set("dogSuiDefenderProfile:ana", JSON.stringify({ killsByCoin: { BTC: 99 } }));
+    const tracker = createAchievementTracker("ana", 100);
+    expect(feed(tracker, [kill("BTC")])).toEqual(["whaleHunter"]);
+    expect(Object.keys(loadAchievements("ana"))).toEqual(["whaleHunter"]);
+  });
+
+  test("combo goals unlock once each, in order", () => {
+    const tracker = createAchievementTracker("ana", 100);
+    expect(feed(tracker, [kill("ETH", 9), kill("ETH", 10), kill("ETH", 11)])).toEqual(["combo10"]);
+    expect(feed(tracker, [kill("ETH", 50)])).toEqual(["combo25", "combo50"]);
+  });
+
+  test("a full wallet takes every coin in one run", () => {
+    const tracker = createAchievementTracker("ana", 100);
+    expect(feed(tracker, COIN_TYPES.map(coin => kill(coin)))).toContain("fullWallet");
+    expect(feed(createAchievementTracker("bia", 100), COIN_TYPES.slice(1).map(coin => kill(coin)))).not.toContain("fullWallet");
+  });
+
+  test("untouchable needs a boss beaten without taking a hit since it arrived", () => {
+    const tracker = createAchievementTracker("ana", 100);
+    const arrives: GameEvent = { type: "bossSpawned", boss: "PEPE_KING" };
+    const falls: GameEvent = { type: "bossDefeated", boss: "PEPE_KING", x: 0, y: 0 };
+    expect(feed(tracker, [arrives, hit(90), falls])).toEqual(["regicide"]);
+    expect(feed(tracker, [hit(80), { ...arrives, boss: "BONK_BOSS" }, { ...falls, boss: "BONK_BOSS" }])).toEqual([
+      "bonkBreaker",
+      "untouchable",
+    ]);
+  });
+
+  test("winning with no strong wave and under a tenth of the HP left", () => {
+    const tracker = createAchievementTracker("ana", 150);
+    expect(feed(tracker, [hit(14), victory])).toEqual(["purist", "hangingByAThread"]);
+    const strong = createAchievementTracker("bia", 100);
+    expect(feed(strong, [{ type: "waveFired", strong: true }, victory])).toEqual([]);
+  });
+
+  test("fully charged takes every power-up in one run", () => {
+    const tracker = createAchievementTracker("ana", 100);
+    const pickups = (["shield", "multiplier", "heal", "speed"] as const).map(
+      (powerUp): GameEvent => ({ type: "powerUpCollected", powerUp }),
+    );
+    expect(feed(tracker, pickups.slice(0, 3))).toEqual([]);
+    expect(feed(tracker, [pickups[3], pickups[3]])).toEqual(["fullyCharged"]);
+  });
+
+  test("nothing unlocks twice", () => {
+    feed(createAchievementTracker("ana", 100), [kill("ETH", 10)]);
+    expect(feed(createAchievementTracker("ana", 100), [kill("ETH", 10)])).toEqual([]);
+  });
+});
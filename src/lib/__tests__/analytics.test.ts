@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { createRunTally, tallyEvent } from "../analytics";
+
+describe("run analytics", () => {
+  test("counts every event and sums damage by source", () => {
+    const tally = createRunTally("campaign");
+    tallyEvent(tally, { type: "waveFired", strong: false });
+    tallyEvent(tally, { type: "waveFired", strong: true });
+    tallyEvent(tally, { type: "suiHit", damage: 10, hp: 90, from: "meteor", x: 0, y: 0, color: "#fff" });
+    tallyEvent(tally, { type: "suiHit", damage: 15, hp: 75, from: "boss", x: 0, y: 0, color: "#fff" });
+    expect(tally.events).toEqual({ waveFired: 2, suiHit: 2 });
+    expect(tally.damageFrom).toEqual({ meteor: 10, boss: 15 });
+  });
+
+  test("a run's record says where it ended", () => {
+    const tally = createRunTally("endless", 2);
+    expect(tallyEvent(tally, { type: "phaseChanged", level: 3 })).toBeNull();
+    tallyEvent(tally, { type: "endlessLevel", level: 4 });
+    const run = tallyEvent(tally, { type: "runEnded", outcome: "gameover", score: 900 });
+    expect(run).toMatchObject({
+      mode: "endless",
+      outcome: "gameover",
+      score: 900,
+      phase: 3,
+      endlessLevel: 4,
+      events: { phaseChanged: 1, endlessLevel: 1, runEnded: 1 },
+    });
+  });
+});
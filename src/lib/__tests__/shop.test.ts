@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { NO_UPGRADES } from "../game/upgrades";
+import { bankedShare, bankRun, buyUpgrade, loadShop, nextUpgradeCost, runLoadout, setApplyUpgrades } from "../shop";
+import { storage } from "./storage";
+
+beforeEach(() => storage.clear());
+
+describe("wallet", () => {
+  test("a run banks a tenth of its final score, rounded down", () => {
+    expect(bankedShare(1234)).toBe(123);
+    expect(bankedShare(-50)).toBe(0);
+    bankRun("ana", 1234);
+    expect(bankRun("ana", 1000).wallet).toBe(223);
+    expect(loadShop("bia").wallet).toBe(0);
+  });
+
+  test("a purchase needs the wallet to cover it", () => {
+    bankRun("ana", 4000);
+    expect(buyUpgrade("ana", "waveRadius")?.owned.waveRadius).toBe(1);
+    expect(buyUpgrade("ana", "waveRadius")).toBeNull();
+    expect(loadShop("ana")).toMatchObject({ wallet: 0, owned: { waveRadius: 1 } });
+  });
+
+  test("maxed upgrades have no next price", () => {
+    const shop = { wallet: 0, owned: { ...NO_UPGRADES, startingShield: 2 }, applyUpgrades: true };
+    expect(nextUpgradeCost(shop, "startingShield")).toBeNull();
+    expect(nextUpgradeCost(shop, "startingHp")).toBe(600);
+  });
+
+  test("a corrupt save loads as an empty shop", () => {
+    storage.set("dogSuiDefenderShop:ana", "{nope");
+    expect(loadShop("ana")).toEqual({ wallet: 0, owned: NO_UPGRADES, applyUpgrades: true });
+  });
+});
+
+describe("ranked runs", () => {
+  test("runs start with the owned upgrades until they are switched off", () => {
+    bankRun("ana", 4000);
+    const shop = buyUpgrade("ana", "waveRadius")!;
+    expect(runLoadout(shop)).toEqual({ ...NO_UPGRADES, waveRadius: 1 });
+    const ranked = setApplyUpgrades("ana", false);
+    expect(runLoadout(ranked)).toEqual(NO_UPGRADES);
+    expect(loadShop("ana")).toMatchObject({ applyUpgrades: false, owned: { waveRadius: 1 } });
+  });
+});
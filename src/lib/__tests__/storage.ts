@@ -0,0 +1,13 @@
+// ─── In-Memory localStorage ───────────────────────────────────────────────────
+// The per-player stores (shop, profile, achievements) read localStorage behind
+// a `typeof window` check; tests that import this get one shared in-memory copy.
+
+export const storage = new Map<string, string>();
+
+Object.assign(globalThis, {
+  window: globalThis,
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => void storage.set(key, value),
+  },
+});
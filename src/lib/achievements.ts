@@ -0,0 +1,160 @@
+import { COIN_TYPES } from "./game/enemies";
+import type { BossType, CoinType, GameEvent, PowerUpType } from "./game/types";
+import { loadProfile } from "./profile";
+
+// ─── Achievements ─────────────────────────────────────────────────────────────
+// A tracker follows one run's events and reports each achievement the moment
+// it is earned. Unlocks are saved per player in localStorage; lifetime counts
+// start from the player's profile, which already totals every finished run.
+
+export type AchievementId =
+  | "whaleHunter"
+  | "memeSlayer"
+  | "fullWallet"
+  | "combo10"
+  | "combo25"
+  | "combo50"
+  | "untouchable"
+  | "regicide"
+  | "bonkBreaker"
+  | "purist"
+  | "hangingByAThread"
+  | "fullyCharged";
+
+// Titles and descriptions are in the locale catalogs, under `achievement.<id>.*`
+export interface AchievementDefinition {
+  icon: string;
+}
+
+export const ACHIEVEMENTS: Record<AchievementId, AchievementDefinition> = {
+  whaleHunter: { icon: "🐋" },
+  memeSlayer: { icon: "🐸" },
+  fullWallet: { icon: "👛" },
+  combo10: { icon: "🔥" },
+  combo25: { icon: "💥" },
+  combo50: { icon: "🌋" },
+  untouchable: { icon: "🛡️" },
+  regicide: { icon: "👑" },
+  bonkBreaker: { icon: "🔨" },
+  purist: { icon: "🎯" },
+  hangingByAThread: { icon: "🩸" },
+  fullyCharged: { icon: "⚡" },
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+const BTC_GOAL = 100;
+const MEME_GOAL = 250;
+const MEME_COINS: CoinType[] = ["PEPE", "DOGE", "SHIB", "BONK", "WIF"];
+const COMBO_GOALS: [number, AchievementId][] = [[10, "combo10"], [25, "combo25"], [50, "combo50"]];
+const BOSS_ACHIEVEMENTS: Record<BossType, AchievementId> = { PEPE_KING: "regicide", BONK_BOSS: "bonkBreaker" };
+const POWER_UP_COUNT = 4;
+const LOW_HP_FRACTION = 0.1;
+
+const ACHIEVEMENTS_KEY_PREFIX = "dogSuiDefenderAchievements:";
+
+// id → ISO date of the unlock
+export type UnlockedAchievements = Partial<Record<AchievementId, string>>;
+
+export function loadAchievements(player: string): UnlockedAchievements {
+  if (typeof window === "undefined") return {};
+  try {
+    const saved = localStorage.getItem(ACHIEVEMENTS_KEY_PREFIX + player);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveAchievements(player: string, unlocked: UnlockedAchievements): void {
+  try {
+    localStorage.setItem(ACHIEVEMENTS_KEY_PREFIX + player, JSON.stringify(unlocked));
+  } catch {
+    // ignore
+  }
+}
+
+export interface AchievementTracker {
+  player: string;
+  unlocked: UnlockedAchievements;
+  kills: Record<CoinType, number>; // lifetime, including this run
+  coinsThisRun: Set<CoinType>;
+  powerUpsThisRun: Set<PowerUpType>;
+  strongWaves: number;
+  hp: number;
+  maxHp: number; // the run's starting HP, raised by upgrades
+  bossUntouched: boolean; // no damage since the current boss arrived
+}
+
+/** Starts tracking a new run for `player`, who starts it with `maxHp`. */
+export function createAchievementTracker(player: string, maxHp: number): AchievementTracker {
+  return {
+    player,
+    unlocked: loadAchievements(player),
+    kills: { ...loadProfile(player).killsByCoin },
+    coinsThisRun: new Set(),
+    powerUpsThisRun: new Set(),
+    strongWaves: 0,
+    hp: maxHp,
+    maxHp,
+    bossUntouched: false,
+  };
+}
+
+/** Feeds one game event in. Returns the achievements it unlocked. */
+export function trackAchievements(tracker: AchievementTracker, event: GameEvent): AchievementId[] {
+  const earned: AchievementId[] = [];
+  const lowHp = tracker.hp < tracker.maxHp * LOW_HP_FRACTION;
+  const earn = (id: AchievementId) => {
+    if (tracker.unlocked[id] || earned.includes(id)) return;
+    earned.push(id);
+  };
+
+  switch (event.type) {
+    case "waveFired":
+      if (event.strong) tracker.strongWaves++;
+      break;
+    case "meteorKilled":
+      tracker.kills[event.coin]++;
+      tracker.coinsThisRun.add(event.coin);
+      if (tracker.kills.BTC >= BTC_GOAL) earn("whaleHunter");
+      if (MEME_COINS.reduce((sum, coin) => sum + tracker.kills[coin], 0) >= MEME_GOAL) earn("memeSlayer");
+      if (tracker.coinsThisRun.size === COIN_TYPES.length) earn("fullWallet");
+      for (const [goal, id] of COMBO_GOALS) if (event.combo >= goal) earn(id);
+      break;
+    case "suiHit":
+      tracker.hp = event.hp;
+      tracker.bossUntouched = false;
+      break;
+    case "suiHealed":
+      tracker.hp = event.hp;
+      break;
+    case "powerUpCollected":
+      tracker.powerUpsThisRun.add(event.powerUp);
+      if (tracker.powerUpsThisRun.size === POWER_UP_COUNT) earn("fullyCharged");
+      break;
+    case "bossSpawned":
+      tracker.bossUntouched = true;
+      break;
+    case "bossDefeated":
+      earn(BOSS_ACHIEVEMENTS[event.boss]);
+      if (tracker.bossUntouched) earn("untouchable");
+      if (lowHp) earn("hangingByAThread");
+      break;
+    case "phaseChanged":
+      if (lowHp) earn("hangingByAThread");
+      break;
+    case "runEnded":
+      if (event.outcome !== "victory") break;
+      if (tracker.strongWaves === 0) earn("purist");
+      if (lowHp) earn("hangingByAThread");
+      break;
+  }
+
+  if (earned.length > 0) {
+    const now = new Date().toISOString();
+    for (const id of earned) tracker.unlocked[id] = now;
+    saveAchievements(tracker.player, tracker.unlocked);
+  }
+  return earned;
+}
@@ -0,0 +1,84 @@
+import type { GameEventType } from "./game/events";
+import type { GameEvent, GameMode, RunOutcome } from "./game/types";
+
+// ─── Gameplay Analytics ───────────────────────────────────────────────────────
+// Per-device tallies for balancing: how often each GameEvent fired in a run,
+// what the damage came from and where the run ended. Fed by an event-bus
+// subscriber during live runs only and kept in localStorage, the last
+// RUN_LOG_LIMIT runs. Nothing here is sent anywhere.
+
+export interface RunAnalytics {
+  date: string; // ISO timestamp of the run's end
+  mode: GameMode;
+  outcome: RunOutcome;
+  score: number;
+  phase: number; // index into CAMPAIGN the run ended on
+  endlessLevel: number | null; // endless level it ended on, if it got there
+  events: Partial<Record<GameEventType, number>>;
+  damageFrom: { meteor: number; boss: number };
+}
+
+export interface RunTally {
+  mode: GameMode;
+  phase: number;
+  endlessLevel: number | null;
+  events: Partial<Record<GameEventType, number>>;
+  damageFrom: { meteor: number; boss: number };
+}
+
+export const RUN_LOG_LIMIT = 50;
+
+const ANALYTICS_KEY = "dogSuiDefenderAnalytics";
+
+export function createRunTally(mode: GameMode, startLevel = 0): RunTally {
+  return { mode, phase: startLevel, endlessLevel: null, events: {}, damageFrom: { meteor: 0, boss: 0 } };
+}
+
+/** Counts one event. Returns the finished run's record on `runEnded`, otherwise null. */
+export function tallyEvent(tally: RunTally, event: GameEvent): RunAnalytics | null {
+  tally.events[event.type] = (tally.events[event.type] ?? 0) + 1;
+  switch (event.type) {
+    case "suiHit":
+      tally.damageFrom[event.from] += event.damage;
+      break;
+    case "phaseChanged":
+      tally.phase = event.level;
+      break;
+    case "endlessLevel":
+      tally.endlessLevel = event.level;
+      break;
+    case "runEnded":
+      return {
+        date: new Date().toISOString(),
+        mode: tally.mode,
+        outcome: event.outcome,
+        score: event.score,
+        phase: tally.phase,
+        endlessLevel: tally.endlessLevel,
+        events: { ...tally.events },
+        damageFrom: { ...tally.damageFrom },
+      };
+  }
+  return null;
+}
+
+export function loadRunAnalytics(): RunAnalytics[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = localStorage.getItem(ANALYTICS_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? (parsed as RunAnalytics[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Appends a finished run, dropping the oldest past RUN_LOG_LIMIT. */
+export function saveRunAnalytics(run: RunAnalytics): void {
+  try {
+    const log = [...loadRunAnalytics(), run].slice(-RUN_LOG_LIMIT);
+    localStorage.setItem(ANALYTICS_KEY, JSON.stringify(log));
+  } catch {
+    // ignore
+  }
+}
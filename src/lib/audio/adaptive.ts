@@ -0,0 +1,86 @@
+import { CAMPAIGN } from "../game/levels";
+import type { GameState } from "../game/types";
+import { playTrack, setMix, type MusicMix, type PlayOptions } from "./sequencer";
+import type { TrackId } from "./tracks";
+
+// ─── Adaptive Music ───────────────────────────────────────────────────────────
+// The soundtrack as a pure function of the game state. Each frame the host
+// hands over the live GameState; `musicFor` picks the track and the mix from
+// it and the sequencer follows, crossfading tracks and easing the mix. Nothing
+// here listens for events: a boss on screen means boss music, however it got
+// there.
+//
+//   meteors on screen → drums, then harmony, fade in over the core
+//   boss fight        → the boss track, every layer in
+//   low HP            → lowpass closes and the music ducks
+//   combo             → tempo creeps up
+
+export interface MusicState {
+  track: TrackId;
+  options: PlayOptions;
+  mix: MusicMix;
+}
+
+// Meteor counts over which each layer fades from silent to full
+const DRUMS_METEORS: [number, number] = [2, 8];
+const HARMONY_METEORS: [number, number] = [6, 14];
+// Layers never drop fully out, so a quiet moment is not dead air
+const LAYER_FLOOR = 0.15;
+
+// HP fraction under which the music starts closing in
+const LOW_HP_FRACTION = 0.35;
+const OPEN_CUTOFF = 20000; // Hz
+const CLOSED_CUTOFF = 700; // Hz, at 0 HP
+const DUCKED_LEVEL = 0.55; // at 0 HP
+
+const COMBO_FOR_MAX_TEMPO = 30;
+const MAX_TEMPO_BOOST = 0.12;
+
+// Mix values are rounded so small wobbles don't re-automate every frame
+const MIX_STEPS = 20;
+
+function quantize(value: number): number {
+  return Math.round(value * MIX_STEPS) / MIX_STEPS;
+}
+
+// 0 at or below `from`, 1 at or above `to`
+function ramp(value: number, [from, to]: [number, number]): number {
+  return Math.min(Math.max((value - from) / (to - from), 0), 1);
+}
+
+function layerLevel(meteors: number, range: [number, number]): number {
+  return quantize(LAYER_FLOOR + (1 - LAYER_FLOOR) * ramp(meteors, range));
+}
+
+export function musicFor(state: GameState): MusicState {
+  const bossFight = state.boss !== null && !state.bossDefeated;
+  const { track, tempo, transpose } = CAMPAIGN[state.levelIndex].music;
+  const meteors = state.meteors.length;
+
+  // 1 at full health down to LOW_HP_FRACTION, then falling to 0 at death
+  const health = ramp(state.hp / state.maxHp, [0, LOW_HP_FRACTION]);
+  const danger = quantize(1 - health);
+
+  return {
+    track: bossFight ? "boss" : track,
+    options: bossFight ? {} : { tempo, transpose },
+    mix: {
+      layers: {
+        core: 1,
+        harmony: bossFight ? 1 : layerLevel(meteors, HARMONY_METEORS),
+        drums: bossFight ? 1 : layerLevel(meteors, DRUMS_METEORS),
+      },
+      // Exponential sweep so the filter closes evenly to the ear
+      cutoff: Math.round(OPEN_CUTOFF * (CLOSED_CUTOFF / OPEN_CUTOFF) ** danger),
+      level: quantize(1 - (1 - DUCKED_LEVEL) * danger),
+      tempoBoost: 1 + quantize(Math.min(state.combo / COMBO_FOR_MAX_TEMPO, 1)) * MAX_TEMPO_BOOST,
+    },
+  };
+}
+
+/** Points the sequencer at the music for `state`. Call once per frame while a run is live. */
+export function updateMusic(state: GameState) {
+  const { track, options, mix } = musicFor(state);
+  setMix(mix);
+  playTrack(track, options);
+}
@@ -0,0 +1,169 @@
+// ─── Audio Engine ─────────────────────────────────────────────────────────────
+// One AudioContext for the page, mixed through three buses:
+//
+//   sfx ───────────────┐
+//   music → musicFade ─┴→ master → destination
+//
+// The bus gains carry the player's volume settings (saved in localStorage) and
+// `musicFade` is what pausing fades, so neither ever overwrites the other.
+// Sound effects go through `playSfx`, which caps how many copies of the same
+// sound can overlap: a strong wave that kills twenty meteors in one tick plays
+// a handful of explosions, not twenty stacked oscillators.
+
+export type AudioBus = "master" | "music" | "sfx";
+
+export const AUDIO_BUSES: AudioBus[] = ["master", "music", "sfx"];
+
+export interface AudioSettings {
+  volume: Record<AudioBus, number>; // 0–1
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volume: { master: 0.8, music: 0.7, sfx: 0.9 },
+  muted: false,
+};
+
+export interface SfxLimit {
+  maxVoices: number; // copies of one sound playing at once
+  minGapMs: number; // shortest time between two starts of one sound
+}
+
+const DEFAULT_SFX_LIMIT: SfxLimit = { maxVoices: 4, minGapMs: 30 };
+
+// Seconds for gain changes to settle, so slider drags and mutes never click
+const GAIN_SMOOTHING = 0.03;
+const MUSIC_FADE_SMOOTHING = 0.08;
+
+const AUDIO_SETTINGS_KEY = "dogSuiDefenderAudio";
+
+interface AudioEngine {
+  ctx: AudioContext;
+  buses: Record<AudioBus, GainNode>;
+  musicFade: GainNode;
+  voices: Map<string, number[]>; // sound name → end times of the copies playing
+  lastStart: Map<string, number>; // sound name → ctx time of the last start
+}
+
+let engine: AudioEngine | null = null;
+let settings: AudioSettings = loadAudioSettings();
+
+export function loadAudioSettings(): AudioSettings {
+  const defaults: AudioSettings = { volume: { ...DEFAULT_AUDIO_SETTINGS.volume }, muted: false };
+  if (typeof window === "undefined") return defaults;
+  try {
+    const saved = localStorage.getItem(AUDIO_SETTINGS_KEY);
+    if (!saved) return defaults;
+    const parsed = JSON.parse(saved) as Partial<AudioSettings>;
+    for (const bus of AUDIO_BUSES) {
+      const v = parsed.volume?.[bus];
+      if (typeof v === "number" && Number.isFinite(v)) defaults.volume[bus] = Math.min(Math.max(v, 0), 1);
+    }
+    defaults.muted = parsed.muted === true;
+    return defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+function saveAudioSettings(next: AudioSettings): void {
+  try {
+    localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(next));
+  } catch {
+    // ignore
+  }
+}
+
+function busLevel(bus: AudioBus): number {
+  if (bus === "master" && settings.muted) return 0;
+  return settings.volume[bus];
+}
+
+function getEngine(): AudioEngine {
+  if (engine) return engine;
+  const ctx = new (window.AudioContext ||
+    (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+  const bus = () => ctx.createGain();
+  const buses: Record<AudioBus, GainNode> = { master: bus(), music: bus(), sfx: bus() };
+  const musicFade = ctx.createGain();
+  buses.music.connect(musicFade);
+  musicFade.connect(buses.master);
+  buses.sfx.connect(buses.master);
+  buses.master.connect(ctx.destination);
+  for (const name of AUDIO_BUSES) buses[name].gain.value = busLevel(name);
+  engine = { ctx, buses, musicFade, voices: new Map(), lastStart: new Map() };
+  return engine;
+}
+
+/** The shared context. Created on first use, which should follow a user gesture. */
+export function getAudioContext(): AudioContext {
+  return getEngine().ctx;
+}
+
+/** Browsers start contexts suspended until the page is interacted with. */
+export async function resumeAudio(): Promise<void> {
+  const { ctx } = getEngine();
+  if (ctx.state === "suspended") await ctx.resume();
+}
+
+/** Input node of the music bus; music sources connect here. */
+export function musicOutput(): AudioNode {
+  return getEngine().buses.music;
+}
+
+export function getAudioSettings(): AudioSettings {
+  return settings;
+}
+
+/** Applies and saves new settings. Returns them for React state. */
+export function setAudioSettings(next: AudioSettings): AudioSettings {
+  settings = next;
+  saveAudioSettings(next);
+  if (engine) {
+    const now = engine.ctx.currentTime;
+    for (const name of AUDIO_BUSES) engine.buses[name].gain.setTargetAtTime(busLevel(name), now, GAIN_SMOOTHING);
+  }
+  return settings;
+}
+
+export function setBusVolume(bus: AudioBus, volume: number): AudioSettings {
+  return setAudioSettings({ ...settings, volume: { ...settings.volume, [bus]: Math.min(Math.max(volume, 0), 1) } });
+}
+
+export function toggleMute(): AudioSettings {
+  return setAudioSettings({ ...settings, muted: !settings.muted });
+}
+
+/** Fades the music out (pause) or back in (resume) without touching its volume setting. */
+export function fadeMusic(on: boolean): void {
+  if (!engine) return;
+  try {
+    engine.musicFade.gain.setTargetAtTime(on ? 1 : 0, engine.ctx.currentTime, MUSIC_FADE_SMOOTHING);
+  } catch {}
+}
+
+/**
+ * Plays one sound effect into the SFX bus. `build` wires its nodes from
+ * `out`, starting at ctx time `t`, and must be done within `duration`
+ * seconds. Dropped when `limit` says too many copies of `name` are playing.
+ */
+export function playSfx(
+  name: string,
+  duration: number,
+  build: (ctx: AudioContext, out: AudioNode, t: number) => void,
+  limit: SfxLimit = DEFAULT_SFX_LIMIT,
+): void {
+  try {
+    const { ctx, buses, voices, lastStart } = getEngine();
+    const t = ctx.currentTime;
+    const playing = (voices.get(name) ?? []).filter(end => end > t);
+    const last = lastStart.get(name);
+    if (playing.length >= limit.maxVoices || (last !== undefined && (t - last) * 1000 < limit.minGapMs)) {
+      voices.set(name, playing);
+      return;
+    }
+    build(ctx, buses.sfx, t);
+    voices.set(name, [...playing, t + duration]);
+    lastStart.set(name, t);
+  } catch {}
+}
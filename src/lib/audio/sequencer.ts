@@ -0,0 +1,268 @@
+import { fadeMusic, getAudioContext, musicOutput, resumeAudio } from "./engine";
+import {
+  INSTRUMENTS,
+  midiToHz,
+  MUSIC_LAYERS,
+  TRACKS,
+  type Instrument,
+  type MusicLayer,
+  type TrackId,
+} from "./tracks";
+
+// ─── Music Sequencer ──────────────────────────────────────────────────────────
+// Lookahead scheduling: a coarse timer wakes every SCHEDULE_MS and books every
+// note due in the next LOOKAHEAD_S on the AudioContext clock, so notes land
+// sample-accurately whatever the timer's jitter. All parts of a track share
+// one step counter and cannot drift apart. Switching tracks crossfades two
+// "decks": the old one keeps playing while it fades out under the new one.
+//
+//   notes → deck layer gains → deck gain → lowpass → level → music bus
+//
+// The mix (layer gains, lowpass cutoff, level, tempo boost) is shared by every
+// deck and set from outside, e.g. by the adaptive music each frame.
+
+export interface PlayOptions {
+  tempo?: number; // × the track's bpm
+  transpose?: number; // semitones
+  crossfade?: number; // seconds; 0 cuts straight over
+}
+
+export interface MusicMix {
+  layers: Record<MusicLayer, number>; // 0–1
+  cutoff: number; // lowpass frequency, Hz
+  level: number; // 0–1, for ducking
+  tempoBoost: number; // × on top of the track's tempo
+}
+
+export const FULL_MIX: MusicMix = {
+  layers: { core: 1, harmony: 1, drums: 1 },
+  cutoff: 20000,
+  level: 1,
+  tempoBoost: 1,
+};
+
+interface Deck {
+  id: TrackId;
+  tempo: number;
+  transpose: number;
+  gain: GainNode;
+  layers: Record<MusicLayer, GainNode>;
+  step: number; // next step to schedule
+  time: number; // ctx time of that step
+  endsAt: number; // ctx time the fade-out is done, Infinity while playing
+}
+
+const SCHEDULE_MS = 25;
+const LOOKAHEAD_S = 0.1;
+// Hidden tabs run timers about once a second; book far enough ahead to cover it
+const HIDDEN_LOOKAHEAD_S = 1.5;
+const START_DELAY_S = 0.05;
+const CROSSFADE_S = 1.5;
+const STOP_FADE_S = 0.3;
+// Short release at the end of each note so cut-offs don't click
+const RELEASE_S = 0.01;
+// Time constant for mix changes, so layers swell in rather than switch
+const MIX_SMOOTHING_S = 0.25;
+
+let deck: Deck | null = null;
+let mix: MusicMix = FULL_MIX;
+let chain: { filter: BiquadFilterNode; level: GainNode } | null = null;
+let fading: Deck[] = [];
+let timer: ReturnType<typeof setInterval> | null = null;
+let noiseBuffer: AudioBuffer | null = null;
+
+function stepSeconds(d: Deck): number {
+  const track = TRACKS[d.id];
+  return 60 / (track.bpm * d.tempo * mix.tempoBoost) / track.stepsPerBeat;
+}
+
+// The lowpass and level stages every deck plays into
+function mixInput(ctx: AudioContext): AudioNode {
+  if (!chain) {
+    const filter = ctx.createBiquadFilter();
+    const level = ctx.createGain();
+    filter.type = "lowpass";
+    filter.frequency.value = mix.cutoff;
+    level.gain.value = mix.level;
+    filter.connect(level);
+    level.connect(musicOutput());
+    chain = { filter, level };
+  }
+  return chain.filter;
+}
+
+function noise(ctx: AudioContext): AudioBuffer {
+  if (!noiseBuffer || noiseBuffer.sampleRate !== ctx.sampleRate) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate * 0.1, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  return noiseBuffer;
+}
+
+function scheduleNote(
+  ctx: AudioContext,
+  out: AudioNode,
+  instrument: Instrument,
+  note: number,
+  time: number,
+  stepLength: number,
+  transpose: number,
+) {
+  const gain = ctx.createGain();
+  gain.connect(out);
+
+  if (instrument.kind === "synth") {
+    const end = time + instrument.steps * stepLength;
+    const osc = ctx.createOscillator();
+    osc.type = instrument.wave;
+    osc.frequency.setValueAtTime(midiToHz(note + transpose), time);
+    // Pump: attack at peak, settle to sustain, release at the end
+    gain.gain.setValueAtTime(instrument.peak, time);
+    gain.gain.exponentialRampToValueAtTime(instrument.sustain, time + Math.min(instrument.decay, end - time));
+    gain.gain.setTargetAtTime(0, end - RELEASE_S, RELEASE_S / 3);
+    osc.connect(gain);
+    osc.start(time);
+    osc.stop(end);
+  } else if (instrument.kind === "kick") {
+    const osc = ctx.createOscillator();
+    osc.type = "sine";
+    osc.frequency.setValueAtTime(180, time);
+    osc.frequency.exponentialRampToValueAtTime(40, time + instrument.length * 0.66);
+    gain.gain.setValueAtTime(instrument.gain, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + instrument.length);
+    osc.connect(gain);
+    osc.start(time);
+    osc.stop(time + instrument.length);
+  } else {
+    const src = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    src.buffer = noise(ctx);
+    filter.type = "highpass";
+    filter.frequency.value = 8000;
+    gain.gain.setValueAtTime(instrument.gain, time);
+    gain.gain.linearRampToValueAtTime(0, time + instrument.length);
+    src.connect(filter);
+    filter.connect(gain);
+    src.start(time);
+    src.stop(time + instrument.length);
+  }
+}
+
+function scheduleDeck(ctx: AudioContext, d: Deck, until: number) {
+  const track = TRACKS[d.id];
+  const length = stepSeconds(d);
+  // Fell behind (the tab slept): skip the missed steps rather than bunch them up
+  if (d.time < ctx.currentTime) {
+    const missed = Math.ceil((ctx.currentTime - d.time) / length);
+    d.step += missed;
+    d.time += missed * length;
+  }
+  const last = Math.min(until, d.endsAt);
+  while (d.time < last) {
+    for (const part of track.parts) {
+      const note = part.notes[d.step % part.notes.length];
+      if (note === null) continue;
+      const instrument = INSTRUMENTS[part.instrument];
+      scheduleNote(ctx, d.layers[instrument.layer], instrument, note, d.time, length, d.transpose);
+    }
+    d.step++;
+    d.time += length;
+  }
+}
+
+function tick() {
+  try {
+    const ctx = getAudioContext();
+    const until = ctx.currentTime + (document.hidden ? HIDDEN_LOOKAHEAD_S : LOOKAHEAD_S);
+    if (deck) scheduleDeck(ctx, deck, until);
+    for (const d of fading) scheduleDeck(ctx, d, until);
+    fading = fading.filter(d => {
+      if (ctx.currentTime < d.endsAt) return true;
+      d.gain.disconnect();
+      return false;
+    });
+  } catch {}
+  if (!deck && fading.length === 0 && timer !== null) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+function fadeOut(d: Deck, now: number, seconds: number) {
+  d.gain.gain.cancelScheduledValues(now);
+  d.gain.gain.setValueAtTime(d.gain.gain.value, now);
+  d.gain.gain.linearRampToValueAtTime(0, now + seconds);
+  d.endsAt = now + seconds;
+  fading.push(d);
+}
+
+/**
+ * Starts `id`, crossfading from whatever is playing. Asking for the track
+ * already playing with the same tempo and key does nothing, so it is cheap to
+ * call every frame.
+ */
+export function playTrack(id: TrackId, { tempo = 1, transpose = 0, crossfade = CROSSFADE_S }: PlayOptions = {}) {
+  try {
+    if (deck && deck.id === id && deck.tempo === tempo && deck.transpose === transpose) return;
+    const ctx = getAudioContext();
+    void resumeAudio();
+
+    const now = ctx.currentTime;
+    const gain = ctx.createGain();
+    gain.connect(mixInput(ctx));
+    const layers = Object.fromEntries(
+      MUSIC_LAYERS.map(layer => {
+        const node = ctx.createGain();
+        node.gain.value = mix.layers[layer];
+        node.connect(gain);
+        return [layer, node];
+      }),
+    ) as Record<MusicLayer, GainNode>;
+    if (deck && crossfade > 0) {
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(1, now + crossfade);
+      fadeOut(deck, now, crossfade);
+    } else {
+      if (deck) fadeOut(deck, now, RELEASE_S);
+      fadeMusic(true); // starting from silence is always audible, even after a pause
+    }
+    deck = { id, tempo, transpose, gain, layers, step: 0, time: now + START_DELAY_S, endsAt: Infinity };
+
+    if (timer === null) timer = setInterval(tick, SCHEDULE_MS);
+    tick();
+  } catch {}
+}
+
+/** Fades the music out and stops scheduling it. */
+export function stopTrack(fade = STOP_FADE_S) {
+  if (!deck) return;
+  try {
+    fadeOut(deck, getAudioContext().currentTime, fade);
+  } catch {}
+  deck = null;
+}
+
+function sameMix(a: MusicMix, b: MusicMix): boolean {
+  return (
+    a.cutoff === b.cutoff &&
+    a.level === b.level &&
+    a.tempoBoost === b.tempoBoost &&
+    MUSIC_LAYERS.every(layer => a.layers[layer] === b.layers[layer])
+  );
+}
+
+/** Moves the mix towards `next`. Unchanged mixes are skipped, so it is cheap to call every frame. */
+export function setMix(next: MusicMix) {
+  if (sameMix(mix, next)) return;
+  mix = next;
+  if (!chain) return;
+  try {
+    const now = getAudioContext().currentTime;
+    chain.filter.frequency.setTargetAtTime(next.cutoff, now, MIX_SMOOTHING_S);
+    chain.level.gain.setTargetAtTime(next.level, now, MIX_SMOOTHING_S);
+    for (const d of deck ? [deck, ...fading] : fading) {
+      for (const layer of MUSIC_LAYERS) d.layers[layer].gain.setTargetAtTime(next.layers[layer], now, MIX_SMOOTHING_S);
+    }
+  } catch {}
+}
@@ -0,0 +1,114 @@
+// ─── Music Tracks ─────────────────────────────────────────────────────────────
+// Songs as pattern data for the sequencer. A track runs on a grid of steps
+// (`stepsPerBeat` to a beat at `bpm`); each part gives one instrument a note
+// per step and loops on its own length, so an 8-step bass line repeats under a
+// 16-step melody. Notes are MIDI numbers (69 = A4), null is a rest. Drum parts
+// are written as hit strings: "x" hits, anything else rests.
+//
+// Every instrument belongs to a layer. Layers have their own gain, so the
+// adaptive mix can bring the drums and harmony in and out over the core.
+
+export type InstrumentId = "bass" | "lead" | "harmony" | "hihat" | "kick";
+
+export type MusicLayer = "core" | "harmony" | "drums";
+
+export const MUSIC_LAYERS: MusicLayer[] = ["core", "harmony", "drums"];
+
+export type TrackId = "phase1" | "phase2" | "boss";
+
+export interface TrackPart {
+  instrument: InstrumentId;
+  notes: (number | null)[];
+}
+
+export interface Track {
+  bpm: number;
+  stepsPerBeat: number;
+  parts: TrackPart[];
+}
+
+export interface SynthInstrument {
+  kind: "synth";
+  layer: MusicLayer;
+  wave: OscillatorType;
+  peak: number; // gain at the note's attack
+  sustain: number; // gain it settles to
+  decay: number; // seconds from peak to sustain
+  steps: number; // note length in steps
+}
+
+export interface DrumInstrument {
+  kind: "kick" | "hihat";
+  layer: MusicLayer;
+  gain: number;
+  length: number; // seconds
+}
+
+export type Instrument = SynthInstrument | DrumInstrument;
+
+export const INSTRUMENTS: Record<InstrumentId, Instrument> = {
+  bass: { kind: "synth", layer: "core", wave: "sawtooth", peak: 0.09, sustain: 0.05, decay: 0.1, steps: 1 },
+  lead: { kind: "synth", layer: "core", wave: "square", peak: 0.035, sustain: 0.018, decay: 0.08, steps: 1 },
+  harmony: { kind: "synth", layer: "harmony", wave: "triangle", peak: 0.018, sustain: 0.018, decay: 0.01, steps: 2 },
+  hihat: { kind: "hihat", layer: "drums", gain: 0.04, length: 0.04 },
+  kick: { kind: "kick", layer: "drums", gain: 0.5, length: 0.12 },
+};
+
+/** "x.x." → a hit on every other step. */
+function hits(pattern: string): (number | null)[] {
+  return [...pattern].map(c => (c === "x" ? 1 : null));
+}
+
+/** Spreads notes out to one every `every` steps, resting in between. */
+function spaced(notes: number[], every: number): (number | null)[] {
+  return notes.flatMap(note => [note, ...Array<null>(every - 1).fill(null)]);
+}
+
+// The original chiptune: pumping bass, arpeggio lead, counter-melody, drums
+const PHASE1: Track = {
+  bpm: 100,
+  stepsPerBeat: 4,
+  parts: [
+    { instrument: "bass", notes: [45, 45, 49, 45, 50, 45, 49, 47] },
+    { instrument: "lead", notes: [69, 72, 76, 81, 76, 72, 69, 67, 69, 72, 74, 77, 74, 72, 69, 65] },
+    { instrument: "harmony", notes: spaced([64, 67, 71, 76, 71, 67, 64, 62, 64, 67, 69, 72, 69, 67, 64, 60], 2) },
+    { instrument: "hihat", notes: hits("xxxx") },
+    { instrument: "kick", notes: hits("x.") },
+  ],
+};
+
+// Minor-key variation: darker bass walk, syncopated lead, off-beat hats
+const PHASE2: Track = {
+  bpm: 108,
+  stepsPerBeat: 4,
+  parts: [
+    { instrument: "bass", notes: [45, 45, 48, 45, 52, 45, 48, 43, 41, 41, 45, 41, 43, 43, 47, 43] },
+    { instrument: "lead", notes: [69, null, 72, 76, null, 74, 72, 71, 69, null, 67, 65, 64, null, 67, 71] },
+    { instrument: "harmony", notes: spaced([60, 64, 60, 59, 57, 60, 59, 55], 4) },
+    { instrument: "hihat", notes: hits(".x.x") },
+    { instrument: "kick", notes: hits("x..x..x.") },
+  ],
+};
+
+// Boss fight: faster, driving octave bass and a relentless double kick
+const BOSS: Track = {
+  bpm: 128,
+  stepsPerBeat: 4,
+  parts: [
+    { instrument: "bass", notes: [40, 52, 40, 52, 43, 55, 41, 53] },
+    { instrument: "lead", notes: [76, 75, 76, 79, 76, 75, 76, 71, 72, 71, 72, 76, 74, 72, 71, 68] },
+    { instrument: "harmony", notes: spaced([64, 63, 60, 59], 8) },
+    { instrument: "hihat", notes: hits("xxxx") },
+    { instrument: "kick", notes: hits("xx.x") },
+  ],
+};
+
+export const TRACKS: Record<TrackId, Track> = {
+  phase1: PHASE1,
+  phase2: PHASE2,
+  boss: BOSS,
+};
+
+export function midiToHz(note: number): number {
+  return 440 * 2 ** ((note - 69) / 12);
+}
@@ -0,0 +1,179 @@
+import type { Translate } from "./i18n";
+
+// ─── Control Bindings ─────────────────────────────────────────────────────────
+// Keyboard and gamepad mappings, remappable from the controls screen and saved
+// per player in localStorage. Keys are `KeyboardEvent.code` values so they
+// follow the physical layout (WASD stays WASD on AZERTY). Action labels are in
+// the locale catalogs, under `action.<action>`.
+
+export type KeyAction = "up" | "down" | "left" | "right" | "fire" | "strong" | "pause" | "mute";
+export type PadAction = "fire" | "strong" | "pause";
+
+export const KEY_ACTIONS: KeyAction[] = ["up", "down", "left", "right", "fire", "strong", "pause", "mute"];
+export const PAD_ACTIONS: PadAction[] = ["fire", "strong", "pause"];
+
+// Two slots per keyboard action (e.g. arrows + WASD); one button per pad action
+export const KEY_SLOTS = 2;
+
+export interface Bindings {
+  keys: Record<KeyAction, (string | null)[]>;
+  pad: Record<PadAction, number>; // standard-mapping button index
+}
+
+export const DEFAULT_BINDINGS: Bindings = {
+  keys: {
+    up: ["ArrowUp", "KeyW"],
+    down: ["ArrowDown", "KeyS"],
+    left: ["ArrowLeft", "KeyA"],
+    right: ["ArrowRight", "KeyD"],
+    fire: ["Space", null],
+    strong: ["ShiftLeft", "ShiftRight"],
+    pause: ["KeyP", "Escape"],
+    mute: ["KeyM", null],
+  },
+  pad: {
+    fire: 7, // right trigger
+    strong: 5, // right bumper
+    pause: 9, // start
+  },
+};
+
+// Reticle speed for keys and a fully tilted stick
+export const AIM_SPEED = 600; // px/s
+export const STICK_DEADZONE = 0.2;
+export const TRIGGER_THRESHOLD = 0.5;
+
+const BINDINGS_KEY_PREFIX = "dogSuiDefenderBindings:";
+
+function cloneBindings(bindings: Bindings): Bindings {
+  return {
+    keys: Object.fromEntries(KEY_ACTIONS.map(a => [a, [...bindings.keys[a]]])) as Bindings["keys"],
+    pad: { ...bindings.pad },
+  };
+}
+
+export function defaultBindings(): Bindings {
+  return cloneBindings(DEFAULT_BINDINGS);
+}
+
+export function loadBindings(player: string): Bindings {
+  const bindings = defaultBindings();
+  if (typeof window === "undefined") return bindings;
+  try {
+    const data = localStorage.getItem(BINDINGS_KEY_PREFIX + player);
+    if (!data) return bindings;
+    const saved = JSON.parse(data) as Partial<Bindings>;
+    // Merge over the defaults so actions added later still get a binding
+    for (const action of KEY_ACTIONS) {
+      const slots = saved.keys?.[action];
+      if (Array.isArray(slots)) {
+        bindings.keys[action] = Array.from({ length: KEY_SLOTS }, (_, i) =>
+          typeof slots[i] === "string" ? slots[i] : null,
+        );
+      }
+    }
+    for (const action of PAD_ACTIONS) {
+      const button = saved.pad?.[action];
+      if (typeof button === "number") bindings.pad[action] = button;
+    }
+  } catch {
+    // ignore
+  }
+  return bindings;
+}
+
+export function saveBindings(player: string, bindings: Bindings): void {
+  try {
+    localStorage.setItem(BINDINGS_KEY_PREFIX + player, JSON.stringify(bindings));
+  } catch {
+    // ignore
+  }
+}
+
+/** Which action a key is bound to, if any. */
+export function actionForKey(bindings: Bindings, code: string): KeyAction | null {
+  return KEY_ACTIONS.find(action => bindings.keys[action].includes(code)) ?? null;
+}
+
+/**
+ * Binds `code` to one slot of `action`, removing it from wherever it was so a
+ * key never triggers two actions.
+ */
+export function bindKey(bindings: Bindings, action: KeyAction, slot: number, code: string): Bindings {
+  const next = cloneBindings(bindings);
+  for (const a of KEY_ACTIONS) {
+    next.keys[a] = next.keys[a].map(c => (c === code ? null : c));
+  }
+  next.keys[action][slot] = code;
+  return next;
+}
+
+export function bindPadButton(bindings: Bindings, action: PadAction, button: number): Bindings {
+  const next = cloneBindings(bindings);
+  // Swap with whichever action already used this button
+  const previous = PAD_ACTIONS.find(a => next.pad[a] === button);
+  if (previous && previous !== action) next.pad[previous] = next.pad[action];
+  next.pad[action] = button;
+  return next;
+}
+
+/** "KeyW" → "W", "ArrowUp" → "↑", "Space" → the locale's word for it, … */
+export function keyLabel(code: string | null, t: Translate): string {
+  if (!code) return "—";
+  if (code.startsWith("Key")) return code.slice(3);
+  if (code.startsWith("Digit")) return code.slice(5);
+  const named: Record<string, string> = {
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+    ArrowLeft: "←",
+    ArrowRight: "→",
+    Space: t("key.space"),
+    ShiftLeft: t("key.shiftLeft"),
+    ShiftRight: t("key.shiftRight"),
+    Escape: "Esc",
+  };
+  return named[code] ?? code;
+}
+
+// Standard-mapping names for the buttons people are likely to pick
+const PAD_BUTTON_LABELS = ["A", "B", "X", "Y", "LB", "RB", "LT", "RT", "Select", "Start", "L3", "R3"];
+
+export function padButtonLabel(button: number): string {
+  return PAD_BUTTON_LABELS[button] ?? `B${button}`;
+}
+
+// ── Gamepad ─────────────────────────────────────────────────────────────────
+
+/** First connected gamepad, if any. */
+export function getGamepad(): Gamepad | null {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return null;
+  for (const pad of navigator.getGamepads()) {
+    if (pad && pad.connected) return pad;
+  }
+  return null;
+}
+
+export function isPadButtonDown(pad: Gamepad, button: number): boolean {
+  const b = pad.buttons[button];
+  return !!b && (b.pressed || b.value > TRIGGER_THRESHOLD);
+}
+
+/** Left stick with a radial deadzone, rescaled so output starts at 0. */
+export function readStick(pad: Gamepad): { x: number; y: number } {
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  const mag = Math.hypot(x, y);
+  if (mag < STICK_DEADZONE) return { x: 0, y: 0 };
+  const scale = Math.min((mag - STICK_DEADZONE) / (1 - STICK_DEADZONE), 1) / mag;
+  return { x: x * scale, y: y * scale };
+}
+
+export function rumble(pad: Gamepad | null, durationMs: number, strength: number) {
+  void pad?.vibrationActuator?.playEffect("dual-rumble", {
+    duration: durationMs,
+    strongMagnitude: strength,
+    weakMagnitude: strength * 0.5,
+  }).catch(() => {
+    // ignore: no haptics on this controller
+  });
+}
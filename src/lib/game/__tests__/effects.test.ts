@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { createEffects, explode, flash, shakeScreen, shakeSui, updateEffects } from "../effects";
+
+describe("effects", () => {
+  test("an explosion bursts into particles that fade out", () => {
+    const fx = createEffects(1);
+    explode(fx, 100, 200, "#ff0000", 12);
+    expect(fx.particles).toHaveLength(12);
+    expect(fx.particles.every(p => p.x === 100 && p.y === 200 && p.color === "#ff0000")).toBe(true);
+    updateEffects(fx, 500);
+    expect(fx.particles.every(p => p.x !== 100 || p.y !== 200)).toBe(true);
+    updateEffects(fx, 200);
+    expect(fx.particles).toEqual([]);
+  });
+
+  test("a flash fades and clears", () => {
+    const fx = createEffects(1);
+    flash(fx, "#00ff00", 0.6);
+    updateEffects(fx, 200);
+    expect(fx.bgFlash?.alpha).toBeCloseTo(0.3);
+    updateEffects(fx, 200);
+    expect(fx.bgFlash).toBeNull();
+  });
+
+  test("shakes jitter until their timer runs out, then settle at rest", () => {
+    const fx = createEffects(1);
+    shakeScreen(fx, 100);
+    shakeSui(fx, 50);
+    updateEffects(fx, 40);
+    expect(fx.screenShake.x !== 0 || fx.screenShake.y !== 0).toBe(true);
+    updateEffects(fx, 40);
+    expect(fx.suiShake).toEqual({ x: 0, y: 0, timer: 0 });
+    updateEffects(fx, 40);
+    expect(fx.screenShake).toEqual({ x: 0, y: 0, timer: 0 });
+  });
+
+  test("the same seed plays out the same", () => {
+    const a = createEffects(7);
+    const b = createEffects(7);
+    explode(a, 0, 0, "#fff");
+    explode(b, 0, 0, "#fff");
+    expect(a).toEqual(b);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { STARTING_SCORE, TICK_RATE } from "../constants";
+import {
+  ENDLESS_LEVEL_MS,
+  endlessBossFor,
+  endlessBossHpScale,
+  endlessExtraMeteors,
+  endlessSpawnInterval,
+  endlessSpeedScale,
+  endlessVariantWeights,
+} from "../endless";
+import { CAMPAIGN, LAST_LEVEL } from "../levels";
+import { createInitialState } from "../simulation";
+import type { GameState } from "../types";
+import { MAX_ENDLESS_RUN_TICKS, MAX_RUN_TICKS, verifyReplay } from "../verify";
+import { IDLE, playScriptedRun, run } from "./fixtures";
+
+// An endless run on its final campaign phase with the gate about to open
+function atCampaignEnd(): GameState {
+  const state = createInitialState({ seed: 1, mode: "endless", startLevel: LAST_LEVEL });
+  state.bossDefeated = true;
+  state.score = STARTING_SCORE + CAMPAIGN[LAST_LEVEL].clearAt;
+  return state;
+}
+
+describe("endless curves", () => {
+  test("every level is harder than the last, without levelling off", () => {
+    for (let level = 1; level < 200; level++) {
+      expect(endlessSpawnInterval(level + 1)).toBeLessThan(endlessSpawnInterval(level));
+      expect(endlessSpawnInterval(level + 1)).toBeGreaterThan(0);
+      expect(endlessSpeedScale(level + 1)).toBeGreaterThan(endlessSpeedScale(level));
+      expect(endlessExtraMeteors(level + 1)).toBeGreaterThanOrEqual(endlessExtraMeteors(level));
+    }
+    expect(endlessExtraMeteors(100)).toBe(25);
+  });
+
+  test("variant weights always add up to one, with plain coins getting rarer", () => {
+    for (const level of [1, 10, 100]) {
+      const weights = endlessVariantWeights(level);
+      expect(weights.reduce((sum, [, weight]) => sum + weight, 0)).toBeCloseTo(1);
+      expect(weights[0][1]).toBeGreaterThan(endlessVariantWeights(level + 1)[0][1]);
+    }
+  });
+
+  test("the bosses take turns every third level, each tougher than the last", () => {
+    expect([1, 2, 3, 4, 5, 6, 9].map(endlessBossFor)).toEqual([null, null, "PEPE_KING", null, null, "BONK_BOSS", "PEPE_KING"]);
+    expect(endlessBossHpScale(0)).toBeGreaterThan(CAMPAIGN[LAST_LEVEL].boss?.hpScale ?? 0);
+    expect(endlessBossHpScale(1)).toBeGreaterThan(endlessBossHpScale(0));
+  });
+});
+
+describe("endless runs", () => {
+  test("clearing the final phase starts endless level 1 instead of winning", () => {
+    const state = atCampaignEnd();
+    const events = run(state, IDLE);
+    expect(events).toContainEqual({ type: "endlessLevel", level: 1 });
+    expect(events.some(event => event.type === "runEnded")).toBe(false);
+    expect(state.endless).toMatchObject({ level: 1, bossesSummoned: 0 });
+    expect(state.spawnInterval).toBe(endlessSpawnInterval(1));
+  });
+
+  test("levels are timed and bring their boss along", () => {
+    const state = atCampaignEnd();
+    state.hp = Number.MAX_SAFE_INTEGER; // outlast the meteors
+    run(state, IDLE);
+    const ticksPerLevel = (ENDLESS_LEVEL_MS / 1000) * TICK_RATE;
+    expect(run(state, IDLE, ticksPerLevel)).toContainEqual({ type: "endlessLevel", level: 2 });
+    const events = run(state, IDLE, ticksPerLevel);
+    expect(events).toContainEqual({ type: "endlessLevel", level: 3 });
+    expect(events).toContainEqual({ type: "bossSpawned", boss: "PEPE_KING" });
+    expect(state.endless?.bossesSummoned).toBe(1);
+  });
+
+  test("campaign runs still end in victory", () => {
+    const state = createInitialState({ seed: 1, startLevel: LAST_LEVEL });
+    state.bossDefeated = true;
+    state.score = STARTING_SCORE + CAMPAIGN[LAST_LEVEL].clearAt;
+    expect(run(state, IDLE).some(event => event.type === "runEnded")).toBe(true);
+    expect(state.endless).toBeNull();
+  });
+});
+
+describe("endless length cap", () => {
+  const { replay } = playScriptedRun(42);
+
+  test("endless runs may run past the campaign's cap", () => {
+    const rejection = (ticks: number, mode: "campaign" | "endless") => {
+      const result = verifyReplay({ ...replay, ticks, mode });
+      return result.ok ? null : result.reason;
+    };
+    expect(MAX_ENDLESS_RUN_TICKS).toBeGreaterThan(MAX_RUN_TICKS);
+    expect(rejection(MAX_RUN_TICKS + 1, "campaign")).toBe("run is too long");
+    expect(rejection(MAX_RUN_TICKS + 1, "endless")).not.toBe("run is too long");
+    expect(rejection(MAX_ENDLESS_RUN_TICKS + 1, "endless")).toBe("run is too long");
+  });
+});
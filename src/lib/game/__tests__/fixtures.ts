@@ -0,0 +1,92 @@
+import { CENTER_X, CENTER_Y, TICK_MS } from "../constants";
+import { ENEMIES, VARIANTS } from "../enemies";
+import { createRecorder, finishRecording, recordPause, recordTick, type Replay } from "../replay";
+import { cancelCharge, createInitialState, step } from "../simulation";
+import type { CoinType, GameEvent, GameState, Meteor, MeteorVariant, StepInput } from "../types";
+import { NO_UPGRADES, type Loadout } from "../upgrades";
+
+// ─── Test Fixtures ────────────────────────────────────────────────────────────
+// Shared by the simulation tests: canned input, hand-placed meteors, and whole
+// runs played the way the host plays them (log each tick's input, step with
+// the canonical copy) so replay and verification tests get real input logs.
+
+export const IDLE: StepInput = { aimX: CENTER_X, aimY: CENTER_Y, pressed: false, released: false, strong: false };
+
+/** A press and release in one tick: a simple wave from (x, y). */
+export function click(x: number, y: number): StepInput {
+  return { aimX: x, aimY: y, pressed: true, released: true, strong: false };
+}
+
+/** Steps `ticks` times, holding `first`'s aim with no button edges after the first, and collects every event. */
+export function run(state: GameState, first: StepInput, ticks = 1): GameEvent[] {
+  const events = step(state, first, TICK_MS);
+  const held = { ...first, pressed: false, released: false, strong: false };
+  for (let i = 1; i < ticks; i++) events.push(...step(state, held, TICK_MS));
+  return events;
+}
+
+/** Puts a motionless coin at (x, y). */
+export function placeMeteor(
+  state: GameState,
+  type: CoinType,
+  x: number,
+  y: number,
+  variant: MeteorVariant = "normal",
+): Meteor {
+  const hp = ENEMIES[type].hp * VARIANTS[variant].hpMultiplier;
+  const meteor: Meteor = {
+    id: state.nextMeteorId++,
+    type,
+    x,
+    y,
+    prevX: x,
+    prevY: y,
+    vx: 0,
+    vy: 0,
+    radius: ENEMIES[type].radius.min * VARIANTS[variant].radiusScale,
+    rotation: 0,
+    rotSpeed: 0,
+    variant,
+    hp,
+    maxHp: hp,
+    motion: { kind: "straight", speed: 0, age: 0, pattern: 0, stage: "approach", stageMs: 0 },
+  };
+  state.meteors.push(meteor);
+  return meteor;
+}
+
+const MAX_SCRIPTED_TICKS = 60 * 60 * 5;
+
+export interface ScriptedRun {
+  replay: Replay;
+  state: GameState; // the live run's final state
+}
+
+// Clicks around SUI every 45 ticks, released 10 ticks later
+function scriptedInput(tick: number): StepInput {
+  const angle = tick / 45;
+  return {
+    aimX: CENTER_X + Math.cos(angle) * 160,
+    aimY: CENTER_Y + Math.sin(angle) * 160,
+    pressed: tick % 45 === 0,
+    released: tick % 45 === 10,
+    strong: false,
+  };
+}
+
+/** A whole campaign run on a fixed script of clicks, with one pause mid-charge. */
+export function playScriptedRun(seed: number, loadout: Loadout = NO_UPGRADES): ScriptedRun {
+  const state = createInitialState({ seed, loadout });
+  const recorder = createRecorder(seed, "campaign", 0, loadout, "tester");
+  for (let tick = 0; tick < MAX_SCRIPTED_TICKS; tick++) {
+    if (tick === 95) {
+      recordPause(recorder);
+      cancelCharge(state);
+    }
+    const events = step(state, recordTick(recorder, scriptedInput(tick)), TICK_MS);
+    if (events.some(event => event.type === "runEnded")) {
+      return { replay: finishRecording(recorder, state.score, "2026-01-01T00:00:00.000Z"), state };
+    }
+  }
+  throw new Error(`scripted run on seed ${seed} did not end`);
+}
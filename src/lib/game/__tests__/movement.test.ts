@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import { CENTER_X, CENTER_Y, SUI_RADIUS, TICK_MS } from "../constants";
+import { COIN_TYPES, ENEMIES } from "../enemies";
+import { launchHeading, updateMotion, type MovementKind } from "../movement";
+import { createInitialState } from "../simulation";
+import { placeMeteor } from "./fixtures";
+
+const SPEED = 100; // px/s
+const START_X = CENTER_X + 400;
+
+// A meteor due east of SUI, launched the way spawnMeteor launches it
+function launch(kind: MovementKind, pattern = 0.25) {
+  const m = placeMeteor(createInitialState({ seed: 1 }), "BTC", START_X, CENTER_Y);
+  m.motion = { kind, speed: SPEED, age: 0, pattern, stage: "approach", stageMs: 0 };
+  const heading = launchHeading(kind, Math.PI, pattern);
+  m.vx = Math.cos(heading) * SPEED;
+  m.vy = Math.sin(heading) * SPEED;
+  return m;
+}
+
+// Moves it tick by tick like updateMeteors; returns the ms it took to reach SUI
+function fly(m: ReturnType<typeof launch>, maxMs = 60_000): number {
+  for (let ms = 0; ms < maxMs; ms += TICK_MS) {
+    updateMotion(m, TICK_MS);
+    m.x += (m.vx * TICK_MS) / 1000;
+    m.y += (m.vy * TICK_MS) / 1000;
+    if (Math.hypot(m.x - CENTER_X, m.y - CENTER_Y) < SUI_RADIUS) return ms;
+  }
+  return Infinity;
+}
+
+describe("movement patterns", () => {
+  test.each(["straight", "sine", "spiral", "zigzag", "homing", "lunge"] as const)("%s meteors reach SUI", kind => {
+    for (const pattern of [0, 0.25, 0.75, 0.99]) {
+      expect(fly(launch(kind, pattern))).toBeLessThan(30_000);
+    }
+  });
+
+  test("straight meteors keep their launch velocity", () => {
+    const m = launch("straight");
+    updateMotion(m, TICK_MS);
+    expect(m.vx).toBeCloseTo(-SPEED);
+    expect(m.vy).toBeCloseTo(0);
+  });
+
+  test("sine meteors swing to both sides of the direct line", () => {
+    const m = launch("sine");
+    const offsets: number[] = [];
+    for (let i = 0; i < 120; i++) {
+      updateMotion(m, TICK_MS);
+      m.x += (m.vx * TICK_MS) / 1000;
+      m.y += (m.vy * TICK_MS) / 1000;
+      offsets.push(m.y - CENTER_Y);
+    }
+    expect(Math.max(...offsets)).toBeGreaterThan(5);
+    expect(Math.min(...offsets)).toBeLessThan(-5);
+  });
+
+  test("homing meteors launch off-line and turn in", () => {
+    const m = launch("homing", 0);
+    expect(Math.abs(m.vy)).toBeGreaterThan(SPEED / 2);
+    for (let i = 0; i < 240; i++) updateMotion(m, TICK_MS);
+    expect(Math.abs(m.vy)).toBeLessThan(1);
+    expect(m.vx).toBeCloseTo(-SPEED);
+  });
+
+  test("spiral and zigzag meteors veer to the side their pattern picks", () => {
+    for (const kind of ["spiral", "zigzag"] as const) {
+      const left = launch(kind, 0.25);
+      const right = launch(kind, 0.75);
+      updateMotion(left, TICK_MS);
+      updateMotion(right, TICK_MS);
+      expect(Math.sign(left.vy)).toBe(-Math.sign(right.vy));
+    }
+  });
+
+  test("lunging meteors stop short of SUI, wind up, then charge", () => {
+    const m = launch("lunge", 0);
+    while (m.motion.stage === "approach") {
+      updateMotion(m, TICK_MS);
+      m.x += (m.vx * TICK_MS) / 1000;
+    }
+    expect(m.x - CENTER_X).toBeLessThan(250);
+    expect(Math.hypot(m.vx, m.vy)).toBe(0);
+    for (let ms = 0; ms < 700; ms += TICK_MS) updateMotion(m, TICK_MS);
+    expect(m.motion.stage).toBe("lunge");
+    expect(m.vx).toBeCloseTo(-SPEED * 3);
+  });
+
+  test("every coin's pattern odds add up to one", () => {
+    for (const coin of COIN_TYPES) {
+      expect(ENEMIES[coin].movement.reduce((sum, [, weight]) => sum + weight, 0)).toBeCloseTo(1);
+    }
+  });
+});
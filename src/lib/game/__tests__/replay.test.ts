@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { advancePlayback, createPlayback, isPlaybackDone, parseReplay, seekPlayback } from "../replay";
+import { playScriptedRun } from "./fixtures";
+
+describe("replay round-trip", () => {
+  const { replay, state } = playScriptedRun(1234);
+
+  test("playback reproduces the live run", () => {
+    const playback = createPlayback(replay);
+    let endedScore: number | null = null;
+    while (!isPlaybackDone(playback)) {
+      for (const event of advancePlayback(playback)) {
+        if (event.type === "runEnded") endedScore = event.score;
+      }
+    }
+    expect(endedScore).toBe(replay.score);
+    expect(playback.state.score).toBe(state.score);
+    expect(playback.state.hp).toBe(state.hp);
+    expect(playback.state.stats).toEqual(state.stats);
+  });
+
+  test("the same seed and input give the same run", () => {
+    expect(playScriptedRun(1234).replay).toEqual(replay);
+  });
+
+  test("survives JSON export and import", () => {
+    expect(parseReplay(JSON.parse(JSON.stringify(replay)))).toEqual(replay);
+  });
+
+  test("seeking back re-simulates to the same state", () => {
+    const forward = seekPlayback(createPlayback(replay), replay.ticks);
+    const rewound = seekPlayback(seekPlayback(forward, 60), replay.ticks);
+    expect(rewound.state.score).toBe(forward.state.score);
+    expect(rewound.state.time).toBe(forward.state.time);
+  });
+});
+
+describe("seekable playback", () => {
+  const { replay } = playScriptedRun(42); // 1332 ticks: snapshots at 0, 600 and 1200
+  const stateAt = (tick: number) => seekPlayback(createPlayback(replay), tick).state;
+
+  test("only seekable playbacks keep snapshots", () => {
+    expect(createPlayback(replay).snapshots).toBeNull();
+    expect(createPlayback(replay, 0, true).snapshots).toHaveLength(1);
+  });
+
+  test("seeking back from a snapshot lands on the same state as playing from the start", () => {
+    const end = seekPlayback(createPlayback(replay, 0, true), replay.ticks);
+    expect(end.snapshots).toHaveLength(3);
+    const back = seekPlayback(end, 700);
+    expect(back.tick).toBe(700);
+    expect(back.state).toEqual(stateAt(700));
+  });
+
+  test("playing on from a snapshot leaves the snapshot untouched", () => {
+    const end = seekPlayback(createPlayback(replay, 0, true), replay.ticks);
+    const again = seekPlayback(seekPlayback(seekPlayback(end, 650), 1000), 650);
+    expect(again.state).toEqual(stateAt(650));
+  });
+
+  test("seeking forward jumps to a snapshot already taken", () => {
+    const end = seekPlayback(createPlayback(replay, 0, true), replay.ticks);
+    const forward = seekPlayback(seekPlayback(end, 10), 1250);
+    expect(forward.state).toEqual(stateAt(1250));
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, expect, test } from "bun:test";
+import { CENTER_X, CENTER_Y, METEOR_DAMAGE, SIMPLE_WAVE_COST, STARTING_SCORE, TICK_RATE } from "../constants";
+import { ENEMIES } from "../enemies";
+import { CAMPAIGN, LAST_LEVEL } from "../levels";
+import { createInitialState, step } from "../simulation";
+import { spawnBoss } from "../spawn";
+import type { BossType, GameState } from "../types";
+import { click, IDLE, placeMeteor, run } from "./fixtures";
+
+const FAR_X = CENTER_X + 250;
+
+// A boss that has finished its entry descent, so its script and orbit run
+function arrivedBoss(state: GameState, type: BossType) {
+  const boss = spawnBoss(state.nextMeteorId++, type);
+  boss.vy = 0;
+  boss.x = CENTER_X;
+  boss.y = 200;
+  state.boss = boss;
+  return boss;
+}
+
+describe("scoring", () => {
+  test("a simple wave costs SUI and a kill pays the coin's score plus the combo bonus", () => {
+    const state = createInitialState({ seed: 1 });
+    placeMeteor(state, "BTC", FAR_X, CENTER_Y);
+    const events = run(state, click(FAR_X, CENTER_Y));
+    expect(events).toContainEqual({ type: "waveFired", strong: false });
+    expect(events).toContainEqual({ type: "meteorKilled", coin: "BTC", combo: 1, x: FAR_X, y: CENTER_Y });
+    expect(state.score).toBe(STARTING_SCORE - SIMPLE_WAVE_COST + Math.floor(50 * 1.1));
+    expect(state.stats.kills).toBe(1);
+    expect(state.stats.killsByCoin.BTC).toBe(1);
+  });
+
+  test("no wave fires without the SUI to pay for it", () => {
+    const state = createInitialState({ seed: 1 });
+    state.score = SIMPLE_WAVE_COST - 1;
+    expect(run(state, click(FAR_X, CENTER_Y))).not.toContainEqual({ type: "waveFired", strong: false });
+    expect(state.score).toBe(SIMPLE_WAVE_COST - 1);
+  });
+
+  test("the multiplier power-up doubles a kill's points", () => {
+    const state = createInitialState({ seed: 1 });
+    state.activePowerUps.push({ type: "multiplier", duration: 5000 });
+    placeMeteor(state, "ETH", FAR_X, CENTER_Y);
+    run(state, click(FAR_X, CENTER_Y));
+    expect(state.score).toBe(STARTING_SCORE - SIMPLE_WAVE_COST + Math.floor(30 * 2 * 1.1));
+  });
+
+  test("armored coins take three hits and pay double", () => {
+    const state = createInitialState({ seed: 1 });
+    placeMeteor(state, "BTC", FAR_X, CENTER_Y, "armored");
+    const events = [...run(state, click(FAR_X, CENTER_Y), 30), ...run(state, click(FAR_X, CENTER_Y), 30)];
+    expect(events.filter(event => event.type === "meteorDamaged")).toHaveLength(2);
+    expect(run(state, click(FAR_X, CENTER_Y))).toContainEqual({ type: "meteorKilled", coin: "BTC", combo: 1, x: FAR_X, y: CENTER_Y });
+    expect(state.score).toBe(STARTING_SCORE - 3 * SIMPLE_WAVE_COST + Math.floor(50 * 2 * 1.1));
+  });
+
+  test("shielded coins deflect simple waves but break to strong ones", () => {
+    const state = createInitialState({ seed: 1 });
+    placeMeteor(state, "SOL", FAR_X, CENTER_Y, "shielded");
+    expect(run(state, click(FAR_X, CENTER_Y))).toContainEqual({ type: "meteorDamaged", coin: "SOL", blocked: true, x: FAR_X, y: CENTER_Y });
+    expect(run(state, { ...IDLE, strong: true }, 30)).toContainEqual({ type: "meteorKilled", coin: "SOL", combo: 1, x: FAR_X, y: CENTER_Y });
+  });
+});
+
+describe("combo", () => {
+  test("kills in quick succession raise the combo and its bonus", () => {
+    const state = createInitialState({ seed: 1 });
+    placeMeteor(state, "BTC", FAR_X, CENTER_Y);
+    placeMeteor(state, "BTC", CENTER_X - 250, CENTER_Y);
+    run(state, click(FAR_X, CENTER_Y));
+    expect(run(state, click(CENTER_X - 250, CENTER_Y))).toContainEqual({ type: "meteorKilled", coin: "BTC", combo: 2, x: CENTER_X - 250, y: CENTER_Y });
+    expect(state.score).toBe(STARTING_SCORE - 2 * SIMPLE_WAVE_COST + Math.floor(50 * 1.1) + Math.floor(50 * 1.2));
+    expect(state.stats.bestCombo).toBe(2);
+  });
+
+  test("the combo drops after two seconds without a kill", () => {
+    const state = createInitialState({ seed: 1 });
+    placeMeteor(state, "BTC", FAR_X, CENTER_Y);
+    run(state, click(FAR_X, CENTER_Y), TICK_RATE);
+    expect(state.combo).toBe(1);
+    run(state, IDLE, TICK_RATE + 1);
+    expect(state.combo).toBe(0);
+    expect(state.stats.bestCombo).toBe(1);
+  });
+});
+
+describe("boss stages", () => {
+  test("falling below a stage's HP share starts that stage's script", () => {
+    const state = createInitialState({ seed: 1 });
+    const boss = arrivedBoss(state, "PEPE_KING");
+    boss.hp = boss.maxHp * 0.66 + 5;
+    const events = run(state, click(boss.x, boss.y));
+    expect(events).toContainEqual({ type: "bossStage", boss: "PEPE_KING", stage: 1, enraged: false });
+    expect(boss.stage).toBe(1);
+    expect(boss.stageTimer).toBe(0);
+  });
+
+  test("the final stage is enraged", () => {
+    const state = createInitialState({ seed: 1 });
+    const boss = arrivedBoss(state, "BONK_BOSS");
+    boss.hp = boss.maxHp * 0.25 + 5;
+    expect(run(state, click(boss.x, boss.y))).toContainEqual({ type: "bossStage", boss: "BONK_BOSS", stage: 2, enraged: true });
+  });
+
+  test("a defeated boss pays half its max HP and takes its bullets with it", () => {
+    const state = createInitialState({ seed: 1 });
+    const boss = arrivedBoss(state, "PEPE_KING");
+    boss.hp = 5;
+    const before = state.score;
+    const events = run(state, click(boss.x, boss.y));
+    expect(events).toContainEqual({ type: "bossHit", boss: "PEPE_KING", damage: 10, x: boss.x, y: boss.y });
+    expect(events).toContainEqual({ type: "bossDefeated", boss: "PEPE_KING", x: boss.x, y: boss.y });
+    expect(state.score).toBe(before - SIMPLE_WAVE_COST + 10 + boss.maxHp / 2);
+    expect(state.boss).toBeNull();
+    expect(state.bossDefeated).toBe(true);
+    expect(state.bossProjectiles).toEqual([]);
+    expect(state.stats.bossesDefeated).toBe(1);
+  });
+});
+
+describe("phase gates", () => {
+  const first = CAMPAIGN[0];
+
+  test("the phase boss arrives once enough SUI is earned in the phase", () => {
+    const state = createInitialState({ seed: 1 });
+    state.score = STARTING_SCORE + first.boss!.atScore - 1;
+    expect(run(state, IDLE)).not.toContainEqual({ type: "bossSpawned", boss: "PEPE_KING" });
+    state.score++;
+    expect(run(state, IDLE)).toContainEqual({ type: "bossSpawned", boss: "PEPE_KING" });
+    expect(state.boss?.type).toBe("PEPE_KING");
+  });
+
+  test("a phase can't be cleared while its boss stands", () => {
+    const state = createInitialState({ seed: 1 });
+    state.score = STARTING_SCORE + first.clearAt * 2;
+    expect(run(state, IDLE, 10).some(event => event.type === "phaseChanged")).toBe(false);
+    expect(state.levelIndex).toBe(0);
+  });
+
+  test("clearing a phase moves on and restarts the gates from the current score", () => {
+    const state = createInitialState({ seed: 1 });
+    state.bossDefeated = true;
+    state.score = STARTING_SCORE + first.clearAt;
+    expect(run(state, IDLE)).toContainEqual({ type: "phaseChanged", level: 1 });
+    expect(state.levelIndex).toBe(1);
+    expect(state.levelStartScore).toBe(state.score);
+    expect(state.bossDefeated).toBe(false);
+    expect(state.spawnInterval).toBe(CAMPAIGN[1].spawn.initialIntervalMs);
+  });
+
+  test("clearing the final phase wins the campaign", () => {
+    const state = createInitialState({ seed: 1, startLevel: LAST_LEVEL });
+    state.bossDefeated = true;
+    state.score = STARTING_SCORE + CAMPAIGN[LAST_LEVEL].clearAt;
+    expect(run(state, IDLE)).toContainEqual({ type: "runEnded", outcome: "victory", score: state.score });
+    expect(state.gameOver).toBe(true);
+    expect(step(state, IDLE, 1000)).toEqual([]);
+  });
+});
+
+describe("damage", () => {
+  test("a meteor reaching SUI costs HP", () => {
+    const state = createInitialState({ seed: 1 });
+    placeMeteor(state, "DOGE", CENTER_X, CENTER_Y);
+    expect(run(state, IDLE)).toContainEqual({
+      type: "suiHit",
+      damage: METEOR_DAMAGE,
+      hp: state.maxHp - METEOR_DAMAGE,
+      from: "meteor",
+      x: CENTER_X,
+      y: CENTER_Y,
+      color: ENEMIES.DOGE.palette.primary,
+    });
+  });
+
+  test("the shield power-up blocks meteors", () => {
+    const state = createInitialState({ seed: 1 });
+    state.activePowerUps.push({ type: "shield", duration: 5000 });
+    placeMeteor(state, "DOGE", CENTER_X, CENTER_Y);
+    expect(run(state, IDLE)).toContainEqual({ type: "meteorShielded", coin: "DOGE", x: CENTER_X, y: CENTER_Y });
+    expect(state.hp).toBe(state.maxHp);
+    expect(state.meteors).toEqual([]);
+  });
+
+  test("the run ends when HP runs out", () => {
+    const state = createInitialState({ seed: 1 });
+    state.hp = METEOR_DAMAGE;
+    placeMeteor(state, "DOGE", CENTER_X, CENTER_Y);
+    expect(run(state, IDLE)).toContainEqual({ type: "runEnded", outcome: "gameover", score: state.score });
+  });
+});
+
+test("the same seed and input play out the same", () => {
+  const a = createInitialState({ seed: 7 });
+  const b = createInitialState({ seed: 7 });
+  run(a, click(FAR_X, CENTER_Y), TICK_RATE * 5);
+  run(b, click(FAR_X, CENTER_Y), TICK_RATE * 5);
+  expect(a).toEqual(b);
+});
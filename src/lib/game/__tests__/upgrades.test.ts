@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { CENTER_X, CENTER_Y, SIMPLE_WAVE_COST, STARTING_SCORE, STRONG_WAVE_COST } from "../constants";
+import { createInitialState } from "../simulation";
+import { isLoadout, isStockLoadout, NO_UPGRADES, upgradeValue } from "../upgrades";
+import { isRankedRun } from "../verify";
+import { playScriptedRun, run } from "./fixtures";
+
+const MAXED = { waveRadius: 3, strongWaveCost: 3, startingHp: 3, powerUpDuration: 3, startingShield: 2 };
+
+describe("upgrade values", () => {
+  test("nothing bought reads the base rules", () => {
+    expect(upgradeValue(NO_UPGRADES, "startingHp")).toBe(100);
+    expect(upgradeValue(NO_UPGRADES, "strongWaveCost")).toBe(STRONG_WAVE_COST);
+    expect(isStockLoadout(NO_UPGRADES)).toBe(true);
+  });
+
+  test("each level reads its tier", () => {
+    expect(upgradeValue({ ...NO_UPGRADES, startingHp: 1 }, "startingHp")).toBe(110);
+    expect(upgradeValue(MAXED, "startingHp")).toBe(150);
+    expect(isStockLoadout({ ...NO_UPGRADES, waveRadius: 1 })).toBe(false);
+  });
+
+  test("replayed loadouts must name every upgrade at a level it has", () => {
+    expect(isLoadout(MAXED)).toBe(true);
+    expect(isLoadout({ ...MAXED, startingShield: 3 })).toBe(false);
+    expect(isLoadout({ ...MAXED, startingHp: 1.5 })).toBe(false);
+    expect(isLoadout({ waveRadius: 0 })).toBe(false);
+    expect(isLoadout(null)).toBe(false);
+  });
+});
+
+describe("a run's loadout", () => {
+  test("sets the starting HP and shield", () => {
+    const state = createInitialState({ seed: 1, loadout: MAXED });
+    expect(state.maxHp).toBe(150);
+    expect(state.hp).toBe(150);
+    expect(state.activePowerUps).toContainEqual({ type: "shield", duration: 10000 });
+  });
+
+  test("makes strong waves cheaper", () => {
+    const state = createInitialState({ seed: 1, loadout: MAXED });
+    run(state, { aimX: CENTER_X + 250, aimY: CENTER_Y, pressed: false, released: false, strong: true });
+    expect(state.score).toBe(STARTING_SCORE - 18);
+    run(state, { aimX: CENTER_X + 250, aimY: CENTER_Y, pressed: true, released: true, strong: false });
+    expect(state.score).toBe(STARTING_SCORE - 18 - SIMPLE_WAVE_COST);
+  });
+
+  test("keeps a run off the global ranking unless it is stock", () => {
+    expect(isRankedRun(playScriptedRun(1234).replay)).toBe(true);
+    expect(isRankedRun(playScriptedRun(1234, { ...NO_UPGRADES, waveRadius: 1 }).replay)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { SIM_VERSION } from "../constants";
+import type { Replay } from "../replay";
+import { NO_UPGRADES } from "../upgrades";
+import { MAX_RUN_TICKS, verifyReplay } from "../verify";
+import { playScriptedRun } from "./fixtures";
+
+describe("verifyReplay", () => {
+  const { replay } = playScriptedRun(42);
+
+  const rejection = (tampered: Partial<Replay>) => {
+    const result = verifyReplay({ ...replay, ...tampered });
+    return result.ok ? null : result.reason;
+  };
+
+  test("accepts an honest run", () => {
+    const result = verifyReplay(replay);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.score).toBe(replay.score);
+  });
+
+  test("rejects a score that does not reproduce", () => {
+    expect(rejection({ score: replay.score + 10 })).toBe("score does not reproduce");
+  });
+
+  test("rejects another game version", () => {
+    expect(rejection({ version: SIM_VERSION - 1 })).toBe("replay was recorded with another game version");
+  });
+
+  test("rejects runs with upgrades", () => {
+    expect(rejection({ loadout: { ...NO_UPGRADES, startingHp: 1 } })).toBe("ranked runs can't use upgrades");
+  });
+
+  test("rejects runs started from a later phase", () => {
+    expect(rejection({ startLevel: 2 })).toBe("ranked runs start from the first phase");
+  });
+
+  test("rejects runs past the length cap", () => {
+    expect(rejection({ ticks: MAX_RUN_TICKS + 1 })).toBe("run is too long");
+  });
+
+  test("rejects a log cut short or padded after the end", () => {
+    const ticks = replay.ticks - 1;
+    expect(rejection({ ticks, frames: replay.frames.filter(([tick]) => tick < ticks) })).toBe("run did not end");
+    expect(rejection({ ticks: replay.ticks + 60 })).toBe("input log continues after the run ended");
+  });
+
+  test("rejects frames out of order", () => {
+    expect(rejection({ frames: [...replay.frames].reverse() })).toBe("input log is out of order");
+  });
+});
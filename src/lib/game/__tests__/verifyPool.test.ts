@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { MAX_CONCURRENT_VERIFICATIONS, verifyOffThread } from "../verifyPool";
+import { playScriptedRun } from "./fixtures";
+
+describe("verifyOffThread", () => {
+  const { replay } = playScriptedRun(42);
+
+  test("verifies in a worker", async () => {
+    const outcome = await verifyOffThread(replay);
+    expect(outcome).toMatchObject({ status: "done", result: { ok: true, score: replay.score } });
+    expect(await verifyOffThread({ ...replay, score: replay.score + 10 })).toEqual({
+      status: "done",
+      result: { ok: false, reason: "score does not reproduce" },
+    });
+  });
+
+  test("kills a verification that runs past its budget", async () => {
+    expect(await verifyOffThread(replay, 1)).toEqual({ status: "timeout" });
+  });
+
+  test("turns submissions away while every slot is taken", async () => {
+    const running = Array.from({ length: MAX_CONCURRENT_VERIFICATIONS }, () => verifyOffThread(replay));
+    expect(await verifyOffThread(replay)).toEqual({ status: "busy" });
+    for (const outcome of await Promise.all(running)) expect(outcome.status).toBe("done");
+    expect((await verifyOffThread(replay)).status).toBe("done");
+  });
+});
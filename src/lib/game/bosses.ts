@@ -0,0 +1,202 @@
+import { CENTER_X, CENTER_Y } from "./constants";
+import type { MessageKey } from "../i18n";
+import type { Boss, BossType } from "./types";
+
+// ─── Boss Scripts ─────────────────────────────────────────────────────────────
+// A boss is a list of stages keyed on HP. The deepest stage whose threshold the
+// boss has fallen to is the one that runs, and each of its attacks loops on its
+// own timer. An attack with a wind-up is telegraphed for that long before it
+// fires. Everything here is data plus pure timing helpers: `updateBoss` in the
+// simulation runs the attacks, the renderer draws the telegraphs and beams.
+
+export type Formation = "arc" | "ring" | "line";
+
+interface AttackTiming {
+  everyMs: number; // fires at everyMs, 2 × everyMs, … into the stage
+  windUpMs: number; // telegraph shown before each firing (0 = none)
+}
+
+export type BossAttack = AttackTiming &
+  (
+    | { kind: "ring"; count: number; speed: number; spin: number } // spin = rad the ring turns per firing
+    | { kind: "volley"; count: number; spread: number; speed: number; jitter: number } // aimed fan, rad
+    | { kind: "laser"; sweepMs: number; arc: number; damage: number } // sweeps `arc` rad across SUI
+    | { kind: "minions"; count: number; formation: Formation }
+  );
+
+export interface BossStage {
+  name: MessageKey; // catalog key, e.g. "boss.PEPE_KING.stage.0"
+  belowHp: number; // runs once HP ≤ this share of max HP (1 = from the start)
+  enraged: boolean;
+  orbitSpeed: number; // rad/s
+  attacks: BossAttack[];
+}
+
+export interface BossDefinition {
+  name: MessageKey; // catalog key, e.g. "boss.PEPE_KING.name"
+  hp: number; // before the level's HP scale
+  radius: number;
+  rotSpeed: number; // rad/s
+  orbitRadius: number; // px either side of the center line
+  shot: { radius: number; color: string; damage: number }; // ring and volley bullets
+  stages: BossStage[]; // ordered by descending belowHp
+}
+
+export const BOSSES: Record<BossType, BossDefinition> = {
+  PEPE_KING: {
+    name: "boss.PEPE_KING.name",
+    hp: 1000,
+    radius: 60,
+    rotSpeed: 0.48,
+    orbitRadius: 180,
+    shot: { radius: 8, color: "#00FF88", damage: 3 },
+    stages: [
+      {
+        name: "boss.PEPE_KING.stage.0",
+        belowHp: 1,
+        enraged: false,
+        orbitSpeed: 6,
+        attacks: [
+          { kind: "volley", everyMs: 1333, windUpMs: 0, count: 1, spread: 0, speed: 150, jitter: 0.4 },
+          { kind: "minions", everyMs: 2500, windUpMs: 500, count: 2, formation: "arc" },
+        ],
+      },
+      {
+        name: "boss.PEPE_KING.stage.1",
+        belowHp: 0.66,
+        enraged: false,
+        orbitSpeed: 6,
+        attacks: [
+          { kind: "ring", everyMs: 3000, windUpMs: 700, count: 10, speed: 120, spin: 0.3 },
+          { kind: "volley", everyMs: 1600, windUpMs: 300, count: 3, spread: 0.8, speed: 160, jitter: 0.1 },
+          { kind: "minions", everyMs: 3500, windUpMs: 600, count: 4, formation: "ring" },
+        ],
+      },
+      {
+        name: "boss.PEPE_KING.stage.2",
+        belowHp: 0.3,
+        enraged: true,
+        orbitSpeed: 8,
+        attacks: [
+          { kind: "ring", everyMs: 2600, windUpMs: 500, count: 14, speed: 140, spin: 0.25 },
+          { kind: "laser", everyMs: 4000, windUpMs: 1000, sweepMs: 1200, arc: 1.2, damage: 5 },
+          { kind: "volley", everyMs: 1500, windUpMs: 250, count: 3, spread: 0.9, speed: 180, jitter: 0.1 },
+          { kind: "minions", everyMs: 3000, windUpMs: 400, count: 3, formation: "line" },
+        ],
+      },
+    ],
+  },
+  BONK_BOSS: {
+    name: "boss.BONK_BOSS.name",
+    hp: 2000,
+    radius: 75,
+    rotSpeed: 0.72,
+    orbitRadius: 220,
+    shot: { radius: 10, color: "#FF6B35", damage: 5 },
+    stages: [
+      {
+        name: "boss.BONK_BOSS.stage.0",
+        belowHp: 1,
+        enraged: false,
+        orbitSpeed: 10,
+        attacks: [
+          { kind: "volley", everyMs: 1000, windUpMs: 0, count: 1, spread: 0, speed: 210, jitter: 0.4 },
+          { kind: "minions", everyMs: 1667, windUpMs: 400, count: 3, formation: "arc" },
+        ],
+      },
+      {
+        name: "boss.BONK_BOSS.stage.1",
+        belowHp: 0.6,
+        enraged: false,
+        orbitSpeed: 10,
+        attacks: [
+          { kind: "volley", everyMs: 1600, windUpMs: 400, count: 5, spread: 1.4, speed: 220, jitter: 0 },
+          { kind: "laser", everyMs: 5000, windUpMs: 1200, sweepMs: 1000, arc: 1.4, damage: 8 },
+          { kind: "minions", everyMs: 2500, windUpMs: 500, count: 5, formation: "ring" },
+        ],
+      },
+      {
+        name: "boss.BONK_BOSS.stage.2",
+        belowHp: 0.25,
+        enraged: true,
+        orbitSpeed: 13,
+        attacks: [
+          { kind: "ring", everyMs: 2400, windUpMs: 400, count: 12, speed: 170, spin: 0.2 },
+          { kind: "laser", everyMs: 4000, windUpMs: 900, sweepMs: 900, arc: 1.6, damage: 5 },
+          { kind: "volley", everyMs: 1500, windUpMs: 250, count: 3, spread: 1.2, speed: 240, jitter: 0 },
+          { kind: "minions", everyMs: 2200, windUpMs: 400, count: 4, formation: "line" },
+        ],
+      },
+    ],
+  },
+};
+
+/** Index of the stage a boss with `hp` of `maxHp` should be running. */
+export function stageFor(type: BossType, hp: number, maxHp: number): number {
+  const stages = BOSSES[type].stages;
+  let stage = 0;
+  for (let i = 1; i < stages.length; i++) {
+    if (hp <= stages[i].belowHp * maxHp) stage = i;
+  }
+  return stage;
+}
+
+export function currentStage(boss: Boss): BossStage {
+  return BOSSES[boss.type].stages[boss.stage];
+}
+
+/** Angle from (x, y) to SUI. */
+export function aimAtSui(x: number, y: number): number {
+  return Math.atan2(CENTER_Y - y, CENTER_X - x);
+}
+
+/** Where each minion of a formation appears, relative to the boss. */
+export function formationOffsets(formation: Formation, count: number, aim: number): { x: number; y: number }[] {
+  const offsets = [];
+  for (let i = 0; i < count; i++) {
+    const t = count > 1 ? i / (count - 1) : 0.5;
+    if (formation === "arc") {
+      const angle = aim + (t - 0.5) * 1.6;
+      offsets.push({ x: Math.cos(angle) * 80, y: Math.sin(angle) * 80 });
+    } else if (formation === "ring") {
+      const angle = aim + (i / count) * Math.PI * 2;
+      offsets.push({ x: Math.cos(angle) * 100, y: Math.sin(angle) * 100 });
+    } else {
+      // Shoulder to shoulder, across the line to SUI
+      const along = (t - 0.5) * 55 * (count - 1);
+      offsets.push({ x: -Math.sin(aim) * along, y: Math.cos(aim) * along });
+    }
+  }
+  return offsets;
+}
+
+/** Attacks winding up right now, with how far along (0 → 1) the wind-up is. */
+export function activeTelegraphs(boss: Boss): { attack: BossAttack; progress: number }[] {
+  const telegraphs = [];
+  for (const attack of currentStage(boss).attacks) {
+    if (attack.windUpMs <= 0) continue;
+    const untilNext = attack.everyMs - (boss.stageTimer % attack.everyMs);
+    if (untilNext <= attack.windUpMs) telegraphs.push({ attack, progress: 1 - untilNext / attack.windUpMs });
+  }
+  return telegraphs;
+}
+
+/** Beam angle of a laser fired from (x, y), `progress` through its `firing`th sweep. */
+export function laserAngle(x: number, y: number, arc: number, progress: number, firing: number): number {
+  const side = firing % 2 === 0 ? 1 : -1; // alternate sweep direction
+  return aimAtSui(x, y) + side * arc * (progress - 0.5);
+}
+
+/** Lasers mid-sweep right now, with their sweep progress (0 → 1) and firing count. */
+export function activeLasers(boss: Boss): { arc: number; progress: number; firing: number }[] {
+  const lasers = [];
+  for (const attack of currentStage(boss).attacks) {
+    if (attack.kind !== "laser") continue;
+    const firing = Math.floor(boss.stageTimer / attack.everyMs);
+    const elapsed = boss.stageTimer - firing * attack.everyMs;
+    if (firing > 0 && elapsed < attack.sweepMs) {
+      lasers.push({ arc: attack.arc, progress: elapsed / attack.sweepMs, firing });
+    }
+  }
+  return lasers;
+}
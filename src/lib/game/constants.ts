@@ -0,0 +1,37 @@
+import type { BossType } from "./types";
+
+// ─── Playfield ────────────────────────────────────────────────────────────────
+export const WIDTH = 900;
+export const HEIGHT = 650;
+export const SUI_RADIUS = 55;
+export const CENTER_X = WIDTH / 2;
+export const CENTER_Y = HEIGHT / 2;
+// Fixed simulation tick: rules advance in TICK_MS steps whatever the display
+// refresh rate is. Speeds are in px/s and timers in ms, so a tick is only a
+// sampling interval, not a unit of gameplay.
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+
+// Bump whenever a rule change would make an old replay play out differently
+export const SIM_VERSION = 10;
+export const HOLD_THRESHOLD_MS = 2000; // 2 seconds hold = strong wave
+
+// Boss accent colors (explosions, flashes, HP bar)
+export const BOSS_COLORS: Record<BossType, string> = {
+  PEPE_KING: "#00FF88",
+  BONK_BOSS: "#FF6B35",
+};
+
+// SUI balance every run starts with
+export const STARTING_SCORE = 100;
+
+// Wave costs in SUI
+export const SIMPLE_WAVE_COST = 10;
+export const STRONG_WAVE_COST = 30;
+
+// Meteor damage per wave hit (each of the 3 strong rings hits separately)
+export const SIMPLE_WAVE_DAMAGE = 1;
+export const STRONG_WAVE_DAMAGE = 2;
+
+// HP SUI loses to each meteor that reaches it
+export const METEOR_DAMAGE = 10;
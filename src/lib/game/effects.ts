@@ -0,0 +1,103 @@
+import { createRng, nextRandom, type Rng } from "./random";
+import type { Particle } from "./types";
+
+// ─── Visual Effects ───────────────────────────────────────────────────────────
+// Explosions, background flashes and shakes are presentation only, so the
+// simulation never makes them: the host subscribes to its GameEvents and
+// starts them here. They live beside the GameState rather than in it, with
+// their own random stream, and replays get them from the same subscribers.
+
+export interface Shake {
+  x: number;
+  y: number;
+  timer: number; // ms left
+}
+
+export interface Effects {
+  particles: Particle[];
+  bgFlash: { color: string; alpha: number } | null;
+  screenShake: Shake;
+  suiShake: Shake;
+  rng: Rng;
+}
+
+// Fraction of particle velocity left after one second
+const PARTICLE_DRAG = 0.024;
+
+export function createEffects(seed = 0): Effects {
+  return {
+    particles: [],
+    bgFlash: null,
+    screenShake: { x: 0, y: 0, timer: 0 },
+    suiShake: { x: 0, y: 0, timer: 0 },
+    rng: createRng(seed),
+  };
+}
+
+export function explode(fx: Effects, x: number, y: number, color: string, count = 18) {
+  for (let i = 0; i < count; i++) {
+    const angle = (Math.PI * 2 * i) / count + nextRandom(fx.rng) * 0.5;
+    const speed = 90 + nextRandom(fx.rng) * 210; // px/s
+    fx.particles.push({
+      x,
+      y,
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+      life: 1,
+      maxLife: 1,
+      color,
+      radius: 2 + nextRandom(fx.rng) * 4,
+    });
+  }
+}
+
+/** Tints the whole background, fading by 1.5 alpha a second. */
+export function flash(fx: Effects, color: string, alpha: number) {
+  fx.bgFlash = { color, alpha };
+}
+
+/** Shakes the whole scene for `ms`. */
+export function shakeScreen(fx: Effects, ms: number) {
+  fx.screenShake = { x: 0, y: 0, timer: ms };
+}
+
+/** Shakes just SUI for `ms`. */
+export function shakeSui(fx: Effects, ms: number) {
+  fx.suiShake = { x: 0, y: 0, timer: ms };
+}
+
+function updateShake(fx: Effects, shake: Shake, amplitude: number, dt: number) {
+  if (shake.timer > 0) {
+    shake.timer = Math.max(0, shake.timer - dt);
+    shake.x = (nextRandom(fx.rng) - 0.5) * amplitude;
+    shake.y = (nextRandom(fx.rng) - 0.5) * amplitude;
+  }
+  if (shake.timer === 0) {
+    shake.x = 0;
+    shake.y = 0;
+  }
+}
+
+/** Animates every effect by `dt` ms; called once per rendered frame. */
+export function updateEffects(fx: Effects, dt: number) {
+  const seconds = dt / 1000;
+  updateShake(fx, fx.screenShake, 10, dt);
+  updateShake(fx, fx.suiShake, 8, dt);
+
+  if (fx.bgFlash) {
+    fx.bgFlash.alpha -= 1.5 * seconds;
+    if (fx.bgFlash.alpha <= 0) fx.bgFlash = null;
+  }
+
+  const particles = fx.particles;
+  const drag = Math.pow(PARTICLE_DRAG, seconds);
+  for (let i = particles.length - 1; i >= 0; i--) {
+    const p = particles[i];
+    p.x += p.vx * seconds;
+    p.y += p.vy * seconds;
+    p.vx *= drag;
+    p.vy *= drag;
+    p.life -= 1.5 * seconds;
+    if (p.life <= 0) particles.splice(i, 1);
+  }
+}
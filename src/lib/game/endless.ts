@@ -0,0 +1,45 @@
+import type { MeteorVariant } from "./enemies";
+import type { BossType } from "./types";
+
+// ─── Endless Mode ─────────────────────────────────────────────────────────────
+// An endless run plays the campaign, then keeps going after its last phase:
+// every level spawns faster, denser and nastier meteors, and a boss comes back
+// every few levels with more HP. None of the curves level off.
+
+export const ENDLESS_LEVEL_MS = 20000;
+
+const BOSS_EVERY_LEVELS = 3;
+const BOSS_ROTATION: BossType[] = ["PEPE_KING", "BONK_BOSS"];
+
+/** ms between meteor batches — shrinks every level, never reaches zero. */
+export function endlessSpawnInterval(level: number): number {
+  return 500 / (1 + 0.12 * level);
+}
+
+/** Meteors added to each batch on top of the final campaign phase's count. */
+export function endlessExtraMeteors(level: number): number {
+  return Math.floor(level / 4);
+}
+
+/** Multiplier on every meteor's speed. */
+export function endlessSpeedScale(level: number): number {
+  return 1 + 0.06 * level;
+}
+
+// Plain coins get rarer each level; the rest is shared out among the variants
+export function endlessVariantWeights(level: number): [MeteorVariant, number][] {
+  const normal = 0.5 / (1 + 0.1 * level);
+  const special = 1 - normal;
+  return [["normal", normal], ["armored", special * 0.4], ["splitting", special * 0.3], ["shielded", special * 0.3]];
+}
+
+/** Which boss arrives when `level` starts, if any. */
+export function endlessBossFor(level: number): BossType | null {
+  if (level % BOSS_EVERY_LEVELS !== 0) return null;
+  return BOSS_ROTATION[(level / BOSS_EVERY_LEVELS - 1) % BOSS_ROTATION.length];
+}
+
+/** HP multiplier for the `n`th boss of the endless stretch (0-based). */
+export function endlessBossHpScale(n: number): number {
+  return 3 + 0.5 * n; // picks up above the final phase boss
+}
@@ -0,0 +1,161 @@
+import {
+  drawBONKLogo,
+  drawBTCLogo,
+  drawDOGELogo,
+  drawETHLogo,
+  drawPEPELogo,
+  drawSHIBLogo,
+  drawSOLLogo,
+  drawWIFLogo,
+} from "./logos";
+import type { MovementMix } from "./movement";
+
+// ─── Enemy Registry ───────────────────────────────────────────────────────────
+// Everything about a coin lives in its entry: spawning, scoring, drawing and
+// audio all read from here, so a new coin is one new entry.
+
+export interface CoinPalette {
+  primary: string;
+  secondary: string;
+  text: string;
+  glow: string;
+  bg: string;
+}
+
+export interface EnemyDefinition {
+  name: string;
+  palette: CoinPalette;
+  speed: number; // multiplier on the base approach speed — higher reward = faster = harder
+  score: number; // SUI awarded per kill, before combo / multiplier
+  hp: number;
+  radius: { min: number; max: number };
+  explosionFreq: number; // Hz, start pitch of the explosion sweep
+  movement: MovementMix; // pattern odds, rolled per spawn
+  drawLogo: (ctx: CanvasRenderingContext2D, r: number) => void;
+}
+
+const COIN_RADIUS = { min: 22, max: 36 };
+
+const ENEMY_DEFINITIONS = {
+  // ── Phase 1 coins ──
+  BTC: {
+    name: "Bitcoin",
+    palette: { primary: "#F7931A", secondary: "#E8820C", text: "#7a3a00", glow: "#F7931A", bg: "rgba(247,147,26,0.18)" },
+    speed: 2.8, // fastest — worth most
+    score: 50,
+    hp: 1,
+    radius: COIN_RADIUS,
+    explosionFreq: 200,
+    movement: [["straight", 0.5], ["zigzag", 0.3], ["lunge", 0.2]],
+    drawLogo: drawBTCLogo,
+  },
+  ETH: {
+    name: "Ethereum",
+    palette: { primary: "#627EEA", secondary: "#3C5DD6", text: "#ffffff", glow: "#627EEA", bg: "rgba(98,126,234,0.18)" },
+    speed: 2.2,
+    score: 30,
+    hp: 1,
+    radius: COIN_RADIUS,
+    explosionFreq: 300,
+    movement: [["straight", 0.5], ["sine", 0.3], ["homing", 0.2]],
+    drawLogo: drawETHLogo,
+  },
+  SOL: {
+    name: "Solana",
+    palette: { primary: "#9945FF", secondary: "#14F195", text: "#ffffff", glow: "#9945FF", bg: "rgba(153,69,255,0.18)" },
+    speed: 1.6,
+    score: 20,
+    hp: 1,
+    radius: COIN_RADIUS,
+    explosionFreq: 400,
+    movement: [["straight", 0.3], ["sine", 0.4], ["spiral", 0.3]],
+    drawLogo: drawSOLLogo,
+  },
+  PEPE: {
+    name: "Pepe",
+    palette: { primary: "#00A86B", secondary: "#008050", text: "#ffffff", glow: "#00A86B", bg: "rgba(0,168,107,0.18)" },
+    speed: 2.5, // meme power!
+    score: 40,
+    hp: 1,
+    radius: COIN_RADIUS,
+    explosionFreq: 250,
+    movement: [["straight", 0.3], ["sine", 0.3], ["zigzag", 0.4]],
+    drawLogo: drawPEPELogo,
+  },
+  // ── Phase 2 meme coins — faster and more aggressive ──
+  DOGE: {
+    name: "Dogecoin",
+    palette: { primary: "#C2A633", secondary: "#9E8A2A", text: "#ffffff", glow: "#C2A633", bg: "rgba(194,166,51,0.18)" },
+    speed: 3.2,
+    score: 60,
+    hp: 1,
+    radius: COIN_RADIUS,
+    explosionFreq: 180,
+    movement: [["straight", 0.35], ["sine", 0.3], ["homing", 0.35]],
+    drawLogo: drawDOGELogo,
+  },
+  SHIB: {
+    name: "Shiba Inu",
+    palette: { primary: "#FFA409", secondary: "#CC8200", text: "#ffffff", glow: "#FFA409", bg: "rgba(255,164,9,0.18)" },
+    speed: 3.5,
+    score: 70,
+    hp: 1,
+    radius: COIN_RADIUS,
+    explosionFreq: 220,
+    movement: [["straight", 0.3], ["zigzag", 0.35], ["spiral", 0.35]],
+    drawLogo: drawSHIBLogo,
+  },
+  BONK: {
+    name: "Bonk",
+    palette: { primary: "#FF6B35", secondary: "#CC5529", text: "#ffffff", glow: "#FF6B35", bg: "rgba(255,107,53,0.18)" },
+    speed: 3.0,
+    score: 55,
+    hp: 1,
+    radius: COIN_RADIUS,
+    explosionFreq: 280,
+    movement: [["straight", 0.3], ["zigzag", 0.3], ["lunge", 0.4]],
+    drawLogo: drawBONKLogo,
+  },
+  WIF: {
+    name: "dogwifhat",
+    palette: { primary: "#A855F7", secondary: "#7C3AED", text: "#ffffff", glow: "#A855F7", bg: "rgba(168,85,247,0.18)" },
+    speed: 3.8, // fastest meme coin
+    score: 80,
+    hp: 1,
+    radius: COIN_RADIUS,
+    explosionFreq: 160,
+    movement: [["straight", 0.2], ["spiral", 0.2], ["homing", 0.3], ["lunge", 0.3]],
+    drawLogo: drawWIFLogo,
+  },
+} satisfies Record<string, EnemyDefinition>;
+
+export type CoinType = keyof typeof ENEMY_DEFINITIONS;
+
+export const ENEMIES: Record<CoinType, EnemyDefinition> = ENEMY_DEFINITIONS;
+
+// Registry order; which coins a phase spawns is up to its level definition
+export const COIN_TYPES = Object.keys(ENEMIES) as CoinType[];
+
+// ── Variants ────────────────────────────────────────────────────────────────
+// Modifiers any coin can roll on spawn, with odds set per level. Armored coins
+// soak several hits, splitting coins burst into fast fragments, shielded coins
+// shrug off simple waves.
+
+export type MeteorVariant = "normal" | "armored" | "splitting" | "shielded" | "fragment";
+
+export interface VariantDefinition {
+  hpMultiplier: number; // × the coin's base HP
+  radiusScale: number;
+  speedScale: number;
+  scoreScale: number;
+  strongOnly: boolean; // only strong waves can hurt it
+  fragments: number; // pieces spawned when destroyed
+}
+
+export const VARIANTS: Record<MeteorVariant, VariantDefinition> = {
+  normal: { hpMultiplier: 1, radiusScale: 1, speedScale: 1, scoreScale: 1, strongOnly: false, fragments: 0 },
+  armored: { hpMultiplier: 3, radiusScale: 1.15, speedScale: 0.75, scoreScale: 2, strongOnly: false, fragments: 0 },
+  splitting: { hpMultiplier: 1, radiusScale: 1.1, speedScale: 0.9, scoreScale: 1, strongOnly: false, fragments: 3 },
+  shielded: { hpMultiplier: 1, radiusScale: 1, speedScale: 0.9, scoreScale: 1.5, strongOnly: true, fragments: 0 },
+  fragment: { hpMultiplier: 1, radiusScale: 0.5, speedScale: 1.7, scoreScale: 0.4, strongOnly: false, fragments: 0 },
+};
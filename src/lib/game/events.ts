@@ -0,0 +1,54 @@
+import type { GameEvent } from "./types";
+
+// ─── Game Event Bus ───────────────────────────────────────────────────────────
+// `step` reports what happened as a list of GameEvents. The host publishes
+// them on a bus and every system that reacts — audio, visual effects, rumble,
+// achievements, analytics, stats, music, the run lifecycle — subscribes to the
+// events it cares about, so none of them is wired into the game loop itself. For each event the
+// `onAny` listeners run first, then that type's own, each in subscription order.
+
+export type GameEventType = GameEvent["type"];
+
+/** The event shape for one `type`, e.g. `GameEventOf<"suiHit">`. */
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+export type GameEventListener<T extends GameEventType> = (event: GameEventOf<T>) => void;
+
+export interface GameEventBus {
+  /** Subscribes to one event type. Returns the unsubscribe function. */
+  on<T extends GameEventType>(type: T, listener: GameEventListener<T>): () => void;
+  /** Subscribes to every event, in emit order. Returns the unsubscribe function. */
+  onAny(listener: (event: GameEvent) => void): () => void;
+  emit(event: GameEvent): void;
+  emitAll(events: readonly GameEvent[]): void;
+}
+
+type AnyListener = (event: GameEvent) => void;
+
+export function createEventBus(): GameEventBus {
+  const byType = new Map<GameEventType, AnyListener[]>();
+  let anyListeners: AnyListener[] = [];
+
+  const emit = (event: GameEvent) => {
+    for (const listener of anyListeners) listener(event);
+    for (const listener of byType.get(event.type) ?? []) listener(event);
+  };
+
+  return {
+    on(type, listener) {
+      const wrapped = listener as AnyListener;
+      byType.set(type, [...(byType.get(type) ?? []), wrapped]);
+      return () => byType.set(type, (byType.get(type) ?? []).filter(l => l !== wrapped));
+    },
+    onAny(listener) {
+      anyListeners = [...anyListeners, listener];
+      return () => {
+        anyListeners = anyListeners.filter(l => l !== listener);
+      };
+    },
+    emit,
+    emitAll(events) {
+      for (const event of events) emit(event);
+    },
+  };
+}
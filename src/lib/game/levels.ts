@@ -0,0 +1,161 @@
+import type { TrackId } from "../audio/tracks";
+import type { MessageKey, Translate } from "../i18n";
+import type { CoinType, MeteorVariant } from "./enemies";
+import type { BossType } from "./types";
+
+// ─── Campaign Levels ──────────────────────────────────────────────────────────
+// One entry per campaign phase, in play order. The simulation reads the
+// roster, spawn curve, boss and score gates; the host reads the theme and
+// music. Adding a phase is one new entry.
+
+export interface SpawnCurve {
+  initialIntervalMs: number; // first gap between meteor batches
+  decayMs: number; // gap shrinks by this much after every batch…
+  minIntervalMs: number; // …down to this floor
+  batch: { base: number; extra: number }; // base + random(0…extra-1) meteors per batch
+}
+
+export interface LevelBoss {
+  type: BossType;
+  hpScale: number; // × the boss's base HP
+  atScore: number; // SUI earned in this phase before it arrives
+}
+
+export interface LevelTheme {
+  accent: string; // phase label, title and progress bar
+  background: [string, string, string]; // radial gradient, center → edge
+  nebula: { radius: number; stops: [number, string][] };
+  starHue: number | null; // null = white stars, else tinted across a 60° band from this hue
+  twinkle: number; // star twinkle speed, rad/s
+  danger: boolean; // pulsing red zone around SUI
+}
+
+export interface LevelMusic {
+  track: TrackId;
+  tempo: number; // × the track's tempo
+  transpose: number; // semitones
+}
+
+export interface LevelDefinition {
+  numeral: string; // "III", shown as the locale's "PHASE III"
+  title: MessageKey | null; // catalog key, shown after the label and in the header
+  roster: CoinType[]; // coins the spawner picks from, in seeded-pick order
+  variants: [MeteorVariant, number][]; // spawn odds, summing to 1
+  spawn: SpawnCurve;
+  boss: LevelBoss | null;
+  clearAt: number; // SUI earned in this phase (after the boss falls) to move on
+  theme: LevelTheme;
+  music: LevelMusic;
+}
+
+export const CAMPAIGN: LevelDefinition[] = [
+  {
+    numeral: "I",
+    title: null,
+    roster: ["BTC", "ETH", "SOL", "PEPE"],
+    variants: [["normal", 0.85], ["armored", 0.15]],
+    spawn: { initialIntervalMs: 1333, decayMs: 5, minIntervalMs: 667, batch: { base: 4, extra: 2 } },
+    boss: { type: "PEPE_KING", hpScale: 1, atScore: 1300 },
+    clearAt: 1400,
+    theme: {
+      accent: "#00c8ff",
+      background: ["#0a0e1a", "#060a14", "#020408"],
+      nebula: { radius: 280, stops: [[0, "rgba(0,200,255,0.06)"], [0.5, "rgba(100,50,200,0.04)"]] },
+      starHue: null,
+      twinkle: 1.8,
+      danger: false,
+    },
+    music: { track: "phase1", tempo: 1, transpose: 0 },
+  },
+  {
+    numeral: "II",
+    title: "level.2.title",
+    roster: ["DOGE", "SHIB", "BONK", "WIF"],
+    variants: [["normal", 0.5], ["armored", 0.2], ["splitting", 0.15], ["shielded", 0.15]],
+    spawn: { initialIntervalMs: 1000, decayMs: 5, minIntervalMs: 500, batch: { base: 5, extra: 3 } },
+    boss: { type: "BONK_BOSS", hpScale: 1, atScore: 1400 },
+    clearAt: 1500,
+    theme: {
+      accent: "#FFD700",
+      background: ["#1a0a1e", "#0f0614", "#050208"],
+      nebula: {
+        radius: 350,
+        stops: [[0, "rgba(168,85,247,0.12)"], [0.3, "rgba(255,165,0,0.08)"], [0.6, "rgba(194,166,51,0.06)"]],
+      },
+      starHue: 30,
+      twinkle: 3,
+      danger: true,
+    },
+    music: { track: "phase2", tempo: 1, transpose: 0 },
+  },
+  {
+    numeral: "III",
+    title: "level.3.title",
+    roster: ["BTC", "ETH", "DOGE", "SHIB"],
+    variants: [["normal", 0.45], ["armored", 0.35], ["shielded", 0.2]],
+    spawn: { initialIntervalMs: 950, decayMs: 6, minIntervalMs: 460, batch: { base: 5, extra: 3 } },
+    boss: { type: "PEPE_KING", hpScale: 1.5, atScore: 1600 },
+    clearAt: 1700,
+    theme: {
+      accent: "#00ffcc",
+      background: ["#04161c", "#030d12", "#010407"],
+      nebula: { radius: 320, stops: [[0, "rgba(0,255,204,0.08)"], [0.5, "rgba(0,90,160,0.06)"]] },
+      starHue: 170,
+      twinkle: 1.2,
+      danger: true,
+    },
+    music: { track: "phase1", tempo: 1.15, transpose: -3 },
+  },
+  {
+    numeral: "IV",
+    title: "level.4.title",
+    roster: ["SOL", "PEPE", "BONK", "WIF"],
+    variants: [["normal", 0.4], ["armored", 0.2], ["splitting", 0.25], ["shielded", 0.15]],
+    spawn: { initialIntervalMs: 900, decayMs: 6, minIntervalMs: 420, batch: { base: 6, extra: 3 } },
+    boss: { type: "BONK_BOSS", hpScale: 1.5, atScore: 1800 },
+    clearAt: 1900,
+    theme: {
+      accent: "#ff4466",
+      background: ["#1e0a0e", "#12060a", "#070204"],
+      nebula: { radius: 360, stops: [[0, "rgba(255,68,102,0.1)"], [0.4, "rgba(255,107,53,0.06)"]] },
+      starHue: 340,
+      twinkle: 4,
+      danger: true,
+    },
+    music: { track: "phase2", tempo: 1.15, transpose: 3 },
+  },
+  {
+    numeral: "V",
+    title: "level.5.title",
+    roster: ["BTC", "ETH", "SOL", "PEPE", "DOGE", "SHIB", "BONK", "WIF"],
+    variants: [["normal", 0.35], ["armored", 0.25], ["splitting", 0.2], ["shielded", 0.2]],
+    spawn: { initialIntervalMs: 850, decayMs: 7, minIntervalMs: 380, batch: { base: 6, extra: 4 } },
+    boss: { type: "BONK_BOSS", hpScale: 2.5, atScore: 2000 },
+    clearAt: 2100,
+    theme: {
+      accent: "#00ff88",
+      background: ["#081a0c", "#050f07", "#020603"],
+      nebula: {
+        radius: 380,
+        stops: [[0, "rgba(0,255,136,0.1)"], [0.35, "rgba(255,215,0,0.07)"], [0.7, "rgba(0,168,107,0.05)"]],
+      },
+      starHue: 90,
+      twinkle: 3.5,
+      danger: true,
+    },
+    music: { track: "phase2", tempo: 1.25, transpose: 5 },
+  },
+];
+
+export const LAST_LEVEL = CAMPAIGN.length - 1;
+
+/** "PHASE II" */
+export function levelLabel(level: LevelDefinition, t: Translate): string {
+  return t("level.label", { numeral: level.numeral });
+}
+
+/** "PHASE II: MEME WARS" */
+export function levelName(level: LevelDefinition, t: Translate): string {
+  const label = levelLabel(level, t);
+  return level.title ? `${label}: ${t(level.title)}` : label;
+}
@@ -0,0 +1,311 @@
+// ─── Coin Logos ───────────────────────────────────────────────────────────────
+// Canvas renderers for each coin, referenced from the enemy registry. Only the
+// host calls them; the simulation never draws. Each one draws centred on the
+// origin for a coin of radius `r`.
+
+/** Draw the Bitcoin ₿ glyph */
+export function drawBTCLogo(ctx: CanvasRenderingContext2D, r: number) {
+  ctx.save();
+  ctx.fillStyle = "#7a3a00";
+  ctx.font = `bold ${r * 0.9}px monospace`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText("₿", 0, 0);
+  ctx.restore();
+}
+
+/** Draw the Ethereum diamond logo (two overlapping rhombuses) */
+export function drawETHLogo(ctx: CanvasRenderingContext2D, r: number) {
+  const w = r * 0.52;
+  const h = r * 0.9;
+  ctx.save();
+
+  // Top pyramid (upper half)
+  ctx.beginPath();
+  ctx.moveTo(0, -h);
+  ctx.lineTo(w, -h * 0.1);
+  ctx.lineTo(0, -h * 0.28);
+  ctx.closePath();
+  ctx.fillStyle = "rgba(255,255,255,0.95)";
+  ctx.fill();
+
+  ctx.beginPath();
+  ctx.moveTo(0, -h);
+  ctx.lineTo(-w, -h * 0.1);
+  ctx.lineTo(0, -h * 0.28);
+  ctx.closePath();
+  ctx.fillStyle = "rgba(255,255,255,0.65)";
+  ctx.fill();
+
+  // Middle band
+  ctx.beginPath();
+  ctx.moveTo(-w, -h * 0.1);
+  ctx.lineTo(0, h * 0.08);
+  ctx.lineTo(w, -h * 0.1);
+  ctx.lineTo(0, -h * 0.28);
+  ctx.closePath();
+  ctx.fillStyle = "rgba(255,255,255,0.80)";
+  ctx.fill();
+
+  // Bottom pyramid (lower half)
+  ctx.beginPath();
+  ctx.moveTo(-w * 0.65, h * 0.08);
+  ctx.lineTo(0, h);
+  ctx.lineTo(w * 0.65, h * 0.08);
+  ctx.lineTo(0, h * 0.28);
+  ctx.closePath();
+  ctx.fillStyle = "rgba(255,255,255,0.90)";
+  ctx.fill();
+
+  ctx.beginPath();
+  ctx.moveTo(-w * 0.65, h * 0.08);
+  ctx.lineTo(0, h * 0.28);
+  ctx.lineTo(0, h);
+  ctx.closePath();
+  ctx.fillStyle = "rgba(255,255,255,0.55)";
+  ctx.fill();
+
+  ctx.restore();
+}
+
+/** Draw the Solana logo (3 stacked horizontal bars with gradient, slightly angled) */
+export function drawSOLLogo(ctx: CanvasRenderingContext2D, r: number) {
+  const barW = r * 1.1;
+  const barH = r * 0.22;
+  const gap = r * 0.28;
+  const angle = -0.18; // slight tilt like the real logo
+
+  ctx.save();
+  ctx.rotate(angle);
+
+  const bars = [-gap, 0, gap];
+  bars.forEach((offsetY, i) => {
+    const grad = ctx.createLinearGradient(-barW / 2, 0, barW / 2, 0);
+    grad.addColorStop(0, "#9945FF");
+    grad.addColorStop(1, "#14F195");
+
+    ctx.save();
+    ctx.translate(0, offsetY);
+
+    // Parallelogram shape (left side angled)
+    const skew = barH * 0.5;
+    ctx.beginPath();
+    ctx.moveTo(-barW / 2 + skew, -barH / 2);
+    ctx.lineTo(barW / 2, -barH / 2);
+    ctx.lineTo(barW / 2 - skew, barH / 2);
+    ctx.lineTo(-barW / 2, barH / 2);
+    ctx.closePath();
+    ctx.fillStyle = grad;
+    ctx.globalAlpha = i === 1 ? 1 : 0.85;
+    ctx.fill();
+    ctx.restore();
+  });
+
+  ctx.restore();
+}
+
+/** Draw the PEPE logo — simple frog face */
+export function drawPEPELogo(ctx: CanvasRenderingContext2D, r: number) {
+  ctx.save();
+  
+  // Eyes (two white circles with black pupils)
+  const eyeY = -r * 0.2;
+  const eyeSpacing = r * 0.35;
+  const eyeR = r * 0.22;
+  
+  // Left eye white
+  ctx.beginPath();
+  ctx.ellipse(-eyeSpacing, eyeY, eyeR, eyeR * 1.1, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#ffffff";
+  ctx.fill();
+  ctx.strokeStyle = "#005533";
+  ctx.lineWidth = 1;
+  ctx.stroke();
+  
+  // Left pupil
+  ctx.beginPath();
+  ctx.arc(-eyeSpacing, eyeY, eyeR * 0.45, 0, Math.PI * 2);
+  ctx.fillStyle = "#000000";
+  ctx.fill();
+  
+  // Right eye white
+  ctx.beginPath();
+  ctx.ellipse(eyeSpacing, eyeY, eyeR, eyeR * 1.1, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#ffffff";
+  ctx.fill();
+  ctx.strokeStyle = "#005533";
+  ctx.lineWidth = 1;
+  ctx.stroke();
+  
+  // Right pupil
+  ctx.beginPath();
+  ctx.arc(eyeSpacing, eyeY, eyeR * 0.45, 0, Math.PI * 2);
+  ctx.fillStyle = "#000000";
+  ctx.fill();
+  
+  // Mouth (smug smile)
+  ctx.beginPath();
+  ctx.arc(0, r * 0.25, r * 0.4, 0.1 * Math.PI, 0.9 * Math.PI);
+  ctx.strokeStyle = "#005533";
+  ctx.lineWidth = r * 0.08;
+  ctx.lineCap = "round";
+  ctx.stroke();
+  
+  ctx.restore();
+}
+
+/** Draw DOGE logo — Shiba Inu face simplified */
+export function drawDOGELogo(ctx: CanvasRenderingContext2D, r: number) {
+  ctx.save();
+  
+  // Simple doge face - two eyes and a nose
+  const eyeY = -r * 0.15;
+  const eyeSpacing = r * 0.35;
+  const eyeR = r * 0.18;
+  
+  // Left eye
+  ctx.beginPath();
+  ctx.ellipse(-eyeSpacing, eyeY, eyeR, eyeR * 1.2, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#ffffff";
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(-eyeSpacing, eyeY, eyeR * 0.5, 0, Math.PI * 2);
+  ctx.fillStyle = "#000000";
+  ctx.fill();
+  
+  // Right eye
+  ctx.beginPath();
+  ctx.ellipse(eyeSpacing, eyeY, eyeR, eyeR * 1.2, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#ffffff";
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(eyeSpacing, eyeY, eyeR * 0.5, 0, Math.PI * 2);
+  ctx.fillStyle = "#000000";
+  ctx.fill();
+  
+  // Nose
+  ctx.beginPath();
+  ctx.ellipse(0, r * 0.25, r * 0.15, r * 0.1, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#333333";
+  ctx.fill();
+  
+  // Smile
+  ctx.beginPath();
+  ctx.arc(0, r * 0.3, r * 0.3, 0.2 * Math.PI, 0.8 * Math.PI);
+  ctx.strokeStyle = "#333333";
+  ctx.lineWidth = r * 0.06;
+  ctx.lineCap = "round";
+  ctx.stroke();
+  
+  ctx.restore();
+}
+
+/** Draw SHIB logo — similar to DOGE but with different colors */
+export function drawSHIBLogo(ctx: CanvasRenderingContext2D, r: number) {
+  ctx.save();
+  
+  // Shiba face - more aggressive look
+  const eyeY = -r * 0.2;
+  const eyeSpacing = r * 0.32;
+  const eyeR = r * 0.16;
+  
+  // Left eye (angled)
+  ctx.save();
+  ctx.translate(-eyeSpacing, eyeY);
+  ctx.rotate(-0.2);
+  ctx.beginPath();
+  ctx.ellipse(0, 0, eyeR, eyeR * 0.8, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#ffffff";
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(0, 0, eyeR * 0.5, 0, Math.PI * 2);
+  ctx.fillStyle = "#000000";
+  ctx.fill();
+  ctx.restore();
+  
+  // Right eye (angled)
+  ctx.save();
+  ctx.translate(eyeSpacing, eyeY);
+  ctx.rotate(0.2);
+  ctx.beginPath();
+  ctx.ellipse(0, 0, eyeR, eyeR * 0.8, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#ffffff";
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(0, 0, eyeR * 0.5, 0, Math.PI * 2);
+  ctx.fillStyle = "#000000";
+  ctx.fill();
+  ctx.restore();
+  
+  // Nose
+  ctx.beginPath();
+  ctx.ellipse(0, r * 0.2, r * 0.12, r * 0.08, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#222222";
+  ctx.fill();
+  
+  ctx.restore();
+}
+
+/** Draw BONK logo — stylized "B" with lightning */
+export function drawBONKLogo(ctx: CanvasRenderingContext2D, r: number) {
+  ctx.save();
+  
+  // Lightning bolt shape
+  ctx.beginPath();
+  ctx.moveTo(r * 0.1, -r * 0.7);
+  ctx.lineTo(-r * 0.3, 0);
+  ctx.lineTo(r * 0.0, 0);
+  ctx.lineTo(-r * 0.1, r * 0.7);
+  ctx.lineTo(r * 0.3, 0);
+  ctx.lineTo(r * 0.0, 0);
+  ctx.closePath();
+  ctx.fillStyle = "#ffffff";
+  ctx.fill();
+  
+  ctx.restore();
+}
+
+/** Draw WIF logo — dog with hat */
+export function drawWIFLogo(ctx: CanvasRenderingContext2D, r: number) {
+  ctx.save();
+  
+  // Simple dog face with hat
+  const hatTop = -r * 0.6;
+  
+  // Hat
+  ctx.beginPath();
+  ctx.moveTo(-r * 0.5, -r * 0.3);
+  ctx.lineTo(0, hatTop - r * 0.2);
+  ctx.lineTo(r * 0.5, -r * 0.3);
+  ctx.closePath();
+  ctx.fillStyle = "#ff0000";
+  ctx.fill();
+  
+  // Hat brim
+  ctx.beginPath();
+  ctx.ellipse(0, -r * 0.3, r * 0.55, r * 0.12, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#ff0000";
+  ctx.fill();
+  
+  // Eyes
+  const eyeY = r * 0.0;
+  const eyeSpacing = r * 0.28;
+  
+  ctx.beginPath();
+  ctx.arc(-eyeSpacing, eyeY, r * 0.12, 0, Math.PI * 2);
+  ctx.fillStyle = "#000000";
+  ctx.fill();
+  
+  ctx.beginPath();
+  ctx.arc(eyeSpacing, eyeY, r * 0.12, 0, Math.PI * 2);
+  ctx.fillStyle = "#000000";
+  ctx.fill();
+  
+  // Nose
+  ctx.beginPath();
+  ctx.ellipse(0, r * 0.25, r * 0.1, r * 0.07, 0, 0, Math.PI * 2);
+  ctx.fillStyle = "#333333";
+  ctx.fill();
+  
+  ctx.restore();
+}
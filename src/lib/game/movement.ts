@@ -0,0 +1,106 @@
+import { CENTER_X, CENTER_Y } from "./constants";
+import type { Meteor } from "./types";
+
+// ─── Movement Patterns ────────────────────────────────────────────────────────
+// How a meteor steers toward SUI. Everything a pattern needs is rolled at spawn
+// and kept in `Meteor.motion`, so moving never touches the RNG.
+
+export type MovementKind = "straight" | "sine" | "spiral" | "zigzag" | "homing" | "lunge";
+
+// Weighted pattern odds for one coin (weights sum to 1)
+export type MovementMix = readonly (readonly [MovementKind, number])[];
+
+const SINE_AMPLITUDE = 36; // px either side of the direct line
+const SINE_FREQUENCY = 3; // rad/s
+
+const SPIRAL_INWARD = 0.4; // share of the speed spent closing in; the rest circles
+const SPIRAL_SPEED = 1.6; // the path is longer, so it moves faster along it
+
+const ZIGZAG_PERIOD_MS = 550; // one dash + drift, then switch sides
+const ZIGZAG_DASH = 0.4; // share of the period spent dashing
+const ZIGZAG_ANGLE = 0.65; // rad off the direct line
+
+const HOMING_SPAWN_OFFSET = 1; // rad, max launch angle away from SUI
+const HOMING_TURN_RATE = 1.1; // rad/s
+const HOMING_TURN_GROWTH = 0.6; // rad/s gained per second alive, so nothing circles forever
+
+const LUNGE_RANGE = 250; // px from SUI where it stops to wind up
+const LUNGE_PAUSE_MS = 700;
+const LUNGE_SPEED = 3; // × cruise speed
+
+/** Launch direction for a freshly spawned meteor. */
+export function launchHeading(kind: MovementKind, toCenter: number, pattern: number): number {
+  // Homers start off-line and visibly curve in
+  return kind === "homing" ? toCenter + (pattern - 0.5) * 2 * HOMING_SPAWN_OFFSET : toCenter;
+}
+
+function steer(m: Meteor, heading: number, speed: number) {
+  m.vx = Math.cos(heading) * speed;
+  m.vy = Math.sin(heading) * speed;
+}
+
+// Wraps to (-π, π]
+function angleDiff(a: number, b: number): number {
+  let d = (a - b) % (Math.PI * 2);
+  if (d > Math.PI) d -= Math.PI * 2;
+  if (d <= -Math.PI) d += Math.PI * 2;
+  return d;
+}
+
+/** Sets this tick's velocity from the meteor's pattern. */
+export function updateMotion(m: Meteor, dt: number) {
+  const motion = m.motion;
+  motion.age += dt;
+  const toCenter = Math.atan2(CENTER_Y - m.y, CENTER_X - m.x);
+  const side = motion.pattern < 0.5 ? 1 : -1;
+
+  switch (motion.kind) {
+    case "straight":
+      break; // keeps its launch velocity
+
+    case "sine": {
+      // Forward along the direct line plus a sideways swing
+      const swing =
+        SINE_AMPLITUDE * SINE_FREQUENCY * Math.cos((motion.age / 1000) * SINE_FREQUENCY + motion.pattern * Math.PI * 2);
+      steer(m, toCenter, motion.speed);
+      m.vx -= Math.sin(toCenter) * swing;
+      m.vy += Math.cos(toCenter) * swing;
+      break;
+    }
+
+    case "spiral":
+      // Constant angle to the center: the orbit tightens and speeds up as it closes
+      steer(m, toCenter + side * Math.acos(SPIRAL_INWARD), motion.speed * SPIRAL_SPEED);
+      break;
+
+    case "zigzag": {
+      const segment = Math.floor(motion.age / ZIGZAG_PERIOD_MS);
+      const dashing = (motion.age % ZIGZAG_PERIOD_MS) / ZIGZAG_PERIOD_MS < ZIGZAG_DASH;
+      const flip = segment % 2 === 0 ? side : -side;
+      steer(m, toCenter + flip * ZIGZAG_ANGLE, motion.speed * (dashing ? 1.8 : 0.6));
+      break;
+    }
+
+    case "homing": {
+      const heading = Math.atan2(m.vy, m.vx);
+      const maxTurn = (HOMING_TURN_RATE + HOMING_TURN_GROWTH * (motion.age / 1000)) * (dt / 1000);
+      const turn = Math.max(-maxTurn, Math.min(maxTurn, angleDiff(toCenter, heading)));
+      steer(m, heading + turn, motion.speed);
+      break;
+    }
+
+    case "lunge": {
+      const dist = Math.hypot(CENTER_X - m.x, CENTER_Y - m.y);
+      if (motion.stage === "approach" && dist < LUNGE_RANGE + motion.pattern * 60) {
+        motion.stage = "pause";
+        motion.stageMs = LUNGE_PAUSE_MS;
+      } else if (motion.stage === "pause") {
+        motion.stageMs -= dt;
+        if (motion.stageMs <= 0) motion.stage = "lunge";
+      }
+      const speed = motion.stage === "pause" ? 0 : motion.stage === "lunge" ? motion.speed * LUNGE_SPEED : motion.speed;
+      steer(m, toCenter, speed);
+      break;
+    }
+  }
+}
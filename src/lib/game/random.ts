@@ -0,0 +1,57 @@
+// ─── Seeded Random ────────────────────────────────────────────────────────────
+// mulberry32: tiny, fast and good enough for gameplay. The generator state is a
+// plain object so it lives inside `GameState` and serialises with it.
+
+export interface Rng {
+  seed: number;
+  state: number;
+}
+
+export function createRng(seed: number): Rng {
+  return { seed: seed >>> 0, state: seed >>> 0 };
+}
+
+/** Next float in [0, 1), advancing `rng`. */
+export function nextRandom(rng: Rng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/** Integer in [0, max). */
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(nextRandom(rng) * max);
+}
+
+export function randomItem<T>(rng: Rng, items: readonly T[]): T {
+  return items[randomInt(rng, items.length)];
+}
+
+/** Picks from `[item, weight]` pairs whose weights sum to 1. */
+export function randomWeighted<T>(rng: Rng, table: readonly (readonly [T, number])[]): T {
+  let roll = nextRandom(rng);
+  for (const [item, weight] of table) {
+    roll -= weight;
+    if (roll < 0) return item;
+  }
+  return table[table.length - 1][0];
+}
+
+/** Fresh seed for an ordinary run. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/** Same seed for everyone on the same UTC day — for "daily seed" challenges. */
+export function dailySeed(date = new Date()): number {
+  const key = date.toISOString().slice(0, 10); // YYYY-MM-DD
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,238 @@
+import { SIM_VERSION, TICK_MS } from "./constants";
+import { LAST_LEVEL } from "./levels";
+import { cancelCharge, createInitialState, step } from "./simulation";
+import type { GameEvent, GameMode, GameState, StepInput } from "./types";
+import { isLoadout, type Loadout } from "./upgrades";
+
+// ─── Replays ──────────────────────────────────────────────────────────────────
+// The simulation is deterministic for a seed and a per-tick input stream, so a
+// replay only stores those. Frames are written only when the input changes.
+
+const PRESSED = 1;
+const RELEASED = 2;
+const STRONG = 4;
+
+/** [tick, aimX, aimY, buttons] — buttons is a PRESSED | RELEASED | STRONG bitmask */
+export type ReplayFrame = [number, number, number, number];
+
+export interface Replay {
+  version: number; // SIM_VERSION the run was recorded with
+  seed: number;
+  mode: GameMode;
+  startLevel: number; // campaign index the run started from
+  loadout: Loadout; // permanent upgrades the run started with
+  player: string;
+  recordedAt: string; // ISO timestamp
+  score: number;
+  ticks: number; // total simulation ticks in the run
+  frames: ReplayFrame[];
+  pauses: number[]; // ticks at which the player paused (drops any charge)
+}
+
+export interface Recorder {
+  seed: number;
+  mode: GameMode;
+  startLevel: number;
+  loadout: Loadout;
+  player: string;
+  ticks: number;
+  frames: ReplayFrame[];
+  pauses: number[];
+  last: ReplayFrame | null;
+}
+
+export function createRecorder(
+  seed: number,
+  mode: GameMode,
+  startLevel: number,
+  loadout: Loadout,
+  player: string,
+): Recorder {
+  return { seed, mode, startLevel, loadout, player, ticks: 0, frames: [], pauses: [], last: null };
+}
+
+/**
+ * Logs the input for the next tick and returns the canonical copy the
+ * simulation must be stepped with (aim is rounded to whole pixels so the live
+ * run and its replay see exactly the same numbers).
+ */
+export function recordTick(recorder: Recorder, input: StepInput): StepInput {
+  const frame: ReplayFrame = [
+    recorder.ticks,
+    Math.round(input.aimX),
+    Math.round(input.aimY),
+    (input.pressed ? PRESSED : 0) | (input.released ? RELEASED : 0) | (input.strong ? STRONG : 0),
+  ];
+  const last = recorder.last;
+  if (!last || frame[3] !== 0 || frame[1] !== last[1] || frame[2] !== last[2]) {
+    recorder.frames.push(frame);
+  }
+  recorder.last = frame;
+  recorder.ticks++;
+  return frameInput(frame);
+}
+
+/** Call when the player pauses; the pause itself cancels a charge in progress. */
+export function recordPause(recorder: Recorder) {
+  recorder.pauses.push(recorder.ticks);
+}
+
+export function finishRecording(recorder: Recorder, score: number, recordedAt: string): Replay {
+  return {
+    version: SIM_VERSION,
+    seed: recorder.seed,
+    mode: recorder.mode,
+    startLevel: recorder.startLevel,
+    loadout: recorder.loadout,
+    player: recorder.player,
+    recordedAt,
+    score,
+    ticks: recorder.ticks,
+    frames: recorder.frames,
+    pauses: recorder.pauses,
+  };
+}
+
+function frameInput(frame: ReplayFrame): StepInput {
+  return {
+    aimX: frame[1],
+    aimY: frame[2],
+    pressed: (frame[3] & PRESSED) !== 0,
+    released: (frame[3] & RELEASED) !== 0,
+    strong: (frame[3] & STRONG) !== 0,
+  };
+}
+
+function isFrame(value: unknown): value is ReplayFrame {
+  return Array.isArray(value) && value.length === 4 && value.every(n => Number.isFinite(n));
+}
+
+/**
+ * Validates untrusted JSON (imports, uploads). Returns null if malformed, or
+ * if it runs past `maxTicks` or logs more frames or pauses than that.
+ */
+export function parseReplay(data: unknown, maxTicks = Infinity): Replay | null {
+  if (!data || typeof data !== "object") return null;
+  const r = data as Partial<Replay>;
+  if (
+    typeof r.version !== "number" ||
+    typeof r.seed !== "number" ||
+    (r.mode !== "campaign" && r.mode !== "endless") ||
+    typeof r.startLevel !== "number" ||
+    !Number.isInteger(r.startLevel) ||
+    r.startLevel < 0 ||
+    r.startLevel > LAST_LEVEL ||
+    !isLoadout(r.loadout) ||
+    typeof r.player !== "string" ||
+    typeof r.recordedAt !== "string" ||
+    typeof r.score !== "number" ||
+    typeof r.ticks !== "number" ||
+    r.ticks > maxTicks ||
+    !Array.isArray(r.frames) ||
+    r.frames.length > maxTicks ||
+    !r.frames.every(isFrame) ||
+    !Array.isArray(r.pauses) ||
+    r.pauses.length > maxTicks ||
+    !r.pauses.every(n => Number.isFinite(n))
+  ) {
+    return null;
+  }
+  return r as Replay;
+}
+
+// ─── Playback ─────────────────────────────────────────────────────────────────
+
+// A seekable playback keeps a copy of the run every this many ticks, so a jump
+// re-simulates from the nearest copy instead of from the start
+const SNAPSHOT_TICKS = 600;
+
+// Where a playback stood at a tick, enough to resume from there
+interface PlaybackPosition {
+  state: GameState;
+  tick: number;
+  frameIndex: number;
+  pauseIndex: number;
+  input: StepInput;
+}
+
+export interface Playback extends PlaybackPosition {
+  replay: Replay;
+  snapshots: PlaybackPosition[] | null; // one per SNAPSHOT_TICKS from tick 0; null when not seekable
+}
+
+function copyPosition(position: PlaybackPosition): PlaybackPosition {
+  const { state, tick, frameIndex, pauseIndex, input } = position;
+  return { state: structuredClone(state), tick, frameIndex, pauseIndex, input: { ...input } };
+}
+
+/**
+ * `seekable` playbacks keep snapshots for `seekPlayback` (the viewer's slider);
+ * a straight run-through like verification doesn't need them.
+ */
+export function createPlayback(replay: Replay, highScore = 0, seekable = false): Playback {
+  const playback: Playback = {
+    replay,
+    state: createInitialState({
+      seed: replay.seed,
+      mode: replay.mode,
+      startLevel: replay.startLevel,
+      loadout: replay.loadout,
+      highScore,
+    }),
+    tick: 0,
+    frameIndex: 0,
+    pauseIndex: 0,
+    input: { aimX: 0, aimY: 0, pressed: false, released: false, strong: false },
+    snapshots: null,
+  };
+  if (seekable) playback.snapshots = [copyPosition(playback)];
+  return playback;
+}
+
+export function isPlaybackDone(playback: Playback): boolean {
+  return playback.tick >= playback.replay.ticks;
+}
+
+/** Steps the recorded run by one tick. Returns no events once it has ended. */
+export function advancePlayback(playback: Playback): GameEvent[] {
+  if (isPlaybackDone(playback)) return [];
+  const { replay } = playback;
+
+  while (playback.pauseIndex < replay.pauses.length && replay.pauses[playback.pauseIndex] <= playback.tick) {
+    cancelCharge(playback.state);
+    playback.pauseIndex++;
+  }
+
+  const frame = replay.frames[playback.frameIndex];
+  if (frame && frame[0] === playback.tick) {
+    playback.input = frameInput(frame);
+    playback.frameIndex++;
+  } else {
+    // Unchanged tick: same aim, no button edges
+    playback.input = { ...playback.input, pressed: false, released: false, strong: false };
+  }
+
+  playback.tick++;
+  const events = step(playback.state, playback.input, TICK_MS);
+  const { snapshots } = playback;
+  if (snapshots && playback.tick === snapshots.length * SNAPSHOT_TICKS) snapshots.push(copyPosition(playback));
+  return events;
+}
+
+/**
+ * Jumps to `tick` by re-simulating from the nearest snapshot at or before it
+ * (or from the current tick when that is nearer). Determinism makes this
+ * exact. Playbacks without snapshots replay from the start to go backwards.
+ */
+export function seekPlayback(playback: Playback, tick: number): Playback {
+  const target = Math.max(0, Math.min(tick, playback.replay.ticks));
+  let pb = playback;
+  if (!pb.snapshots) {
+    if (target < pb.tick) pb = createPlayback(pb.replay, pb.state.highScore);
+  } else {
+    const nearest = pb.snapshots[Math.min(Math.floor(target / SNAPSHOT_TICKS), pb.snapshots.length - 1)];
+    if (target < pb.tick || nearest.tick > pb.tick) pb = { ...pb, ...copyPosition(nearest) };
+  }
+  while (pb.tick < target) advancePlayback(pb);
+  return pb;
+}
@@ -0,0 +1,741 @@
+import { aimAtSui, BOSSES, currentStage, formationOffsets, stageFor, type BossAttack } from "./bosses";
+import {
+  BOSS_COLORS,
+  CENTER_X,
+  CENTER_Y,
+  HEIGHT,
+  HOLD_THRESHOLD_MS,
+  METEOR_DAMAGE,
+  SIMPLE_WAVE_COST,
+  SIMPLE_WAVE_DAMAGE,
+  STARTING_SCORE,
+  STRONG_WAVE_DAMAGE,
+  SUI_RADIUS,
+  WIDTH,
+} from "./constants";
+import {
+  ENDLESS_LEVEL_MS,
+  endlessBossFor,
+  endlessBossHpScale,
+  endlessExtraMeteors,
+  endlessSpawnInterval,
+} from "./endless";
+import { COIN_TYPES, ENEMIES, VARIANTS } from "./enemies";
+import { CAMPAIGN, LAST_LEVEL, type LevelDefinition } from "./levels";
+import { launchHeading, updateMotion } from "./movement";
+import {
+  generateStars,
+  spawnBoss,
+  spawnBossProjectile,
+  spawnFragment,
+  spawnMeteor,
+} from "./spawn";
+import { createRng, nextRandom, randomInt, randomItem } from "./random";
+import { NO_UPGRADES, upgradeValue, type Loadout } from "./upgrades";
+import type {
+  Boss,
+  BossType,
+  CoinType,
+  GameEvent,
+  GameMode,
+  GameState,
+  Meteor,
+  PowerUpType,
+  RunOutcome,
+  StepInput,
+  Wave,
+} from "./types";
+
+// ─── Headless Simulation Core ─────────────────────────────────────────────────
+// Every game rule lives here. Nothing in this module touches the canvas,
+// `window`, `localStorage` or audio: the host feeds input into `step`, reads
+// the state back to draw it, and reacts to the returned events.
+
+export interface RunOptions {
+  seed: number;
+  mode?: GameMode;
+  startLevel?: number; // campaign index picked on the level select
+  highScore?: number;
+  loadout?: Loadout; // the player's permanent upgrades
+}
+
+const POWER_UP_ROLL_MS = 5000;
+
+// Speed ("overclock"): waves expand faster and a strong wave charges in half
+// the time. Repeat pickups extend the timer, up to two pickups' worth, instead
+// of compounding the boost.
+const SPEED_WAVE_MULTIPLIER = 1.6;
+const SPEED_CHARGE_MULTIPLIER = 0.5;
+const SPEED_MAX_PICKUPS = 2;
+const COMBO_WINDOW_MS = 2000;
+
+// Stars draw from their own stream so the backdrop never shifts gameplay rolls
+const STAR_SEED_SALT = 0x9e3779b9;
+
+export function createInitialState({
+  seed,
+  mode = "campaign",
+  startLevel = 0,
+  highScore = 0,
+  loadout = NO_UPGRADES,
+}: RunOptions): GameState {
+  const maxHp = upgradeValue(loadout, "startingHp");
+  const shieldMs = upgradeValue(loadout, "startingShield");
+  return {
+    mode,
+    score: STARTING_SCORE,
+    highScore,
+    hp: maxHp,
+    maxHp,
+    loadout,
+    meteors: [],
+    scorePopups: [],
+    waves: [],
+    powerUps: [],
+    activePowerUps: shieldMs > 0 ? [{ type: "shield", duration: shieldMs }] : [],
+    mouseX: CENTER_X,
+    mouseY: CENTER_Y,
+    stars: generateStars(createRng(seed ^ STAR_SEED_SALT)),
+    nextMeteorId: 0,
+    nextWaveId: 0,
+    nextPowerUpId: 0,
+    spawnTimer: 0,
+    spawnInterval: CAMPAIGN[startLevel].spawn.initialIntervalMs,
+    powerUpTimer: 0,
+    gameOver: false,
+    suiPulse: 0,
+    combo: 0,
+    comboTimer: 0,
+    chargeTime: null,
+    chargeProgress: 0,
+    levelIndex: startLevel,
+    levelStartScore: STARTING_SCORE,
+    endless: null,
+    boss: null,
+    bossDefeated: false,
+    bossProjectiles: [],
+    time: 0,
+    stats: {
+      kills: 0,
+      wavesFired: 0,
+      wavesHit: 0,
+      bestCombo: 0,
+      killsByCoin: Object.fromEntries(COIN_TYPES.map(type => [type, 0])) as Record<CoinType, number>,
+      bossesDefeated: 0,
+    },
+    rng: createRng(seed),
+  };
+}
+
+export function currentLevel(state: GameState): LevelDefinition {
+  return CAMPAIGN[state.levelIndex];
+}
+
+/** Drop a charge in progress, e.g. when the host pauses the run. */
+export function cancelCharge(state: GameState) {
+  state.chargeTime = null;
+  state.chargeProgress = 0;
+}
+
+function hasPowerUp(state: GameState, type: PowerUpType): boolean {
+  return state.activePowerUps.some(p => p.type === type);
+}
+
+function grantPowerUp(state: GameState, type: PowerUpType) {
+  const duration = upgradeValue(state.loadout, "powerUpDuration");
+  const active = type === "speed" ? state.activePowerUps.find(p => p.type === "speed") : undefined;
+  if (active) {
+    active.duration = Math.min(active.duration + duration, duration * SPEED_MAX_PICKUPS);
+  } else {
+    state.activePowerUps.push({ type, duration });
+  }
+}
+
+/** Hold time needed for a strong wave; shorter while speed is active. */
+export function chargeThreshold(state: GameState): number {
+  return hasPowerUp(state, "speed") ? HOLD_THRESHOLD_MS * SPEED_CHARGE_MULTIPLIER : HOLD_THRESHOLD_MS;
+}
+
+// ── End of run ────────────────────────────────────────────────────────────
+// Every source of damage goes through damageSui, and only `step` decides the
+// run is over, so a death always ends in exactly one `runEnded`.
+// `x`, `y` and `color` are where the hit landed and what it was, for the host's effects
+function damageSui(state: GameState, events: GameEvent[], damage: number, from: "meteor" | "boss", x: number, y: number, color: string) {
+  state.hp = Math.max(0, state.hp - damage);
+  events.push({ type: "suiHit", damage, hp: state.hp, from, x, y, color });
+}
+
+function endRun(state: GameState, events: GameEvent[], outcome: RunOutcome) {
+  state.gameOver = true;
+  events.push({ type: "runEnded", outcome, score: state.score });
+}
+
+// A shot counts as a hit (for accuracy) the first time any of its rings touches
+// a meteor or the boss
+function markLanded(state: GameState, wave: Wave) {
+  if (wave.landed) return;
+  for (const w of state.waves) if (w.shot === wave.shot) w.landed = true;
+  state.stats.wavesHit++;
+}
+
+/** SUI a wave costs for this run's loadout. */
+export function waveCost(state: GameState, strong: boolean): number {
+  return strong ? upgradeValue(state.loadout, "strongWaveCost") : SIMPLE_WAVE_COST;
+}
+
+// ── Fire wave attack ──────────────────────────────────────────────────────
+// Simple wave: fires from click position, medium radius
+// Strong wave: fires from SUI center, covers entire screen
+function fireWave(state: GameState, events: GameEvent[], strong: boolean, originX: number, originY: number) {
+  const cost = waveCost(state, strong);
+  if (state.score < cost) return; // not enough SUI
+
+  state.score -= cost;
+  const shot = state.stats.wavesFired++;
+  events.push({ type: "waveFired", strong });
+
+  if (strong) {
+    // Strong wave: 3 rapid rings from SUI center, guaranteed full-screen coverage
+    for (let ring = 0; ring < 3; ring++) {
+      state.waves.push({
+        id: state.nextWaveId++,
+        x: CENTER_X,
+        y: CENTER_Y,
+        radius: 8 + ring * 30, // staggered start
+        prevRadius: 8 + ring * 30,
+        maxRadius: Math.sqrt(WIDTH * WIDTH + HEIGHT * HEIGHT) + 60, // covers all corners
+        alpha: 1,
+        strong: true,
+        shot,
+        landed: false,
+        hitIds: [],
+      });
+    }
+  } else {
+    // Simple wave: fires from click position
+    state.waves.push({
+      id: state.nextWaveId++,
+      x: originX,
+      y: originY,
+      radius: 8,
+      prevRadius: 8,
+      maxRadius: upgradeValue(state.loadout, "waveRadius"),
+      alpha: 1,
+      strong: false,
+      shot,
+      landed: false,
+      hitIds: [],
+    });
+  }
+}
+
+// ── Hold-to-charge: press starts the timer, release fires ──────────────────
+function applyInput(state: GameState, events: GameEvent[], input: StepInput, dt: number) {
+  state.mouseX = input.aimX;
+  state.mouseY = input.aimY;
+
+  const release = () => {
+    const strong = (state.chargeTime ?? 0) >= chargeThreshold(state);
+    cancelCharge(state);
+    // Fire from current aim position (where the player released)
+    fireWave(state, events, strong, state.mouseX, state.mouseY);
+  };
+
+  const wasCharging = state.chargeTime !== null;
+  if (wasCharging && input.released) release();
+  if (input.pressed) {
+    state.chargeTime = 0;
+    state.chargeProgress = 0;
+    // Press and release inside one step is a plain click
+    if (!wasCharging && input.released) release();
+  }
+
+  // Shortcut: the strong wave without holding, same cost
+  if (input.strong) {
+    cancelCharge(state);
+    fireWave(state, events, true, state.mouseX, state.mouseY);
+  }
+
+  if (state.chargeTime !== null) {
+    state.chargeTime += dt;
+    state.chargeProgress = Math.min(state.chargeTime / chargeThreshold(state), 1);
+  }
+}
+
+/** True when a repeating `periodMs` timer fires between `prevMs` and `nowMs`. */
+function crossed(prevMs: number, nowMs: number, periodMs: number): boolean {
+  return Math.floor(nowMs / periodMs) > Math.floor(prevMs / periodMs);
+}
+
+// Remember where everything was so the renderer can interpolate between ticks
+function snapshotPositions(state: GameState) {
+  for (const m of state.meteors) { m.prevX = m.x; m.prevY = m.y; }
+  for (const p of state.bossProjectiles) { p.prevX = p.x; p.prevY = p.y; }
+  for (const w of state.waves) w.prevRadius = w.radius;
+  if (state.boss) { state.boss.prevX = state.boss.x; state.boss.prevY = state.boss.y; }
+}
+
+// Meteor batches on the current level's spawn curve
+function updateSpawning(state: GameState, dt: number) {
+  state.spawnTimer += dt;
+  if (state.spawnTimer >= state.spawnInterval) {
+    state.spawnTimer -= state.spawnInterval;
+    const level = currentLevel(state);
+    const endlessLevel = state.endless?.level ?? 0;
+    const count = level.spawn.batch.base + randomInt(state.rng, level.spawn.batch.extra) + endlessExtraMeteors(endlessLevel);
+    for (let i = 0; i < count; i++) {
+      state.meteors.push(spawnMeteor(state.rng, state.nextMeteorId++, level, endlessLevel));
+    }
+    if (state.endless) return; // endless levels set the interval themselves
+    state.spawnInterval = Math.max(level.spawn.minIntervalMs, state.spawnInterval - level.spawn.decayMs);
+  }
+}
+
+function updatePowerUps(state: GameState, events: GameEvent[], dt: number) {
+  // Spawn power-ups occasionally
+  state.powerUpTimer += dt;
+  if (state.powerUpTimer >= POWER_UP_ROLL_MS) { // Every ~5 seconds
+    state.powerUpTimer -= POWER_UP_ROLL_MS;
+    if (nextRandom(state.rng) < 0.5 && state.powerUps.length < 2) {
+      const types: PowerUpType[] = ["shield", "speed", "multiplier", "heal"];
+      const type = randomItem(state.rng, types);
+      // Spawn at random position away from center
+      const angle = nextRandom(state.rng) * Math.PI * 2;
+      const dist = 150 + nextRandom(state.rng) * 200;
+      state.powerUps.push({
+        id: state.nextPowerUpId++,
+        type,
+        x: CENTER_X + Math.cos(angle) * dist,
+        y: CENTER_Y + Math.sin(angle) * dist,
+        radius: 18,
+        pulse: 0,
+      });
+    }
+  }
+
+  // Update power-ups (pulse animation and collection)
+  for (let i = state.powerUps.length - 1; i >= 0; i--) {
+    const p = state.powerUps[i];
+    p.pulse += 6 * (dt / 1000);
+    // Check if player wave hits power-up
+    for (const w of state.waves) {
+      const dx = p.x - w.x;
+      const dy = p.y - w.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (Math.abs(dist - w.radius) < 20 + p.radius) {
+        // Collected!
+        grantPowerUp(state, p.type);
+        state.powerUps.splice(i, 1);
+        events.push({ type: "powerUpCollected", powerUp: p.type });
+        break;
+      }
+    }
+  }
+
+  // Update active power-ups
+  for (let i = state.activePowerUps.length - 1; i >= 0; i--) {
+    state.activePowerUps[i].duration -= dt;
+    if (state.activePowerUps[i].duration <= 0) {
+      state.activePowerUps.splice(i, 1);
+    }
+  }
+
+  // Update combo timer
+  if (state.comboTimer > 0) {
+    state.comboTimer -= dt;
+    if (state.comboTimer <= 0) {
+      state.combo = 0;
+    }
+  }
+}
+
+/** Moves meteors and resolves SUI / shield contact. */
+function updateMeteors(state: GameState, events: GameEvent[], dt: number) {
+  const seconds = dt / 1000;
+  for (let i = state.meteors.length - 1; i >= 0; i--) {
+    const m = state.meteors[i];
+    updateMotion(m, dt);
+    m.x += m.vx * seconds;
+    m.y += m.vy * seconds;
+    m.rotation += m.rotSpeed * seconds;
+
+    const dx = m.x - CENTER_X;
+    const dy = m.y - CENTER_Y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    // Check for shield power-up
+    const hasShield = hasPowerUp(state, "shield");
+    const shieldRadius = SUI_RADIUS + 30;
+
+    if (hasShield && dist < shieldRadius + m.radius) {
+      // Shield blocks the meteor
+      state.meteors.splice(i, 1);
+      events.push({ type: "meteorShielded", coin: m.type, x: m.x, y: m.y });
+    } else if (dist < SUI_RADIUS + m.radius - 10) {
+      state.meteors.splice(i, 1);
+      damageSui(state, events, METEOR_DAMAGE, "meteor", m.x, m.y, ENEMIES[m.type].palette.primary);
+    }
+  }
+}
+
+// Bosses descend to the bottom of their orbit before their script starts
+const BOSS_ARRIVAL_Y = 200;
+const BOSS_ORBIT_Y = 150;
+
+// Minions keep their rolled pattern but launch from their formation slot
+function placeMinion(m: Meteor, x: number, y: number) {
+  const heading = launchHeading(m.motion.kind, aimAtSui(x, y), m.motion.pattern);
+  m.x = m.prevX = x;
+  m.y = m.prevY = y;
+  m.vx = Math.cos(heading) * m.motion.speed;
+  m.vy = Math.sin(heading) * m.motion.speed;
+}
+
+
+// Lasers have no launch: their hit lands in updateBoss when the sweep crosses SUI
+function fireBossAttack(state: GameState, boss: Boss, attack: BossAttack, firing: number) {
+  switch (attack.kind) {
+    case "ring":
+      for (let i = 0; i < attack.count; i++) {
+        const angle = firing * attack.spin + (i / attack.count) * Math.PI * 2;
+        state.bossProjectiles.push(spawnBossProjectile(state.nextMeteorId++, boss.x, boss.y, angle, attack.speed, boss.type));
+      }
+      break;
+
+    case "volley": {
+      const aim = aimAtSui(boss.x, boss.y) + (nextRandom(state.rng) - 0.5) * attack.jitter;
+      for (let i = 0; i < attack.count; i++) {
+        const offset = attack.count > 1 ? (i / (attack.count - 1) - 0.5) * attack.spread : 0;
+        state.bossProjectiles.push(
+          spawnBossProjectile(state.nextMeteorId++, boss.x, boss.y, aim + offset, attack.speed, boss.type),
+        );
+      }
+      break;
+    }
+
+    case "laser":
+      break;
+
+    case "minions": {
+      // Minions come from the current level's roster
+      const slots = formationOffsets(attack.formation, attack.count, aimAtSui(boss.x, boss.y));
+      for (const slot of slots) {
+        const minion = spawnMeteor(state.rng, state.nextMeteorId++, currentLevel(state), state.endless?.level);
+        placeMinion(minion, boss.x + slot.x, boss.y + slot.y);
+        state.meteors.push(minion);
+      }
+      break;
+    }
+  }
+}
+
+// Runs the boss's current stage: every attack fires on its own beat
+function runBossScript(state: GameState, events: GameEvent[], boss: Boss, dt: number) {
+  const prevTimer = boss.stageTimer;
+  boss.stageTimer += dt;
+  for (const attack of currentStage(boss).attacks) {
+    if (crossed(prevTimer, boss.stageTimer, attack.everyMs)) {
+      fireBossAttack(state, boss, attack, Math.floor(boss.stageTimer / attack.everyMs));
+    }
+    if (attack.kind === "laser") {
+      // The beam sweeps across SUI halfway through
+      const hitAt = attack.sweepMs / 2;
+      if (boss.stageTimer - hitAt >= attack.everyMs && crossed(prevTimer - hitAt, boss.stageTimer - hitAt, attack.everyMs)) {
+        damageSui(state, events, attack.damage, "boss", CENTER_X, CENTER_Y, BOSS_COLORS[boss.type]);
+      }
+    }
+  }
+}
+
+function updateBoss(state: GameState, events: GameEvent[], dt: number) {
+  if (!state.boss || state.bossDefeated) return;
+  const seconds = dt / 1000;
+  const boss = state.boss;
+  boss.rotation += boss.rotSpeed * seconds;
+
+  if (boss.vy > 0) {
+    // Entry descent; the orbit takes over from where it ends
+    boss.y = Math.min(BOSS_ARRIVAL_Y, boss.y + boss.vy * seconds);
+    if (boss.y === BOSS_ARRIVAL_Y) boss.vy = 0;
+  } else {
+    boss.orbitAngle += currentStage(boss).orbitSpeed * seconds;
+    boss.x = CENTER_X + Math.cos(boss.orbitAngle) * BOSSES[boss.type].orbitRadius;
+    boss.y = BOSS_ORBIT_Y + Math.sin(boss.orbitAngle) * (BOSS_ARRIVAL_Y - BOSS_ORBIT_Y);
+    runBossScript(state, events, boss, dt);
+  }
+
+  // Check if waves hit boss
+  for (let i = state.waves.length - 1; i >= 0; i--) {
+    const w = state.waves[i];
+    const dx = boss.x - w.x;
+    const dy = boss.y - w.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    const ringThickness = w.strong ? 20 : 12;
+
+    if (Math.abs(dist - w.radius) < ringThickness + boss.radius) {
+      markLanded(state, w);
+      const damage = w.strong ? 25 : 10;
+      boss.hp -= damage;
+      const bossColor = BOSS_COLORS[boss.type];
+      events.push({ type: "bossHit", boss: boss.type, damage, x: boss.x, y: boss.y });
+
+      // Score for hitting boss
+      state.score += damage;
+      state.scorePopups.push({
+        x: boss.x,
+        y: boss.y - boss.radius,
+        value: damage,
+        life: 1,
+        maxLife: 1,
+        color: bossColor,
+      });
+
+      if (boss.hp <= 0) {
+        // Boss defeated!
+        state.bossDefeated = true;
+        state.stats.bossesDefeated++;
+        const bonus = boss.maxHp / 2; // 500 for PEPE KING, 1000 for BONK BOSS, more for endless returns
+        state.score += bonus;
+        state.boss = null;
+        events.push({ type: "bossDefeated", boss: boss.type, x: boss.x, y: boss.y });
+        state.bossProjectiles = []; // its bullets go down with it
+      } else {
+        const stage = stageFor(boss.type, boss.hp, boss.maxHp);
+        if (stage > boss.stage) {
+          // Next stage of the script starts from the top
+          boss.stage = stage;
+          boss.stageTimer = 0;
+          const { enraged } = currentStage(boss);
+          events.push({ type: "bossStage", boss: boss.type, stage, enraged });
+        }
+      }
+      break;
+    }
+  }
+
+  // Update boss projectiles
+  for (let i = state.bossProjectiles.length - 1; i >= 0; i--) {
+    const proj = state.bossProjectiles[i];
+    proj.x += proj.vx * seconds;
+    proj.y += proj.vy * seconds;
+
+    // Check collision with SUI
+    const dx = proj.x - CENTER_X;
+    const dy = proj.y - CENTER_Y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    if (dist < SUI_RADIUS + proj.radius) {
+      damageSui(state, events, proj.damage, "boss", proj.x, proj.y, proj.color);
+      state.bossProjectiles.splice(i, 1);
+      continue;
+    }
+
+    // Remove if off screen
+    if (proj.x < -50 || proj.x > WIDTH + 50 || proj.y < -50 || proj.y > HEIGHT + 50) {
+      state.bossProjectiles.splice(i, 1);
+    }
+  }
+}
+
+function updateWaves(state: GameState, events: GameEvent[], dt: number) {
+  const boost = hasPowerUp(state, "speed") ? SPEED_WAVE_MULTIPLIER : 1;
+  for (let i = state.waves.length - 1; i >= 0; i--) {
+    const w = state.waves[i];
+    const expandSpeed = (w.strong ? 540 : 360) * boost; // px/s
+    w.radius += expandSpeed * (dt / 1000);
+    w.alpha = 1 - w.radius / w.maxRadius;
+
+    if (w.radius >= w.maxRadius) {
+      state.waves.splice(i, 1);
+      continue;
+    }
+
+    // Check meteor hits — wave ring expands from click origin
+    for (let j = state.meteors.length - 1; j >= 0; j--) {
+      const m = state.meteors[j];
+      if (w.hitIds.includes(m.id)) continue; // a ring damages each meteor once
+      const dx = m.x - w.x;
+      const dy = m.y - w.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      // Wave ring hits meteor if meteor center is within the ring band
+      const ringThickness = w.strong ? 20 : 12;
+      if (Math.abs(dist - w.radius) < ringThickness + m.radius) {
+        w.hitIds.push(m.id);
+        markLanded(state, w);
+        const variant = VARIANTS[m.variant];
+        const coinColor = ENEMIES[m.type].palette.primary;
+
+        // Shields deflect simple waves outright
+        if (variant.strongOnly && !w.strong) {
+          events.push({ type: "meteorDamaged", coin: m.type, blocked: true, x: m.x, y: m.y });
+          continue;
+        }
+
+        m.hp -= w.strong ? STRONG_WAVE_DAMAGE : SIMPLE_WAVE_DAMAGE;
+        if (m.hp > 0) {
+          events.push({ type: "meteorDamaged", coin: m.type, blocked: false, x: m.x, y: m.y });
+          continue;
+        }
+
+        // Combo system
+        state.combo++;
+        state.comboTimer = COMBO_WINDOW_MS;
+        state.stats.bestCombo = Math.max(state.stats.bestCombo, state.combo);
+
+        // Calculate points with combo and multiplier
+        let points = Math.floor(ENEMIES[m.type].score * variant.scoreScale);
+        if (hasPowerUp(state, "multiplier")) points *= 2;
+        const comboMultiplier = Math.min(state.combo, 10);
+        points = Math.floor(points * (1 + comboMultiplier * 0.1));
+
+        state.score += points;
+        state.scorePopups.push({
+          x: m.x,
+          y: m.y - m.radius,
+          value: points,
+          life: 1,
+          maxLife: 1,
+          color: coinColor,
+        });
+        events.push({ type: "meteorKilled", coin: m.type, combo: state.combo, x: m.x, y: m.y });
+        state.meteors.splice(j, 1);
+        state.stats.kills++;
+        state.stats.killsByCoin[m.type]++;
+
+        // Splitting coins burst into fragments this ring has already passed
+        for (let k = 0; k < variant.fragments; k++) {
+          const fragment = spawnFragment(state.rng, state.nextMeteorId++, m, k, variant.fragments);
+          w.hitIds.push(fragment.id);
+          state.meteors.push(fragment);
+        }
+
+        // Heal power-up gives HP on kill
+        if (hasPowerUp(state, "heal") && state.hp < state.maxHp) {
+          state.hp = Math.min(state.maxHp, state.hp + 2);
+          events.push({ type: "suiHealed", hp: state.hp });
+        }
+      }
+    }
+  }
+}
+
+function bringBoss(state: GameState, events: GameEvent[], type: BossType, hpScale = 1) {
+  state.boss = spawnBoss(state.nextMeteorId++, type, hpScale);
+  events.push({ type: "bossSpawned", boss: type });
+}
+
+function startEndlessLevel(state: GameState, events: GameEvent[], level: number) {
+  const endless = (state.endless ??= { level, levelTimer: 0, bossesSummoned: 0 });
+  endless.level = level;
+  state.spawnInterval = endlessSpawnInterval(level);
+  events.push({ type: "endlessLevel", level });
+
+  const bossType = endlessBossFor(level);
+  if (bossType && !state.boss) {
+    state.bossDefeated = false;
+    bringBoss(state, events, bossType, endlessBossHpScale(endless.bossesSummoned++));
+  }
+}
+
+// Endless levels are timed; a rotating boss shows up every few of them
+function updateEndless(state: GameState, events: GameEvent[], dt: number) {
+  const endless = state.endless!;
+  endless.levelTimer += dt;
+  if (endless.levelTimer >= ENDLESS_LEVEL_MS) {
+    endless.levelTimer -= ENDLESS_LEVEL_MS;
+    startEndlessLevel(state, events, endless.level + 1);
+  }
+}
+
+/** Boss arrivals and phase gates, driven by score. Returns true on victory. */
+function updateProgression(state: GameState, events: GameEvent[], dt: number): boolean {
+  if (state.endless) {
+    updateEndless(state, events, dt);
+    return false;
+  }
+
+  // Gates count SUI earned since the phase began
+  const level = currentLevel(state);
+  const earned = state.score - state.levelStartScore;
+  if (level.boss && earned >= level.boss.atScore && !state.boss && !state.bossDefeated) {
+    bringBoss(state, events, level.boss.type, level.boss.hpScale);
+  }
+
+  const cleared = (!level.boss || state.bossDefeated) && earned >= level.clearAt;
+  if (!cleared) return false;
+
+  if (state.levelIndex < LAST_LEVEL) {
+    state.levelIndex++;
+    state.levelStartScore = state.score;
+    state.bossDefeated = false; // Reset for the next phase's boss
+    state.spawnInterval = currentLevel(state).spawn.initialIntervalMs;
+    events.push({ type: "phaseChanged", level: state.levelIndex });
+    return false;
+  }
+
+  // Final phase cleared: endless runs keep going, campaign runs are won
+  if (state.mode === "endless") {
+    startEndlessLevel(state, events, 1);
+    return false;
+  }
+  return true;
+}
+
+// ── Cosmetics: stars, SUI's pulse, score popups ─────────────────────────
+function updateCosmetics(state: GameState, dt: number) {
+  const seconds = dt / 1000;
+  for (const star of state.stars) {
+    star.twinkle += currentLevel(state).theme.twinkle * seconds;
+  }
+  state.suiPulse += 2.4 * seconds;
+
+  const popups = state.scorePopups;
+  for (let i = popups.length - 1; i >= 0; i--) {
+    const p = popups[i];
+    p.y -= 72 * seconds;
+    p.life -= 1.2 * seconds;
+    if (p.life <= 0) popups.splice(i, 1);
+  }
+}
+
+/**
+ * Advances a running game by `dt` ms and returns what happened. Speeds and
+ * timers are all time-based, but hosts should call this with a fixed `TICK_MS`
+ * so a run plays out the same on every machine. Mutates `state` in place.
+ */
+export function step(state: GameState, input: StepInput, dt: number): GameEvent[] {
+  const events: GameEvent[] = [];
+  if (state.gameOver) return events; // a finished run stays finished
+  state.time += dt;
+  snapshotPositions(state);
+  applyInput(state, events, input, dt);
+  updateSpawning(state, dt);
+  updatePowerUps(state, events, dt);
+
+  updateMeteors(state, events, dt);
+  updateBoss(state, events, dt);
+  if (state.hp <= 0) {
+    endRun(state, events, "gameover");
+    return events;
+  }
+
+  updateWaves(state, events, dt);
+  if (updateProgression(state, events, dt)) {
+    endRun(state, events, "victory");
+    return events;
+  }
+
+  updateCosmetics(state, dt);
+  return events;
+}
+
+/**
+ * Keeps the scene alive outside of play (menus, pause, game over): the
+ * crosshair follows the aim and popups settle, but no rule runs and the fire
+ * button is ignored.
+ */
+export function stepIdle(state: GameState, input: StepInput, dt: number) {
+  state.mouseX = input.aimX;
+  state.mouseY = input.aimY;
+  updateCosmetics(state, dt);
+}
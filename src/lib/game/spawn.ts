@@ -0,0 +1,148 @@
+import { BOSSES } from "./bosses";
+import { CENTER_X, CENTER_Y, HEIGHT, WIDTH } from "./constants";
+import { COIN_TYPES, ENEMIES, VARIANTS } from "./enemies";
+import { endlessSpeedScale, endlessVariantWeights } from "./endless";
+import type { LevelDefinition } from "./levels";
+import { launchHeading } from "./movement";
+import { nextRandom, randomInt, randomItem, randomWeighted, type Rng } from "./random";
+import type { Boss, BossProjectile, BossType, CoinType, Meteor, MeteorMotion, MovementKind, Star } from "./types";
+
+// ─── Spawners ─────────────────────────────────────────────────────────────────
+export function generateStars(rng: Rng): Star[] {
+  const stars = [];
+  for (let i = 0; i < 180; i++) {
+    stars.push({
+      x: nextRandom(rng) * WIDTH,
+      y: nextRandom(rng) * HEIGHT,
+      r: nextRandom(rng) * 1.8 + 0.3,
+      brightness: nextRandom(rng),
+      twinkle: nextRandom(rng) * Math.PI * 2,
+    });
+  }
+  return stars;
+}
+
+function createMotion(kind: MovementKind, speed: number, pattern: number): MeteorMotion {
+  return { kind, speed, age: 0, pattern, stage: "approach", stageMs: 0 };
+}
+
+// Picks from the level's roster and variant odds; endless levels (> 0) draw
+// from every coin and scale up odds and speed instead
+export function spawnMeteor(rng: Rng, id: number, level: LevelDefinition, endlessLevel = 0): Meteor {
+  const endless = endlessLevel > 0;
+  const type = randomItem(rng, endless ? COIN_TYPES : level.roster);
+  const def = ENEMIES[type];
+  const variant = randomWeighted(rng, endless ? endlessVariantWeights(endlessLevel) : level.variants);
+  const mod = VARIANTS[variant];
+  const radius = (def.radius.min + nextRandom(rng) * (def.radius.max - def.radius.min)) * mod.radiusScale;
+  const side = randomInt(rng, 4);
+  let x = 0, y = 0;
+  if (side === 0) { x = nextRandom(rng) * WIDTH; y = -radius; }
+  else if (side === 1) { x = WIDTH + radius; y = nextRandom(rng) * HEIGHT; }
+  else if (side === 2) { x = nextRandom(rng) * WIDTH; y = HEIGHT + radius; }
+  else { x = -radius; y = nextRandom(rng) * HEIGHT; }
+
+  const baseSpeed = 54 + nextRandom(rng) * 48; // px/s before the coin multiplier
+  const speed = baseSpeed * def.speed * mod.speedScale * endlessSpeedScale(endlessLevel);
+  const movement = randomWeighted(rng, def.movement);
+  const pattern = nextRandom(rng);
+  const heading = launchHeading(movement, Math.atan2(CENTER_Y - y, CENTER_X - x), pattern);
+  return {
+    id,
+    type,
+    x,
+    y,
+    prevX: x,
+    prevY: y,
+    vx: Math.cos(heading) * speed,
+    vy: Math.sin(heading) * speed,
+    radius,
+    rotation: nextRandom(rng) * Math.PI * 2,
+    rotSpeed: (nextRandom(rng) - 0.5) * 3.6,
+    variant,
+    hp: def.hp * mod.hpMultiplier,
+    maxHp: def.hp * mod.hpMultiplier,
+    motion: createMotion(movement, speed, pattern),
+  };
+}
+
+/**
+ * One piece of a destroyed splitting coin: small, fast, and fanned out around
+ * the line to SUI so the pieces don't all arrive as one.
+ */
+export function spawnFragment(rng: Rng, id: number, parent: Meteor, index: number, count: number): Meteor {
+  const type: CoinType = parent.type;
+  const def = ENEMIES[type];
+  const mod = VARIANTS.fragment;
+  // Not the parent's velocity: patterned coins may be mid-swerve or paused
+  const heading = Math.atan2(CENTER_Y - parent.y, CENTER_X - parent.x);
+  const spread = ((index - (count - 1) / 2) * 0.6) + (nextRandom(rng) - 0.5) * 0.2;
+  const speed = parent.motion.speed * mod.speedScale;
+  const angle = heading + spread;
+  return {
+    id,
+    type,
+    x: parent.x,
+    y: parent.y,
+    prevX: parent.x,
+    prevY: parent.y,
+    vx: Math.cos(angle) * speed,
+    vy: Math.sin(angle) * speed,
+    radius: Math.max(10, parent.radius * mod.radiusScale),
+    rotation: parent.rotation,
+    rotSpeed: parent.rotSpeed * 2,
+    variant: "fragment",
+    hp: def.hp * mod.hpMultiplier,
+    maxHp: def.hp * mod.hpMultiplier,
+    motion: createMotion("straight", speed, 0),
+  };
+}
+
+// Bosses enter from above the top edge and start on their first stage; the
+// level (or endless rotation) decides the HP scale
+export function spawnBoss(id: number, bossType: BossType, hpScale = 1): Boss {
+  const def = BOSSES[bossType];
+  const hp = def.hp * hpScale;
+  return {
+    id,
+    type: bossType,
+    x: WIDTH / 2,
+    y: -80,
+    prevX: WIDTH / 2,
+    prevY: -80,
+    vx: 0,
+    vy: 30,
+    radius: def.radius,
+    hp,
+    maxHp: hp,
+    rotation: 0,
+    rotSpeed: def.rotSpeed,
+    stage: 0,
+    stageTimer: 0,
+    orbitAngle: Math.PI / 2, // bottom of the orbit, where the entry descent ends
+  };
+}
+
+// One bullet of a ring or volley, styled by the boss that fired it
+export function spawnBossProjectile(
+  id: number,
+  x: number,
+  y: number,
+  angle: number,
+  speed: number,
+  bossType: BossType,
+): BossProjectile {
+  const shot = BOSSES[bossType].shot;
+  return {
+    id,
+    x,
+    y,
+    prevX: x,
+    prevY: y,
+    vx: Math.cos(angle) * speed,
+    vy: Math.sin(angle) * speed,
+    radius: shot.radius,
+    color: shot.color,
+    damage: shot.damage,
+  };
+}
@@ -0,0 +1,220 @@
+import type { CoinType, MeteorVariant } from "./enemies";
+import type { MovementKind } from "./movement";
+import type { Rng } from "./random";
+import type { Loadout } from "./upgrades";
+
+export type { CoinType, MeteorVariant, MovementKind };
+
+// ─── Simulation Types ─────────────────────────────────────────────────────────
+
+// Attack wave — originates from where the player clicks
+export interface Wave {
+  id: number;
+  x: number; // origin X
+  y: number; // origin Y
+  radius: number;
+  prevRadius: number; // radius at the previous tick, for render interpolation
+  maxRadius: number;
+  alpha: number;
+  strong: boolean; // true = strong (30 SUI), false = simple (10 SUI)
+  shot: number; // which wavesFired this ring belongs to (a strong wave is three rings)
+  landed: boolean; // some ring of this shot has touched a target
+  hitIds: number[]; // meteors this wave already hit — one hit per wave
+}
+
+// Per-meteor movement state; see `movement.ts`
+export interface MeteorMotion {
+  kind: MovementKind;
+  speed: number; // cruise speed, px/s
+  age: number; // ms since spawn
+  pattern: number; // [0, 1) rolled at spawn: weave phase, spiral / zig-zag side
+  stage: "approach" | "pause" | "lunge"; // pause-then-lunge progress
+  stageMs: number; // time left in the pause
+}
+
+export interface Meteor {
+  id: number;
+  type: CoinType;
+  x: number;
+  y: number;
+  prevX: number; // position at the previous tick, for render interpolation
+  prevY: number;
+  vx: number; // px/s
+  vy: number;
+  radius: number;
+  rotation: number;
+  rotSpeed: number; // rad/s
+  variant: MeteorVariant;
+  hp: number;
+  maxHp: number;
+  motion: MeteorMotion;
+}
+
+export interface Particle {
+  x: number;
+  y: number;
+  vx: number; // px/s
+  vy: number;
+  life: number;
+  maxLife: number;
+  color: string;
+  radius: number;
+}
+
+export interface ScorePopup {
+  x: number;
+  y: number;
+  value: number;
+  life: number;
+  maxLife: number;
+  color?: string;
+}
+
+// Power-up types
+export type PowerUpType = "shield" | "speed" | "multiplier" | "heal";
+export interface PowerUp {
+  id: number;
+  type: PowerUpType;
+  x: number;
+  y: number;
+  radius: number;
+  pulse: number;
+}
+
+export interface ActivePowerUp {
+  type: PowerUpType;
+  duration: number; // remaining time in ms
+}
+
+// Boss types for each phase
+export type BossType = "PEPE_KING" | "BONK_BOSS";
+
+// Boss projectile - attacks fired by bosses
+export interface BossProjectile {
+  id: number;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number; // px/s
+  vy: number;
+  radius: number;
+  color: string;
+  damage: number;
+}
+
+// Boss enemy - different boss for each phase
+export interface Boss {
+  id: number;
+  type: BossType;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number; // px/s
+  vy: number;
+  radius: number;
+  hp: number;
+  maxHp: number;
+  rotation: number;
+  rotSpeed: number; // rad/s
+  stage: number; // index into its BOSSES script
+  stageTimer: number; // ms into the current stage, counted once it has arrived
+  orbitAngle: number; // rad
+}
+
+export interface Star {
+  x: number;
+  y: number;
+  r: number;
+  brightness: number;
+  twinkle: number;
+}
+
+// Running totals kept by the simulation, folded into the player's profile
+export interface RunStats {
+  kills: number;
+  wavesFired: number;
+  wavesHit: number; // shots that touched a meteor or boss, for accuracy
+  bestCombo: number;
+  killsByCoin: Record<CoinType, number>;
+  bossesDefeated: number;
+}
+
+export type GameMode = "campaign" | "endless";
+
+// Endless levels after the final campaign phase is cleared
+export interface EndlessState {
+  level: number; // 1 as soon as the final phase is cleared
+  levelTimer: number; // ms into the current level
+  bossesSummoned: number; // endless bosses so far, for HP scaling
+}
+
+export interface GameState {
+  mode: GameMode;
+  score: number;
+  highScore: number;
+  hp: number; // 0–maxHp
+  maxHp: number;
+  loadout: Loadout; // permanent upgrades the run started with
+  meteors: Meteor[];
+  scorePopups: ScorePopup[];
+  waves: Wave[];
+  powerUps: PowerUp[];
+  activePowerUps: ActivePowerUp[];
+  mouseX: number;
+  mouseY: number;
+  stars: Star[];
+  nextMeteorId: number;
+  nextWaveId: number;
+  nextPowerUpId: number;
+  spawnTimer: number; // ms since the last meteor batch
+  spawnInterval: number; // ms between meteor batches
+  powerUpTimer: number; // ms since the last power-up roll
+  gameOver: boolean;
+  suiPulse: number;
+  combo: number;
+  comboTimer: number; // ms left to extend the combo
+  // Hold-to-charge state
+  chargeTime: number | null; // ms the fire button has been held, null when idle
+  chargeProgress: number; // 0–1 visual charge indicator
+  // Phase system
+  levelIndex: number; // index into CAMPAIGN
+  levelStartScore: number; // score when this phase began; its gates count from here
+  endless: EndlessState | null; // set once an endless run clears the campaign
+  boss: Boss | null;
+  bossDefeated: boolean;
+  bossProjectiles: BossProjectile[];
+  time: number; // simulated ms since the run started
+  stats: RunStats;
+  rng: Rng; // gameplay rolls: spawns, power-ups, boss aim
+}
+
+/** Input sampled by the host once per simulation step. */
+export interface StepInput {
+  aimX: number;
+  aimY: number;
+  pressed: boolean; // fire button went down since the previous step
+  released: boolean; // fire button went up since the previous step
+  strong: boolean; // strong-wave shortcut pressed (keyboard / gamepad), no charge needed
+}
+
+export type RunOutcome = "gameover" | "victory";
+
+/** Things that happened during a step, for the host to turn into audio / UI. */
+export type GameEvent =
+  | { type: "waveFired"; strong: boolean }
+  | { type: "meteorKilled"; coin: CoinType; combo: number; x: number; y: number } // combo including this kill
+  | { type: "meteorDamaged"; coin: CoinType; blocked: boolean; x: number; y: number } // blocked = shield deflected a simple wave
+  | { type: "meteorShielded"; coin: CoinType; x: number; y: number } // the shield power-up stopped it short of SUI
+  // Meteors, boss bullets and lasers alike; hp after the hit, color of what hit
+  | { type: "suiHit"; damage: number; hp: number; from: "meteor" | "boss"; x: number; y: number; color: string }
+  | { type: "suiHealed"; hp: number } // heal power-up, on a kill
+  | { type: "powerUpCollected"; powerUp: PowerUpType }
+  | { type: "phaseChanged"; level: number } // index into CAMPAIGN
+  | { type: "bossSpawned"; boss: BossType }
+  | { type: "bossHit"; boss: BossType; damage: number; x: number; y: number }
+  | { type: "bossDefeated"; boss: BossType; x: number; y: number }
+  | { type: "bossStage"; boss: BossType; stage: number; enraged: boolean }
+  | { type: "endlessLevel"; level: number }
+  | { type: "runEnded"; outcome: RunOutcome; score: number };
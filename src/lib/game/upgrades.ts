@@ -0,0 +1,108 @@
+import { STRONG_WAVE_COST } from "./constants";
+
+// ─── Permanent Upgrades ───────────────────────────────────────────────────────
+// Bought between runs with banked SUI (see lib/shop.ts). A run starts with the
+// player's upgrade levels as its loadout, and the simulation reads every
+// upgraded rule through `upgradeValue`, so balance lives in this one table.
+
+export type UpgradeId = "waveRadius" | "strongWaveCost" | "startingHp" | "powerUpDuration" | "startingShield";
+
+/** Bought level of each upgrade, 0 = not bought. */
+export type Loadout = Record<UpgradeId, number>;
+
+export interface UpgradeTier {
+  cost: number; // banked SUI
+  value: number;
+}
+
+// Names and descriptions are in the locale catalogs, under `upgrade.<id>.*`
+export interface UpgradeDefinition {
+  icon: string;
+  base: number; // value with nothing bought
+  tiers: UpgradeTier[]; // tiers[n] is what buying level n + 1 costs and sets
+  format: (value: number) => string;
+}
+
+export const UPGRADES: Record<UpgradeId, UpgradeDefinition> = {
+  waveRadius: {
+    icon: "🌊",
+    base: 200,
+    tiers: [
+      { cost: 400, value: 225 },
+      { cost: 1200, value: 250 },
+      { cost: 3000, value: 280 },
+    ],
+    format: v => `${v}px`,
+  },
+  strongWaveCost: {
+    icon: "💸",
+    base: STRONG_WAVE_COST,
+    tiers: [
+      { cost: 500, value: 26 },
+      { cost: 1500, value: 22 },
+      { cost: 3500, value: 18 },
+    ],
+    format: v => `${v} SUI`,
+  },
+  startingHp: {
+    icon: "❤️",
+    base: 100,
+    tiers: [
+      { cost: 600, value: 110 },
+      { cost: 1800, value: 125 },
+      { cost: 4000, value: 150 },
+    ],
+    format: v => `${v} HP`,
+  },
+  powerUpDuration: {
+    icon: "⏳",
+    base: 10000,
+    tiers: [
+      { cost: 400, value: 12000 },
+      { cost: 1200, value: 14000 },
+      { cost: 3000, value: 17000 },
+    ],
+    format: v => `${v / 1000}s`,
+  },
+  startingShield: {
+    icon: "🛡️",
+    base: 0,
+    tiers: [
+      { cost: 800, value: 5000 },
+      { cost: 2500, value: 10000 },
+    ],
+    format: v => (v > 0 ? `${v / 1000}s` : "—"),
+  },
+};
+
+export const UPGRADE_IDS = Object.keys(UPGRADES) as UpgradeId[];
+
+export const NO_UPGRADES: Loadout = Object.fromEntries(UPGRADE_IDS.map(id => [id, 0])) as Loadout;
+
+export function maxUpgradeLevel(id: UpgradeId): number {
+  return UPGRADES[id].tiers.length;
+}
+
+/** The rule value an upgrade sets at the loadout's level. */
+export function upgradeValue(loadout: Loadout, id: UpgradeId): number {
+  const level = loadout[id];
+  return level > 0 ? UPGRADES[id].tiers[level - 1].value : UPGRADES[id].base;
+}
+
+/** Nothing bought: the only loadout the global leaderboard ranks. */
+export function isStockLoadout(loadout: Loadout): boolean {
+  return UPGRADE_IDS.every(id => loadout[id] === 0);
+}
+
+/** Validates untrusted loadouts (replays): every upgrade, each at a level it has. */
+export function isLoadout(value: unknown): value is Loadout {
+  if (!value || typeof value !== "object") return false;
+  const loadout = value as Record<string, unknown>;
+  return (
+    Object.keys(loadout).length === UPGRADE_IDS.length &&
+    UPGRADE_IDS.every(id => {
+      const level = loadout[id];
+      return typeof level === "number" && Number.isInteger(level) && level >= 0 && level <= maxUpgradeLevel(id);
+    })
+  );
+}
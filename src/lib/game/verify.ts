@@ -0,0 +1,88 @@
+import { SIM_VERSION, TICK_RATE } from "./constants";
+import { advancePlayback, createPlayback, isPlaybackDone, type Replay } from "./replay";
+import type { GameMode, RunStats } from "./types";
+import { isStockLoadout } from "./upgrades";
+
+// ─── Replay Verification ──────────────────────────────────────────────────────
+// A submitted score is only trusted if re-running its seed and input log
+// through the simulation lands on exactly that score. Runs on the server.
+
+// Longest runs we are willing to re-simulate: 20 minutes of campaign, an hour
+// of endless, which has no last phase to end it. Checked before anything is
+// simulated, so an oversized log never reaches a worker (see verifyPool.ts).
+export const MAX_RUN_TICKS = TICK_RATE * 60 * 20;
+export const MAX_ENDLESS_RUN_TICKS = TICK_RATE * 60 * 60;
+
+export function maxRunTicks(mode: GameMode): number {
+  return mode === "endless" ? MAX_ENDLESS_RUN_TICKS : MAX_RUN_TICKS;
+}
+
+export type VerifyResult =
+  | { ok: true; score: number; stats: RunStats }
+  | { ok: false; reason: string };
+
+function reject(reason: string): VerifyResult {
+  return { ok: false, reason };
+}
+
+/**
+ * Whether the global leaderboard takes runs like this one at all. It ranks
+ * like against like: bought upgrades would put runs on an uneven footing
+ * (and the server can't know they were paid for), and a run started from a
+ * later phase skips part of the campaign, so ranked runs are stock, full runs.
+ * They must also fit the length the server re-simulates.
+ */
+export function isRankedRun(replay: Replay): boolean {
+  return isStockLoadout(replay.loadout) && replay.startLevel === 0 && !isTooLongToRank(replay);
+}
+
+/** Past the length the server re-simulates for its mode. */
+export function isTooLongToRank(replay: Replay): boolean {
+  return replay.ticks > maxRunTicks(replay.mode);
+}
+
+// Cheap structural checks before spending CPU on the re-simulation
+function checkLog(replay: Replay): string | null {
+  if (replay.version !== SIM_VERSION) return "replay was recorded with another game version";
+  if (!isStockLoadout(replay.loadout)) return "ranked runs can't use upgrades";
+  if (replay.startLevel !== 0) return "ranked runs start from the first phase";
+  if (!Number.isSafeInteger(replay.score) || replay.score < 0) return "score must be a non-negative integer";
+  if (!Number.isSafeInteger(replay.ticks) || replay.ticks <= 0) return "run has no ticks";
+  if (isTooLongToRank(replay)) return "run is too long";
+
+  let prevTick = -1;
+  for (const [tick] of replay.frames) {
+    if (!Number.isInteger(tick) || tick <= prevTick || tick >= replay.ticks) return "input log is out of order";
+    prevTick = tick;
+  }
+  prevTick = 0;
+  for (const tick of replay.pauses) {
+    if (!Number.isInteger(tick) || tick < prevTick || tick > replay.ticks) return "pause log is out of order";
+    prevTick = tick;
+  }
+  return null;
+}
+
+/**
+ * Re-simulates `replay` from its seed and accepts it only if the run ends on
+ * its last recorded tick with exactly the claimed score.
+ */
+export function verifyReplay(replay: Replay): VerifyResult {
+  const logError = checkLog(replay);
+  if (logError) return reject(logError);
+
+  const playback = createPlayback(replay);
+  let endedScore: number | null = null;
+  while (!isPlaybackDone(playback)) {
+    for (const event of advancePlayback(playback)) {
+      if (event.type !== "runEnded") continue;
+      if (playback.tick !== replay.ticks) return reject("input log continues after the run ended");
+      endedScore = event.score;
+    }
+  }
+
+  if (endedScore === null) return reject("run did not end");
+  if (endedScore !== replay.score) return reject("score does not reproduce");
+
+  return { ok: true, score: endedScore, stats: playback.state.stats };
+}
@@ -0,0 +1,54 @@
+import { Worker } from "node:worker_threads";
+import type { Replay } from "./replay";
+import type { VerifyResult } from "./verify";
+
+// ─── Off-Thread Verification ──────────────────────────────────────────────────
+// Re-simulating a long run takes seconds of CPU, so the server never does it
+// on its request thread. Each replay gets its own worker, killed once it runs
+// past its time budget, and only a few run at once so submissions can't pile
+// up on the CPU. Server only.
+
+// Verifications running at the same time, across all clients
+export const MAX_CONCURRENT_VERIFICATIONS = 2;
+
+// Wall-clock time one verification may take before its worker is killed;
+// room for the longest endless run the server accepts
+export const VERIFY_BUDGET_MS = 120_000;
+
+// Heap a worker may grow to; a replay that needs more is killed too
+const WORKER_HEAP_MB = 128;
+
+export type VerificationOutcome =
+  | { status: "done"; result: VerifyResult }
+  | { status: "busy" } // every slot is taken: try again later
+  | { status: "timeout" } // ran past the budget
+  | { status: "failed" }; // the worker crashed
+
+let running = 0;
+
+/** Verifies `replay` in a worker, unless MAX_CONCURRENT_VERIFICATIONS are already running. */
+export function verifyOffThread(replay: Replay, budgetMs = VERIFY_BUDGET_MS): Promise<VerificationOutcome> {
+  if (running >= MAX_CONCURRENT_VERIFICATIONS) return Promise.resolve({ status: "busy" });
+  running++;
+
+  return new Promise<VerificationOutcome>(resolve => {
+    const worker = new Worker(new URL("./verifyWorker.ts", import.meta.url), {
+      workerData: replay,
+      resourceLimits: { maxOldGenerationSizeMb: WORKER_HEAP_MB },
+    });
+    let settled = false;
+    const settle = (outcome: VerificationOutcome) => {
+      if (settled) return;
+      settled = true;
+      running--;
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(outcome);
+    };
+    const timer = setTimeout(() => settle({ status: "timeout" }), budgetMs);
+
+    worker.once("message", (result: VerifyResult) => settle({ status: "done", result }));
+    worker.once("error", () => settle({ status: "failed" }));
+    worker.once("exit", () => settle({ status: "failed" }));
+  });
+}
@@ -0,0 +1,6 @@
+import { parentPort, workerData } from "node:worker_threads";
+import type { Replay } from "./replay";
+import { verifyReplay } from "./verify";
+
+// Worker entry for verifyPool.ts: re-simulates one replay and posts the result
+parentPort?.postMessage(verifyReplay(workerData as Replay));
@@ -0,0 +1,235 @@
+import type { ptBR } from "./pt-BR";
+
+// ─── English ──────────────────────────────────────────────────────────────────
+
+export const en: Record<keyof typeof ptBR, string> = {
+  // Shared
+  "common.back": "✔ BACK",
+  "language.label": "Language",
+
+  // Login screen
+  "login.logoAlt": "DOGSUI-DEFENDER Logo",
+  "login.prompt": "Enter your name to start",
+  "login.placeholder": "Your player name",
+  "login.enter": "🎮 ENTER",
+  "login.topPlayers": "🏆 TOP PLAYERS",
+
+  // Start screen
+  "start.tagline": "Protect the SUI coin from crypto meteors!",
+  "start.prototype": "🚧 PROJECT UNDER DEVELOPMENT — PROTOTYPE 🚧",
+  "start.play": "🚀 PLAY",
+  "start.daily": "📅 DAILY CHALLENGE",
+  "start.endless": "♾️ ENDLESS MODE",
+  "start.upgradesOn": "🛒 UPGRADES ON · local ranking only",
+  "start.ranked": "🏆 RANKED · upgrades off",
+  "start.levels": "🗺️ PHASES ({unlocked}/{total})",
+  "start.controls": "🎮 CONTROLS",
+  "start.stats": "📊 STATS",
+  "start.trophies": "🏆 TROPHIES ({earned}/{total})",
+  "start.shop": "🛒 SHOP (${wallet})",
+  "start.audio": "AUDIO",
+  "start.lastReplay": "🎬 LAST REPLAY",
+  "start.bestReplay": "🏅 BEST REPLAY (${score})",
+  "start.importReplay": "📂 IMPORT REPLAY",
+  "start.pendingOne": "📡 1 run waiting for a connection to join the ranking",
+  "start.pendingMany": "📡 {count} runs waiting for a connection to join the ranking",
+  "start.promoTitle": "🚀 SUIMEMECOIN — COMING SOON!",
+  "start.promoFollow": "Follow the profile on X so you don't miss the launch →",
+
+  // How to play
+  "howTo.title": "🎮 HOW TO PLAY",
+  "howTo.click": "Click anywhere",
+  "howTo.clickAction": "Wave attack",
+  "howTo.hold": "Hold {hold}s",
+  "howTo.holdAction": "Strong wave (covers entire screen!)",
+  "howTo.cost": "(-{cost} SUI)",
+  "howTo.aim": "Aim",
+  "howTo.tapHold": "Tap / hold",
+  "howTo.strong": "Strong wave",
+  "howTo.gamepad": "Gamepad",
+  "howTo.gamepadAction": "Stick aims · Trigger charges",
+  "howTo.speed": "Speed",
+  "howTo.speedAction": "Faster waves, strong wave charges in 1s (pickups extend the timer)",
+  "howTo.tap": "Tap",
+  "howTo.wave": "Wave",
+  "howTo.longPress": "Long-press",
+  "howTo.charge": "Charge",
+  "howTo.twoFinger": "Two-finger tap",
+  "howTo.pause": "Pause",
+  "howTo.mute": "Mute",
+  "howTo.hit": "Each meteor hit =",
+  "howTo.hitDamage": "-{share}% HP",
+  "howTo.patterns": "Coins weave, spiral, zig-zag, home in or wind up and lunge — read the pattern!",
+  "howTo.armored": "Armored",
+  "howTo.armoredAction": "take 3 hits",
+  "howTo.shielded": "Shielded",
+  "howTo.shieldedAction": "only break to strong waves",
+  "howTo.cracked": "Cracked",
+  "howTo.crackedAction": "split into fragments",
+  "howTo.phases": "👑 {count} phases, each guarded by a boss — clear one to unlock it in PHASES",
+  "howTo.endless": "♾️ Endless: after the campaign, levels keep speeding up and bosses return stronger",
+  "howTo.balance": "Starting balance:",
+  "howTo.balanceValue": "{score} SUI",
+
+  // Leaderboard
+  "ranking.title": "🏆 RANKING",
+  "ranking.campaign": "CAMPAIGN",
+  "ranking.endless": "♾️ ENDLESS",
+  "ranking.empty": "No scores yet",
+
+  // Replays
+  "replay.oldVersion": "Replay from an older version of the game — it can't be played.",
+  "replay.invalid": "Invalid replay file.",
+  "replay.nextFrame": "Next frame",
+  "replay.export": "Export",
+
+  // In-game buttons
+  "game.pause": "⏸ PAUSE",
+  "game.resume": "▶ RESUME",
+  "game.soundOn": "Sound on",
+  "game.soundOff": "Sound off",
+
+  // End of run
+  "result.finalScore": "Final Score: ${score} SUI",
+  "result.banked": "💰 +{amount} SUI banked",
+  "result.tooLongToRank": "⚠ Too long for the global ranking — kept on the local ranking",
+  "result.playAgain": "🔄 PLAY AGAIN",
+  "result.tryEndless": "♾️ TRY ENDLESS MODE",
+  "result.watchReplay": "🎬 WATCH REPLAY",
+  "result.export": "💾 EXPORT",
+  "victory.title": "🏆 VICTORY! 🏆",
+  "victory.subtitle": "All Phases Complete!",
+  "victory.boss": "🎉 You defeated the DOGE BOSS! 🎉",
+  "victory.safe": "SUI is safe from the meme invasion!",
+
+  // Canvas: HUD and overlays
+  "hud.replay": "🎬 REPLAY — {name}",
+  "hud.best": "BEST: ${score}",
+  "hud.boss": "⚠ BOSS: {stage} ⚠",
+  "hud.endless": "♾ ENDLESS · LEVEL {level}",
+  "hud.combo": "{combo}x COMBO!",
+  "hud.hp": "HP {hp}/{max}",
+  "hud.legend": "Click anywhere: Wave (-{cost} SUI)  |  Hold {hold}s: Strong Wave (-{strongCost} SUI)",
+  "hud.seed": "SEED {seed}",
+  "hud.stage": "⚠ {stage} ⚠",
+  "hud.stageEnraged": "⚠ {stage} · ENRAGED ⚠",
+  "hud.levelUp": "♾ LEVEL {level}",
+  "hud.achievement": "🏆 ACHIEVEMENT UNLOCKED",
+  "pause.title": "PAUSED",
+  "pause.hint": "Press {key}, tap with two fingers or click Pause to resume",
+  "gameOver.title": "GAME OVER",
+  "gameOver.endless": "♾ Endless level {level}",
+  "boss.hp": "{hp} / {max} HP",
+  "boss.damage": "Simple: -10 HP  |  Strong: -25 HP",
+  "level.label": "PHASE {numeral}",
+
+  // Boss, stage and phase names (keyed from the registries in src/lib/game)
+  "boss.PEPE_KING.name": "👑 PEPE KING",
+  "boss.PEPE_KING.stage.0": "ROYAL COURT",
+  "boss.PEPE_KING.stage.1": "ROYAL DECREE",
+  "boss.PEPE_KING.stage.2": "FROG FURY",
+  "boss.BONK_BOSS.name": "🔥 BONK BOSS",
+  "boss.BONK_BOSS.stage.0": "BONK!",
+  "boss.BONK_BOSS.stage.1": "DOG PILE",
+  "boss.BONK_BOSS.stage.2": "BONK FRENZY",
+  "level.2.title": "MEME WARS",
+  "level.3.title": "WHALE WATCH",
+  "level.4.title": "DEGEN STORM",
+  "level.5.title": "FINAL PUMP",
+
+  // Controls screen
+  "controls.title": "🎮 CONTROLS",
+  "controls.hint": "Profile: {player} — click a binding and press the new key / button",
+  "controls.key1": "KEY 1",
+  "controls.key2": "KEY 2",
+  "controls.pad": "GAMEPAD",
+  "controls.leftStick": "left stick",
+  "controls.reset": "↺ DEFAULTS",
+  "action.up": "Aim ↑",
+  "action.down": "Aim ↓",
+  "action.left": "Aim ←",
+  "action.right": "Aim →",
+  "action.fire": "Fire / charge",
+  "action.strong": "Strong wave",
+  "action.pause": "Pause",
+  "action.mute": "Mute",
+  "key.space": "Space",
+  "key.shiftLeft": "L Shift",
+  "key.shiftRight": "R Shift",
+
+  // Level select
+  "levels.title": "🗺️ PHASES",
+  "levels.hint": "Reach a phase in the campaign to start from it — runs that skip phase I only go on the local ranking",
+
+  // Stats screen
+  "stats.title": "📊 STATS",
+  "stats.runs": "runs",
+  "stats.playTime": "play time",
+  "stats.hoursMinutes": "{hours}h {minutes}min",
+  "stats.minutes": "{minutes}min",
+  "stats.bestScore": "best score",
+  "stats.accuracy": "accuracy",
+  "stats.bestCombo": "best combo",
+  "stats.bossKills": "bosses defeated",
+  "stats.wavesFired": "waves fired",
+  "stats.empty": "No runs yet — play one to see your stats",
+  "stats.killsByCoin": "KILLS BY COIN · {total}",
+  "stats.scoreHistory": "SCORE · LAST {count} RUNS",
+  "stats.accuracyHistory": "ACCURACY",
+  "stats.max": "max {value}",
+  "stats.campaign": "● campaign",
+  "stats.endless": "● endless",
+
+  // Trophy gallery
+  "trophies.title": "🏆 TROPHIES",
+  "trophies.count": "{earned} of {total} achievements",
+  "achievement.whaleHunter.title": "Whale Hunter",
+  "achievement.whaleHunter.description": "Destroy 100 BTC in total",
+  "achievement.memeSlayer.title": "Meme Slayer",
+  "achievement.memeSlayer.description": "Destroy 250 meme coins in total",
+  "achievement.fullWallet.title": "Full Wallet",
+  "achievement.fullWallet.description": "Destroy every kind of coin in a single run",
+  "achievement.combo10.title": "Combo x10",
+  "achievement.combo10.description": "Reach a 10 combo",
+  "achievement.combo25.title": "Combo x25",
+  "achievement.combo25.description": "Reach a 25 combo",
+  "achievement.combo50.title": "Combo x50",
+  "achievement.combo50.description": "Reach a 50 combo",
+  "achievement.untouchable.title": "Untouchable",
+  "achievement.untouchable.description": "Defeat a boss without SUI taking damage",
+  "achievement.regicide.title": "Regicide",
+  "achievement.regicide.description": "Defeat the PEPE KING",
+  "achievement.bonkBreaker.title": "Bonk Breaker",
+  "achievement.bonkBreaker.description": "Defeat the BONK BOSS",
+  "achievement.purist.title": "Purist",
+  "achievement.purist.description": "Win the campaign without strong waves",
+  "achievement.hangingByAThread.title": "Hanging by a Thread",
+  "achievement.hangingByAThread.description": "Defeat a boss or clear a phase below 10% HP",
+  "achievement.fullyCharged.title": "Fully Charged",
+  "achievement.fullyCharged.description": "Pick up all four power-ups in a single run",
+
+  // Upgrade shop
+  "shop.title": "🛒 SHOP",
+  "shop.bankRate": "{rate}% of each run's final SUI goes into your wallet",
+  "shop.unranked": "⚠ Runs with upgrades only go on the local ranking — switch them off on the start screen to play ranked",
+  "shop.maxLevel": "MAX LEVEL ({level})",
+  "shop.buy": "BUY · {cost} SUI",
+  "upgrade.waveRadius.name": "Wide Wave",
+  "upgrade.waveRadius.description": "Maximum radius of the simple wave",
+  "upgrade.strongWaveCost.name": "Thrifty Wave",
+  "upgrade.strongWaveCost.description": "Cost of the strong wave",
+  "upgrade.startingHp.name": "Reinforced Hull",
+  "upgrade.startingHp.description": "SUI's starting and maximum HP",
+  "upgrade.powerUpDuration.name": "Lasting Power-ups",
+  "upgrade.powerUpDuration.description": "Duration of each power-up",
+  "upgrade.startingShield.name": "Starting Shield",
+  "upgrade.startingShield.description": "Start each run with an active shield",
+
+  // Audio screen
+  "audio.title": "🔊 AUDIO",
+  "audio.master": "🔊 Master",
+  "audio.music": "🎵 Music",
+  "audio.sfx": "💥 Effects",
+  "audio.on": "🔊 SOUND ON",
+  "audio.off": "🔇 SOUND OFF",
+};
@@ -0,0 +1,98 @@
+import { en } from "./en";
+import { ptBR } from "./pt-BR";
+
+// ─── Internationalisation ─────────────────────────────────────────────────────
+// Every user-facing string lives in a per-locale catalog, keyed by
+// `MessageKey`. A `Translator` binds one locale: `t` looks strings up and
+// fills their `{param}` placeholders, and numbers and dates are formatted
+// with that locale's Intl conventions. React screens receive the translator
+// as a prop; the canvas renderer reads the current one through a ref.
+// The choice is saved in localStorage; first visits follow the browser.
+
+export type Locale = "pt-BR" | "en";
+
+export const LOCALES: Locale[] = ["pt-BR", "en"];
+
+// Each language in its own words, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  "pt-BR": "Português",
+  en: "English",
+};
+
+// Rendered on the server and before the saved choice is read
+export const DEFAULT_LOCALE: Locale = "pt-BR";
+
+export type MessageKey = keyof typeof ptBR;
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { "pt-BR": ptBR, en };
+
+const LOCALE_KEY = "dogSuiDefenderLocale";
+
+export type MessageParams = Record<string, string | number>;
+
+export interface Translator {
+  locale: Locale;
+  /** The catalog string for `key` with `{param}`s filled; number params are formatted. */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  number: (value: number) => string;
+  date: (iso: string) => string;
+}
+
+export type Translate = Translator["t"];
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/** The browser's preferred language we have a catalog for; anything else gets English. */
+export function detectLocale(): Locale {
+  if (typeof navigator === "undefined") return DEFAULT_LOCALE;
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split("-")[0];
+    if (language === "pt") return "pt-BR";
+    if (language === "en") return "en";
+  }
+  return "en";
+}
+
+export function loadLocale(): Locale {
+  if (typeof window === "undefined") return DEFAULT_LOCALE;
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    return isLocale(saved) ? saved : detectLocale();
+  } catch {
+    return detectLocale();
+  }
+}
+
+export function saveLocale(locale: Locale): void {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch {
+    // ignore
+  }
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const catalog = CATALOGS[locale];
+  // Built once per locale: the HUD formats numbers every frame
+  const numbers = new Intl.NumberFormat(locale);
+  const dates = new Intl.DateTimeFormat(locale);
+  const number = (value: number) => numbers.format(value);
+
+  return {
+    locale,
+    t: (key, params) => {
+      const message = catalog[key];
+      if (!params) return message;
+      return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = params[name];
+        if (value === undefined) return placeholder;
+        return typeof value === "number" ? number(value) : value;
+      });
+    },
+    number,
+    date: iso => dates.format(new Date(iso)),
+  };
+}
@@ -0,0 +1,236 @@
+// ─── Português (Brasil) ───────────────────────────────────────────────────────
+// The reference catalog: its keys are the `MessageKey`s every other locale
+// must provide. `{name}` placeholders are filled by `t`; a `$` before one is
+// literal (the score currency sign).
+
+export const ptBR = {
+  // Shared
+  "common.back": "✔ VOLTAR",
+  "language.label": "Idioma",
+
+  // Login screen
+  "login.logoAlt": "Logo do DOGSUI-DEFENDER",
+  "login.prompt": "Digite seu nome para começar",
+  "login.placeholder": "Seu nome de jogador",
+  "login.enter": "🎮 ENTRAR",
+  "login.topPlayers": "🏆 MELHORES JOGADORES",
+
+  // Start screen
+  "start.tagline": "Proteja a moeda SUI dos meteoros cripto!",
+  "start.prototype": "🚧 PROJETO EM DESENVOLVIMENTO — PROTÓTIPO 🚧",
+  "start.play": "🚀 JOGAR",
+  "start.daily": "📅 DESAFIO DIÁRIO",
+  "start.endless": "♾️ MODO INFINITO",
+  "start.upgradesOn": "🛒 MELHORIAS LIGADAS · só ranking local",
+  "start.ranked": "🏆 RANQUEADA · melhorias desligadas",
+  "start.levels": "🗺️ FASES ({unlocked}/{total})",
+  "start.controls": "🎮 CONTROLES",
+  "start.stats": "📊 STATS",
+  "start.trophies": "🏆 TROFÉUS ({earned}/{total})",
+  "start.shop": "🛒 LOJA (${wallet})",
+  "start.audio": "ÁUDIO",
+  "start.lastReplay": "🎬 ÚLTIMO REPLAY",
+  "start.bestReplay": "🏅 MELHOR REPLAY (${score})",
+  "start.importReplay": "📂 IMPORTAR REPLAY",
+  "start.pendingOne": "📡 1 partida aguardando conexão para entrar no ranking",
+  "start.pendingMany": "📡 {count} partidas aguardando conexão para entrar no ranking",
+  "start.promoTitle": "🚀 SUIMEMECOIN — EM BREVE!",
+  "start.promoFollow": "Siga o perfil no X para não perder o lançamento →",
+
+  // How to play
+  "howTo.title": "🎮 COMO JOGAR",
+  "howTo.click": "Clique em qualquer lugar",
+  "howTo.clickAction": "Onda de ataque",
+  "howTo.hold": "Segure {hold}s",
+  "howTo.holdAction": "Onda forte (cobre a tela inteira!)",
+  "howTo.cost": "(-{cost} SUI)",
+  "howTo.aim": "Mira",
+  "howTo.tapHold": "Toque / segure",
+  "howTo.strong": "Onda forte",
+  "howTo.gamepad": "Controle",
+  "howTo.gamepadAction": "Analógico mira · Gatilho carrega",
+  "howTo.speed": "Velocidade",
+  "howTo.speedAction": "Ondas mais rápidas, onda forte carrega em 1s (novos power-ups estendem o tempo)",
+  "howTo.tap": "Toque",
+  "howTo.wave": "Onda",
+  "howTo.longPress": "Toque longo",
+  "howTo.charge": "Carrega",
+  "howTo.twoFinger": "Toque com dois dedos",
+  "howTo.pause": "Pausa",
+  "howTo.mute": "Silenciar",
+  "howTo.hit": "Cada meteoro que acerta =",
+  "howTo.hitDamage": "-{share}% HP",
+  "howTo.patterns": "As moedas ondulam, espiralam, ziguezagueiam, perseguem ou preparam o bote — leia o padrão!",
+  "howTo.armored": "Blindadas",
+  "howTo.armoredAction": "aguentam 3 acertos",
+  "howTo.shielded": "Com escudo",
+  "howTo.shieldedAction": "só quebram com ondas fortes",
+  "howTo.cracked": "Rachadas",
+  "howTo.crackedAction": "se partem em fragmentos",
+  "howTo.phases": "👑 {count} fases, cada uma guardada por um boss — complete uma para desbloqueá-la em FASES",
+  "howTo.endless": "♾️ Infinito: depois da campanha, os níveis continuam acelerando e os bosses voltam mais fortes",
+  "howTo.balance": "Saldo inicial:",
+  "howTo.balanceValue": "{score} SUI",
+
+  // Leaderboard
+  "ranking.title": "🏆 RANKING",
+  "ranking.campaign": "CAMPANHA",
+  "ranking.endless": "♾️ INFINITO",
+  "ranking.empty": "Nenhuma pontuação ainda",
+
+  // Replays
+  "replay.oldVersion": "Replay de uma versão antiga do jogo — não é possível reproduzir.",
+  "replay.invalid": "Arquivo de replay inválido.",
+  "replay.nextFrame": "Próximo quadro",
+  "replay.export": "Exportar",
+
+  // In-game buttons
+  "game.pause": "⏸ PAUSAR",
+  "game.resume": "▶ CONTINUAR",
+  "game.soundOn": "Ligar som",
+  "game.soundOff": "Desligar som",
+
+  // End of run
+  "result.finalScore": "Pontuação final: ${score} SUI",
+  "result.banked": "💰 +{amount} SUI na carteira",
+  "result.tooLongToRank": "⚠ Longa demais para o ranking global — ficou no ranking local",
+  "result.playAgain": "🔄 JOGAR DE NOVO",
+  "result.tryEndless": "♾️ TENTE O MODO INFINITO",
+  "result.watchReplay": "🎬 VER REPLAY",
+  "result.export": "💾 EXPORTAR",
+  "victory.title": "🏆 VITÓRIA! 🏆",
+  "victory.subtitle": "Todas as fases completas!",
+  "victory.boss": "🎉 Você derrotou o DOGE BOSS! 🎉",
+  "victory.safe": "O SUI está a salvo da invasão meme!",
+
+  // Canvas: HUD and overlays
+  "hud.replay": "🎬 REPLAY — {name}",
+  "hud.best": "MELHOR: ${score}",
+  "hud.boss": "⚠ BOSS: {stage} ⚠",
+  "hud.endless": "♾ INFINITO · NÍVEL {level}",
+  "hud.combo": "{combo}x COMBO!",
+  "hud.hp": "HP {hp}/{max}",
+  "hud.legend": "Clique em qualquer lugar: Onda (-{cost} SUI)  |  Segure {hold}s: Onda Forte (-{strongCost} SUI)",
+  "hud.seed": "SEED {seed}",
+  "hud.stage": "⚠ {stage} ⚠",
+  "hud.stageEnraged": "⚠ {stage} · FURIOSO ⚠",
+  "hud.levelUp": "♾ NÍVEL {level}",
+  "hud.achievement": "🏆 CONQUISTA DESBLOQUEADA",
+  "pause.title": "PAUSADO",
+  "pause.hint": "Pressione {key}, toque com dois dedos ou clique em Pausar para continuar",
+  "gameOver.title": "FIM DE JOGO",
+  "gameOver.endless": "♾ Nível infinito {level}",
+  "boss.hp": "{hp} / {max} HP",
+  "boss.damage": "Simples: -10 HP  |  Forte: -25 HP",
+  "level.label": "FASE {numeral}",
+
+  // Boss, stage and phase names (keyed from the registries in src/lib/game)
+  "boss.PEPE_KING.name": "👑 REI PEPE",
+  "boss.PEPE_KING.stage.0": "CORTE REAL",
+  "boss.PEPE_KING.stage.1": "DECRETO REAL",
+  "boss.PEPE_KING.stage.2": "FÚRIA DO SAPO",
+  "boss.BONK_BOSS.name": "🔥 CHEFÃO BONK",
+  "boss.BONK_BOSS.stage.0": "BONK!",
+  "boss.BONK_BOSS.stage.1": "MONTOEIRA CANINA",
+  "boss.BONK_BOSS.stage.2": "FRENESI BONK",
+  "level.2.title": "GUERRA DOS MEMES",
+  "level.3.title": "DE OLHO NAS BALEIAS",
+  "level.4.title": "TEMPESTADE DEGEN",
+  "level.5.title": "PUMP FINAL",
+
+  // Controls screen
+  "controls.title": "🎮 CONTROLES",
+  "controls.hint": "Perfil: {player} — clique num atalho e pressione a nova tecla / botão",
+  "controls.key1": "TECLA 1",
+  "controls.key2": "TECLA 2",
+  "controls.pad": "CONTROLE",
+  "controls.leftStick": "analógico esq.",
+  "controls.reset": "↺ PADRÃO",
+  "action.up": "Mira ↑",
+  "action.down": "Mira ↓",
+  "action.left": "Mira ←",
+  "action.right": "Mira →",
+  "action.fire": "Atirar / carregar",
+  "action.strong": "Onda forte",
+  "action.pause": "Pausar",
+  "action.mute": "Silenciar",
+  "key.space": "Espaço",
+  "key.shiftLeft": "Shift E",
+  "key.shiftRight": "Shift D",
+
+  // Level select
+  "levels.title": "🗺️ FASES",
+  "levels.hint": "Chegue a uma fase na campanha para poder começar por ela — partidas que não começam na fase I ficam só no ranking local",
+
+  // Stats screen
+  "stats.title": "📊 ESTATÍSTICAS",
+  "stats.runs": "partidas",
+  "stats.playTime": "tempo de jogo",
+  "stats.hoursMinutes": "{hours} h {minutes} min",
+  "stats.minutes": "{minutes} min",
+  "stats.bestScore": "melhor score",
+  "stats.accuracy": "precisão",
+  "stats.bestCombo": "melhor combo",
+  "stats.bossKills": "bosses derrotados",
+  "stats.wavesFired": "ondas disparadas",
+  "stats.empty": "Nenhuma partida ainda — jogue uma para ver suas estatísticas",
+  "stats.killsByCoin": "ABATES POR MOEDA · {total}",
+  "stats.scoreHistory": "SCORE · ÚLTIMAS {count} PARTIDAS",
+  "stats.accuracyHistory": "PRECISÃO",
+  "stats.max": "máx {value}",
+  "stats.campaign": "● campanha",
+  "stats.endless": "● infinito",
+
+  // Trophy gallery
+  "trophies.title": "🏆 TROFÉUS",
+  "trophies.count": "{earned} de {total} conquistas",
+  "achievement.whaleHunter.title": "Whale Hunter",
+  "achievement.whaleHunter.description": "Destrua 100 BTC no total",
+  "achievement.memeSlayer.title": "Meme Slayer",
+  "achievement.memeSlayer.description": "Destrua 250 meme coins no total",
+  "achievement.fullWallet.title": "Carteira Completa",
+  "achievement.fullWallet.description": "Destrua todas as moedas numa só partida",
+  "achievement.combo10.title": "Combo x10",
+  "achievement.combo10.description": "Chegue a um combo de 10",
+  "achievement.combo25.title": "Combo x25",
+  "achievement.combo25.description": "Chegue a um combo de 25",
+  "achievement.combo50.title": "Combo x50",
+  "achievement.combo50.description": "Chegue a um combo de 50",
+  "achievement.untouchable.title": "Intocável",
+  "achievement.untouchable.description": "Derrote um boss sem o SUI levar dano",
+  "achievement.regicide.title": "Regicida",
+  "achievement.regicide.description": "Derrote o REI PEPE",
+  "achievement.bonkBreaker.title": "Bonk Breaker",
+  "achievement.bonkBreaker.description": "Derrote o CHEFÃO BONK",
+  "achievement.purist.title": "Purista",
+  "achievement.purist.description": "Vença a campanha sem ondas fortes",
+  "achievement.hangingByAThread.title": "Por um Fio",
+  "achievement.hangingByAThread.description": "Derrote um boss ou passe de fase com menos de 10% de HP",
+  "achievement.fullyCharged.title": "Carga Total",
+  "achievement.fullyCharged.description": "Pegue os quatro power-ups numa só partida",
+
+  // Upgrade shop
+  "shop.title": "🛒 LOJA",
+  "shop.bankRate": "{rate}% do SUI final de cada partida vai para a carteira",
+  "shop.unranked": "⚠ Partidas com melhorias ficam só no ranking local — desligue-as na tela inicial para jogar ranqueado",
+  "shop.maxLevel": "NÍVEL MÁX ({level})",
+  "shop.buy": "COMPRAR · {cost} SUI",
+  "upgrade.waveRadius.name": "Onda Ampla",
+  "upgrade.waveRadius.description": "Raio máximo da onda simples",
+  "upgrade.strongWaveCost.name": "Onda Econômica",
+  "upgrade.strongWaveCost.description": "Custo da onda forte",
+  "upgrade.startingHp.name": "Casco Reforçado",
+  "upgrade.startingHp.description": "HP inicial e máximo do SUI",
+  "upgrade.powerUpDuration.name": "Power-ups Duradouros",
+  "upgrade.powerUpDuration.description": "Duração de cada power-up",
+  "upgrade.startingShield.name": "Escudo Inicial",
+  "upgrade.startingShield.description": "Começa a partida com escudo ativo",
+
+  // Audio screen
+  "audio.title": "🔊 ÁUDIO",
+  "audio.master": "🔊 Geral",
+  "audio.music": "🎵 Música",
+  "audio.sfx": "💥 Efeitos",
+  "audio.on": "🔊 SOM LIGADO",
+  "audio.off": "🔇 SOM DESLIGADO",
+};
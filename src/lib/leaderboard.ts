@@ -0,0 +1,72 @@
+import type { Replay } from "./game/replay";
+import type { GameMode } from "./game/types";
+
+// ─── Leaderboard API ──────────────────────────────────────────────────────────
+// Shared between the `/api/leaderboard` route handlers and the game client.
+
+export interface PlayerScore {
+  name: string;
+  score: number;
+  date: string; // ISO date
+}
+
+// Campaign and endless runs are ranked separately
+export interface LeaderboardPage {
+  mode: GameMode;
+  players: PlayerScore[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// The score itself travels inside the replay; the server re-simulates it
+export interface ScoreSubmission {
+  name: string;
+  replay: Replay;
+}
+
+export const LEADERBOARD_API = "/api/leaderboard";
+export const MAX_PAGE_SIZE = 50;
+export const MAX_NAME_LENGTH = 20;
+export const MAX_SUBMISSION_BYTES = 5 * 1024 * 1024;
+
+export const GAME_MODES: GameMode[] = ["campaign", "endless"];
+
+export function isGameMode(value: unknown): value is GameMode {
+  return GAME_MODES.includes(value as GameMode);
+}
+
+/** Top scores from the server, or null when offline / the server is unreachable. */
+export async function fetchLeaderboard(
+  mode: GameMode = "campaign",
+  limit = 10,
+  offset = 0,
+): Promise<LeaderboardPage | null> {
+  try {
+    const res = await fetch(`${LEADERBOARD_API}?mode=${mode}&limit=${limit}&offset=${offset}`);
+    if (!res.ok) return null;
+    return (await res.json()) as LeaderboardPage;
+  } catch {
+    return null;
+  }
+}
+
+// "unreachable": no connection, the server failed or it is rate-limiting us;
+// worth sending again later.
+// "rejected": the server refused the run (e.g. it did not verify); retrying won't help.
+export type SubmitResult = "accepted" | "rejected" | "unreachable";
+
+/** Sends a finished run. */
+export async function submitScore(submission: ScoreSubmission): Promise<SubmitResult> {
+  try {
+    const res = await fetch(LEADERBOARD_API, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(submission),
+    });
+    if (res.ok) return "accepted";
+    return res.status >= 500 || res.status === 429 ? "unreachable" : "rejected";
+  } catch {
+    return "unreachable";
+  }
+}
@@ -0,0 +1,112 @@
+import { COIN_TYPES } from "./game/enemies";
+import type { CoinType, GameMode, RunOutcome, RunStats } from "./game/types";
+
+// ─── Player Profiles ──────────────────────────────────────────────────────────
+// Lifetime totals and a per-run history for each player, saved in
+// localStorage. Everything is folded in from the finished run's `RunStats`,
+// so a profile only ever counts what the simulation counted.
+
+export interface RunRecord {
+  date: string; // ISO timestamp of the run's end
+  mode: GameMode;
+  outcome: RunOutcome;
+  score: number;
+  durationMs: number;
+  kills: number;
+  accuracy: number; // 0–1, shots that touched something
+  bestCombo: number;
+  bossesDefeated: number;
+}
+
+export interface PlayerProfile {
+  runsPlayed: number;
+  playTimeMs: number;
+  bestScore: number;
+  killsByCoin: Record<CoinType, number>;
+  bossKills: number;
+  wavesFired: number;
+  wavesHit: number;
+  bestCombo: number;
+  history: RunRecord[]; // oldest first, the last HISTORY_LIMIT runs
+}
+
+export const HISTORY_LIMIT = 50;
+
+const PROFILE_KEY_PREFIX = "dogSuiDefenderProfile:";
+
+function emptyProfile(): PlayerProfile {
+  return {
+    runsPlayed: 0,
+    playTimeMs: 0,
+    bestScore: 0,
+    killsByCoin: Object.fromEntries(COIN_TYPES.map(type => [type, 0])) as Record<CoinType, number>,
+    bossKills: 0,
+    wavesFired: 0,
+    wavesHit: 0,
+    bestCombo: 0,
+    history: [],
+  };
+}
+
+export function loadProfile(player: string): PlayerProfile {
+  const profile = emptyProfile();
+  if (typeof window === "undefined") return profile;
+  try {
+    const saved = localStorage.getItem(PROFILE_KEY_PREFIX + player);
+    if (!saved) return profile;
+    const parsed = JSON.parse(saved) as Partial<PlayerProfile>;
+    // Coins added since the profile was saved start at zero
+    return { ...profile, ...parsed, killsByCoin: { ...profile.killsByCoin, ...parsed.killsByCoin } };
+  } catch {
+    return profile;
+  }
+}
+
+function saveProfile(player: string, profile: PlayerProfile): void {
+  try {
+    localStorage.setItem(PROFILE_KEY_PREFIX + player, JSON.stringify(profile));
+  } catch {
+    // ignore
+  }
+}
+
+/** Share of shots that hit, 0 when nothing was fired yet. */
+export function accuracy(wavesHit: number, wavesFired: number): number {
+  return wavesFired > 0 ? wavesHit / wavesFired : 0;
+}
+
+export interface FinishedRun {
+  mode: GameMode;
+  outcome: RunOutcome;
+  score: number;
+  durationMs: number;
+  stats: RunStats;
+}
+
+/** Folds a finished run into the player's profile. Returns the updated profile. */
+export function recordRun(player: string, run: FinishedRun): PlayerProfile {
+  const profile = loadProfile(player);
+  const { stats } = run;
+  profile.runsPlayed++;
+  profile.playTimeMs += run.durationMs;
+  profile.bestScore = Math.max(profile.bestScore, run.score);
+  for (const type of COIN_TYPES) profile.killsByCoin[type] += stats.killsByCoin[type];
+  profile.bossKills += stats.bossesDefeated;
+  profile.wavesFired += stats.wavesFired;
+  profile.wavesHit += stats.wavesHit;
+  profile.bestCombo = Math.max(profile.bestCombo, stats.bestCombo);
+  profile.history.push({
+    date: new Date().toISOString(),
+    mode: run.mode,
+    outcome: run.outcome,
+    score: run.score,
+    durationMs: run.durationMs,
+    kills: stats.kills,
+    accuracy: accuracy(stats.wavesHit, stats.wavesFired),
+    bestCombo: stats.bestCombo,
+    bossesDefeated: stats.bossesDefeated,
+  });
+  profile.history = profile.history.slice(-HISTORY_LIMIT);
+  saveProfile(player, profile);
+  return profile;
+}
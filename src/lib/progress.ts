@@ -0,0 +1,29 @@
+import { LAST_LEVEL } from "./game/levels";
+
+// ─── Campaign Progress ────────────────────────────────────────────────────────
+// The furthest campaign phase each player has reached, saved in localStorage.
+// The level select lets them start a run from any phase up to it.
+
+const PROGRESS_KEY_PREFIX = "dogSuiDefenderProgress:";
+
+/** Highest unlocked campaign index (0 = only the first phase). */
+export function loadUnlockedLevel(player: string): number {
+  if (typeof window === "undefined") return 0;
+  try {
+    const saved = parseInt(localStorage.getItem(PROGRESS_KEY_PREFIX + player) || "0", 10);
+    return Number.isFinite(saved) ? Math.min(Math.max(saved, 0), LAST_LEVEL) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/** Records that `player` reached `level`. Returns the new highest unlocked index. */
+export function unlockLevel(player: string, level: number): number {
+  const unlocked = Math.max(loadUnlockedLevel(player), Math.min(level, LAST_LEVEL));
+  try {
+    localStorage.setItem(PROGRESS_KEY_PREFIX + player, String(unlocked));
+  } catch {
+    // ignore
+  }
+  return unlocked;
+}
@@ -0,0 +1,90 @@
+import { submitScore, type ScoreSubmission, type SubmitResult } from "./leaderboard";
+
+// ─── Offline Score Queue ──────────────────────────────────────────────────────
+// Runs that finish without a connection wait in IndexedDB and are sent once
+// the browser is back online. A replay carries everything the server needs to
+// verify it, so a late submission is checked exactly like an immediate one;
+// if a game update bumped SIM_VERSION in between, the server rejects it and it
+// is dropped.
+
+const DB_NAME = "dogSuiDefender";
+const DB_VERSION = 1;
+const STORE = "scoreQueue";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE, { autoIncrement: true });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+// Runs `makeRequest` in one transaction on the queue store and resolves once it commits
+async function withStore<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = makeRequest(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Runs waiting to be sent; 0 when IndexedDB is unavailable. */
+export async function pendingScoreCount(): Promise<number> {
+  try {
+    return await withStore("readonly", store => store.count());
+  } catch {
+    return 0;
+  }
+}
+
+/** Submits a finished run, queueing it when the server can't be reached. */
+export async function sendScore(submission: ScoreSubmission): Promise<SubmitResult> {
+  const result = await submitScore(submission);
+  if (result === "unreachable") {
+    try {
+      await withStore("readwrite", store => store.add(submission));
+    } catch {
+      // ignore — without IndexedDB the run is simply not retried
+    }
+  }
+  return result;
+}
+
+let flushing: Promise<number> | null = null;
+
+async function sendQueued(): Promise<number> {
+  // Both lists come back in key order, and new runs only ever append
+  const [keys, submissions] = await Promise.all([
+    withStore("readonly", store => store.getAllKeys()),
+    withStore("readonly", store => store.getAll() as IDBRequest<ScoreSubmission[]>),
+  ]);
+  let sent = 0;
+  for (let i = 0; i < keys.length; i++) {
+    const result = await submitScore(submissions[i]);
+    if (result === "unreachable") break; // still offline; keep the rest in order
+    await withStore("readwrite", store => store.delete(keys[i]));
+    if (result === "accepted") sent++;
+  }
+  return sent;
+}
+
+/**
+ * Sends every queued run, oldest first, stopping at the first that can't be
+ * delivered. Returns how many were accepted. Concurrent calls share one pass.
+ */
+export function flushScoreQueue(): Promise<number> {
+  flushing ??= sendQueued()
+    .catch(() => 0)
+    .finally(() => {
+      flushing = null;
+    });
+  return flushing;
+}
@@ -0,0 +1,87 @@
+import { isLoadout, maxUpgradeLevel, NO_UPGRADES, UPGRADES, type Loadout, type UpgradeId } from "./game/upgrades";
+
+// ─── Upgrade Shop ─────────────────────────────────────────────────────────────
+// A share of every run's final SUI is banked in a per-player wallet saved in
+// localStorage. Between runs the wallet buys permanent upgrades; the levels
+// owned become the loadout of every run the player starts, unless the player
+// switches them off to play ranked runs on the stock loadout.
+
+export interface ShopState {
+  wallet: number; // banked SUI
+  owned: Loadout;
+  applyUpgrades: boolean; // off: runs start stock and can join the global ranking
+}
+
+// Fraction of the final score banked at the end of a run
+export const BANK_RATE = 0.1;
+
+const SHOP_KEY_PREFIX = "dogSuiDefenderShop:";
+
+export function loadShop(player: string): ShopState {
+  const empty: ShopState = { wallet: 0, owned: { ...NO_UPGRADES }, applyUpgrades: true };
+  if (typeof window === "undefined") return empty;
+  try {
+    const saved = localStorage.getItem(SHOP_KEY_PREFIX + player);
+    if (!saved) return empty;
+    const parsed = JSON.parse(saved) as Partial<ShopState>;
+    // Upgrades added since the shop was saved start unbought
+    const owned = { ...NO_UPGRADES, ...parsed.owned };
+    return {
+      wallet: Number.isSafeInteger(parsed.wallet) ? Math.max(0, parsed.wallet as number) : 0,
+      owned: isLoadout(owned) ? owned : { ...NO_UPGRADES },
+      applyUpgrades: parsed.applyUpgrades !== false,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function saveShop(player: string, shop: ShopState): void {
+  try {
+    localStorage.setItem(SHOP_KEY_PREFIX + player, JSON.stringify(shop));
+  } catch {
+    // ignore
+  }
+}
+
+/** The loadout the player's next run starts with. */
+export function runLoadout(shop: ShopState): Loadout {
+  return shop.applyUpgrades ? shop.owned : { ...NO_UPGRADES };
+}
+
+/** Switches the owned upgrades on or off for the runs to come. Returns the updated shop. */
+export function setApplyUpgrades(player: string, applyUpgrades: boolean): ShopState {
+  const shop = { ...loadShop(player), applyUpgrades };
+  saveShop(player, shop);
+  return shop;
+}
+
+/** SUI a run's final score adds to the wallet. */
+export function bankedShare(score: number): number {
+  return Math.floor(Math.max(0, score) * BANK_RATE);
+}
+
+/** Banks a finished run's share. Returns the updated shop. */
+export function bankRun(player: string, score: number): ShopState {
+  const shop = loadShop(player);
+  shop.wallet += bankedShare(score);
+  saveShop(player, shop);
+  return shop;
+}
+
+/** Price of the next level of `id`, or null once it is maxed out. */
+export function nextUpgradeCost(shop: ShopState, id: UpgradeId): number | null {
+  const level = shop.owned[id];
+  return level < maxUpgradeLevel(id) ? UPGRADES[id].tiers[level].cost : null;
+}
+
+/** Buys the next level of `id` if the wallet covers it. Returns the updated shop, or null if it could not. */
+export function buyUpgrade(player: string, id: UpgradeId): ShopState | null {
+  const shop = loadShop(player);
+  const cost = nextUpgradeCost(shop, id);
+  if (cost === null || shop.wallet < cost) return null;
+  shop.wallet -= cost;
+  shop.owned = { ...shop.owned, [id]: shop.owned[id] + 1 };
+  saveShop(player, shop);
+  return shop;
+}